@@ -8,8 +8,15 @@ export interface InboundAttachmentDescriptor {
   sizeBytes?: number;
 }
 
+export interface InboundCallbackQuery {
+  id: string;
+  data: string;
+  messageId: string | null;
+}
+
 export interface InboundChatEvent extends Omit<InboundEnvelope, "attachments"> {
   attachments: InboundAttachmentDescriptor[];
+  callbackQuery?: InboundCallbackQuery;
 }
 
 export interface TelegramBotIdentity {
@@ -17,15 +24,33 @@ export interface TelegramBotIdentity {
   username: string;
 }
 
+export interface InlineKeyboardButton {
+  text: string;
+  callbackData: string;
+}
+
 export interface SendMessageOptions {
+  // Forum topic to post into; ignored by edits.
+  threadId?: string | null;
   parseMode?: "HTML";
   disableWebPagePreview?: boolean;
+  inlineKeyboard?: InlineKeyboardButton[][];
+}
+
+export interface SendFileOptions {
+  threadId?: string | null;
+  caption?: string;
 }
 
 export interface ChatAdapter {
   getIdentity(): Promise<TelegramBotIdentity>;
   receive(timeoutSec: number): Promise<InboundChatEvent[]>;
-  sendMessage(chatId: string, text: string, options?: SendMessageOptions): Promise<void>;
-  sendTyping(chatId: string): Promise<void>;
+  commitReceived(): Promise<void>;
+  sendMessage(chatId: string, text: string, options?: SendMessageOptions): Promise<string>;
+  editMessageText(chatId: string, messageId: string, text: string, options?: SendMessageOptions): Promise<void>;
+  sendDocument(chatId: string, filePath: string, options?: SendFileOptions): Promise<string>;
+  sendPhoto(chatId: string, filePath: string, options?: SendFileOptions): Promise<string>;
+  answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void>;
+  sendTyping(chatId: string, threadId?: string | null): Promise<void>;
   downloadAttachment(fileId: string, targetPath: string): Promise<void>;
 }
@@ -1,6 +1,14 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import type { ChatAdapter, InboundAttachmentDescriptor, InboundChatEvent, SendMessageOptions, TelegramBotIdentity } from "./chatAdapter.js";
+import type {
+  ChatAdapter,
+  InboundAttachmentDescriptor,
+  InboundChatEvent,
+  SendFileOptions,
+  SendMessageOptions,
+  TelegramBotIdentity
+} from "./chatAdapter.js";
+import type { TelegramWebhookReceiver } from "./telegramWebhook.js";
 import { classifyTelegramError } from "../core/errors.js";
 import { retryAsync } from "../core/utils.js";
 
@@ -32,6 +40,8 @@ interface TelegramEntity {
 
 interface TelegramMessage {
   message_id: number;
+  message_thread_id?: number;
+  is_topic_message?: boolean;
   date?: number;
   text?: string;
   caption?: string;
@@ -65,15 +75,34 @@ interface TelegramMessage {
   };
 }
 
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: {
+    message_id: number;
+    message_thread_id?: number;
+    is_topic_message?: boolean;
+    chat?: TelegramChat;
+  };
+  data?: string;
+}
+
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface TelegramSentMessage {
+  message_id: number;
 }
 
 interface TelegramGetFileResult {
   file_path: string;
 }
 
+const DEFAULT_API_BASE_URL = "https://api.telegram.org";
+
 function mapChatType(type: string | undefined): InboundChatEvent["chatType"] {
   if (type === "private" || type === "group" || type === "supergroup" || type === "channel") {
     return type;
@@ -134,6 +163,58 @@ function extractAttachments(message: TelegramMessage): InboundAttachmentDescript
   return out;
 }
 
+// Only forum topics scope a conversation; reply threads in plain groups also carry message_thread_id.
+function topicThreadId(message: { message_thread_id?: number; is_topic_message?: boolean }): string | null {
+  return message.is_topic_message && message.message_thread_id ? String(message.message_thread_id) : null;
+}
+
+function threadParams(threadId: string | null | undefined): Record<string, unknown> {
+  return threadId ? { message_thread_id: Number(threadId) } : {};
+}
+
+function buildMessageOptions(options: SendMessageOptions): Record<string, unknown> {
+  return {
+    ...(options.parseMode ? { parse_mode: options.parseMode } : {}),
+    ...(options.disableWebPagePreview ? { disable_web_page_preview: true } : {}),
+    ...(options.inlineKeyboard
+      ? {
+          reply_markup: {
+            inline_keyboard: options.inlineKeyboard.map((row) =>
+              row.map((button) => ({ text: button.text, callback_data: button.callbackData }))
+            )
+          }
+        }
+      : {})
+  };
+}
+
+function mapCallbackQuery(query: TelegramCallbackQuery): InboundChatEvent | null {
+  const chat = query.message?.chat;
+  if (!chat?.id || !query.from?.id || typeof query.data !== "string") {
+    return null;
+  }
+  return {
+    chatId: String(chat.id),
+    chatType: mapChatType(chat.type),
+    fromUserId: String(query.from.id),
+    fromUsername: query.from.username ?? null,
+    displayName: buildDisplayName(query.from),
+    transportMessageId: `callback:${query.id}`,
+    threadId: query.message ? topicThreadId(query.message) : null,
+    text: "",
+    isCommand: false,
+    isMentioned: false,
+    isReplyToBot: false,
+    attachments: [],
+    receivedAt: new Date().toISOString(),
+    callbackQuery: {
+      id: query.id,
+      data: query.data,
+      messageId: query.message ? String(query.message.message_id) : null
+    }
+  };
+}
+
 function firstCommandToken(text: string): string {
   const trimmed = text.trim();
   const spaceIdx = trimmed.indexOf(" ");
@@ -143,12 +224,17 @@ function firstCommandToken(text: string): string {
 export class TelegramBotAdapter implements ChatAdapter {
   private loadedOffset = false;
   private offset = 0;
+  private persistedOffset = 0;
+  // Offset past the last received batch; it only becomes the polling offset in commitReceived().
+  private pendingOffset: number | null = null;
   private identityCache: TelegramBotIdentity | null = null;
+  private webhook: TelegramWebhookReceiver | null = null;
 
   constructor(
     private readonly token: string,
     private readonly statePath: string,
-    private readonly configuredBotUsername?: string
+    private readonly configuredBotUsername?: string,
+    private readonly apiBaseUrl = DEFAULT_API_BASE_URL
   ) {}
 
   async getIdentity(): Promise<TelegramBotIdentity> {
@@ -163,15 +249,40 @@ export class TelegramBotAdapter implements ChatAdapter {
     return this.identityCache;
   }
 
+  attachWebhook(receiver: TelegramWebhookReceiver): void {
+    this.webhook = receiver;
+  }
+
+  async setWebhook(url: string, secretToken: string): Promise<void> {
+    await this.callApi(
+      "setWebhook",
+      {
+        url,
+        secret_token: secretToken,
+        allowed_updates: ["message", "callback_query"]
+      },
+      { attempts: 3, baseDelayMs: 1_000, maxDelayMs: 8_000 }
+    );
+  }
+
+  async deleteWebhook(): Promise<void> {
+    await this.callApi("deleteWebhook", {}, { attempts: 3, baseDelayMs: 1_000, maxDelayMs: 8_000 });
+  }
+
   async receive(timeoutSec: number): Promise<InboundChatEvent[]> {
-    await this.ensureOffsetLoaded();
     const identity = await this.getIdentity();
+    if (this.webhook) {
+      const pushed = (await this.webhook.take(timeoutSec)) as TelegramUpdate[];
+      return this.mapUpdates(pushed, identity);
+    }
+
+    await this.ensureOffsetLoaded();
     const updates = await this.callApi<TelegramUpdate[]>(
       "getUpdates",
       {
         timeout: timeoutSec,
         offset: this.offset,
-        allowed_updates: ["message"]
+        allowed_updates: ["message", "callback_query"]
       },
       { attempts: 4, baseDelayMs: 1_000, maxDelayMs: 8_000 }
     );
@@ -180,73 +291,96 @@ export class TelegramBotAdapter implements ChatAdapter {
       return [];
     }
 
+    // An uncommitted batch is fetched again: Telegram drops every update below the offset it is sent.
     let maxUpdateId = this.offset;
-    const events: InboundChatEvent[] = [];
     for (const update of updates) {
       if (typeof update.update_id === "number") {
         maxUpdateId = Math.max(maxUpdateId, update.update_id + 1);
       }
-      const message = update.message;
-      if (!message?.chat?.id || !message.from?.id) {
-        continue;
-      }
+    }
+    const events = this.mapUpdates(updates, identity);
 
-      const text = message.text ?? message.caption ?? "";
-      const token = firstCommandToken(text);
-      const tokenMention = token.match(/^\/[a-zA-Z0-9_]+@([a-zA-Z0-9_]+)$/);
-      const mentionedFromCommand = tokenMention
-        ? tokenMention[1].toLowerCase() === identity.username.toLowerCase()
-        : false;
-      const mentionedInText = text.toLowerCase().includes(`@${identity.username.toLowerCase()}`);
-      const entities = [...(message.entities ?? []), ...(message.caption_entities ?? [])];
-      const hasCommandEntity = entities.some((entity) => entity.type === "bot_command" && entity.offset === 0);
+    // The offset only advances in commitReceived(), once the caller has stored these events durably.
+    this.pendingOffset = maxUpdateId;
+    return events;
+  }
 
-      events.push({
-        chatId: String(message.chat.id),
-        chatType: mapChatType(message.chat.type),
-        fromUserId: String(message.from.id),
-        fromUsername: message.from.username ?? null,
-        displayName: buildDisplayName(message.from),
-        transportMessageId: String(message.message_id),
-        text,
-        isCommand: hasCommandEntity || text.trim().startsWith("/"),
-        isMentioned: mentionedFromCommand || mentionedInText,
-        isReplyToBot: Boolean(
-          message.reply_to_message?.from?.is_bot &&
-            (!message.reply_to_message.from.username ||
-              message.reply_to_message.from.username.toLowerCase() === identity.username.toLowerCase())
-        ),
-        attachments: extractAttachments(message),
-        receivedAt: new Date((message.date ?? Math.floor(Date.now() / 1000)) * 1000).toISOString()
-      });
+  async commitReceived(): Promise<void> {
+    if (this.webhook) {
+      this.webhook.acknowledge();
+      return;
     }
-
-    if (maxUpdateId !== this.offset) {
-      this.offset = maxUpdateId;
-      await this.persistOffset();
+    if (this.pendingOffset !== null) {
+      this.offset = Math.max(this.offset, this.pendingOffset);
+      this.pendingOffset = null;
     }
-
-    return events;
+    if (this.offset === this.persistedOffset) {
+      return;
+    }
+    await this.persistOffset();
+    this.persistedOffset = this.offset;
   }
 
-  async sendMessage(chatId: string, text: string, options: SendMessageOptions = {}): Promise<void> {
-    await this.callApi(
+  async sendMessage(chatId: string, text: string, options: SendMessageOptions = {}): Promise<string> {
+    const sent = await this.callApi<TelegramSentMessage>(
       "sendMessage",
       {
         chat_id: chatId,
+        ...threadParams(options.threadId),
         text,
-        ...(options.parseMode ? { parse_mode: options.parseMode } : {}),
-        ...(options.disableWebPagePreview ? { disable_web_page_preview: true } : {})
+        ...buildMessageOptions(options)
       },
       { attempts: 3, baseDelayMs: 500, maxDelayMs: 4_000 }
     );
+    return String(sent.message_id);
+  }
+
+  async editMessageText(chatId: string, messageId: string, text: string, options: SendMessageOptions = {}): Promise<void> {
+    try {
+      await this.callApi(
+        "editMessageText",
+        {
+          chat_id: chatId,
+          message_id: Number(messageId),
+          text,
+          ...buildMessageOptions(options)
+        },
+        { attempts: 2, baseDelayMs: 500, maxDelayMs: 4_000 }
+      );
+    } catch (err) {
+      // Telegram rejects edits that would not change the text; that is not a failure for us.
+      if (String(err).includes("message is not modified")) {
+        return;
+      }
+      throw err;
+    }
+  }
+
+  async sendDocument(chatId: string, filePath: string, options: SendFileOptions = {}): Promise<string> {
+    return await this.uploadFile("sendDocument", "document", chatId, filePath, options);
+  }
+
+  async sendPhoto(chatId: string, filePath: string, options: SendFileOptions = {}): Promise<string> {
+    return await this.uploadFile("sendPhoto", "photo", chatId, filePath, options);
+  }
+
+  async answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+    await this.callApi(
+      "answerCallbackQuery",
+      {
+        callback_query_id: callbackQueryId,
+        ...(text ? { text } : {})
+      },
+      { attempts: 2, baseDelayMs: 300, maxDelayMs: 2_000 }
+    );
   }
 
-  async sendTyping(chatId: string): Promise<void> {
+  async sendTyping(chatId: string, threadId?: string | null): Promise<void> {
     await this.callApi(
       "sendChatAction",
       {
         chat_id: chatId,
+        ...threadParams(threadId),
         action: "typing"
       },
       { attempts: 2, baseDelayMs: 300, maxDelayMs: 2_000 }
@@ -258,9 +392,15 @@ export class TelegramBotAdapter implements ChatAdapter {
     if (!file.file_path) {
       throw new Error(`Telegram getFile returned no file_path for file_id ${fileId}`);
     }
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    // A local Bot API server started with --local returns absolute paths on its own disk instead of download paths.
+    if (path.isAbsolute(file.file_path)) {
+      await fs.copyFile(file.file_path, targetPath);
+      return;
+    }
     const buf = await retryAsync(
       async () => {
-        const response = await fetch(`https://api.telegram.org/file/bot${this.token}/${file.file_path}`);
+        const response = await fetch(`${this.apiBaseUrl}/file/bot${this.token}/${file.file_path}`);
         if (!response.ok) {
           const detail = (await response.text()).trim();
           throw new Error(`Telegram file download failed (${response.status})${detail ? `: ${detail}` : ""}`);
@@ -274,23 +414,92 @@ export class TelegramBotAdapter implements ChatAdapter {
         classifyError: classifyTelegramError
       }
     );
-    await fs.mkdir(path.dirname(targetPath), { recursive: true });
     await fs.writeFile(targetPath, buf);
   }
 
+  private mapUpdates(updates: TelegramUpdate[], identity: TelegramBotIdentity): InboundChatEvent[] {
+    const events: InboundChatEvent[] = [];
+    for (const update of updates) {
+      if (update.callback_query) {
+        const callbackEvent = mapCallbackQuery(update.callback_query);
+        if (callbackEvent) {
+          events.push(callbackEvent);
+        }
+        continue;
+      }
+      const message = update.message;
+      if (!message?.chat?.id || !message.from?.id) {
+        continue;
+      }
+
+      const text = message.text ?? message.caption ?? "";
+      const token = firstCommandToken(text);
+      const tokenMention = token.match(/^\/[a-zA-Z0-9_]+@([a-zA-Z0-9_]+)$/);
+      const mentionedFromCommand = tokenMention
+        ? tokenMention[1].toLowerCase() === identity.username.toLowerCase()
+        : false;
+      const mentionedInText = text.toLowerCase().includes(`@${identity.username.toLowerCase()}`);
+      const entities = [...(message.entities ?? []), ...(message.caption_entities ?? [])];
+      const hasCommandEntity = entities.some((entity) => entity.type === "bot_command" && entity.offset === 0);
+
+      events.push({
+        chatId: String(message.chat.id),
+        chatType: mapChatType(message.chat.type),
+        fromUserId: String(message.from.id),
+        fromUsername: message.from.username ?? null,
+        displayName: buildDisplayName(message.from),
+        transportMessageId: String(message.message_id),
+        threadId: topicThreadId(message),
+        chatTitle: message.chat.title ?? null,
+        text,
+        isCommand: hasCommandEntity || text.trim().startsWith("/"),
+        isMentioned: mentionedFromCommand || mentionedInText,
+        isReplyToBot: Boolean(
+          message.reply_to_message?.from?.is_bot &&
+            (!message.reply_to_message.from.username ||
+              message.reply_to_message.from.username.toLowerCase() === identity.username.toLowerCase())
+        ),
+        attachments: extractAttachments(message),
+        receivedAt: new Date((message.date ?? Math.floor(Date.now() / 1000)) * 1000).toISOString()
+      });
+    }
+    return events;
+  }
+
+  private async uploadFile(
+    method: "sendDocument" | "sendPhoto",
+    field: "document" | "photo",
+    chatId: string,
+    filePath: string,
+    options: SendFileOptions
+  ): Promise<string> {
+    const data = await fs.readFile(filePath);
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    if (options.threadId) {
+      form.append("message_thread_id", options.threadId);
+    }
+    if (options.caption) {
+      form.append("caption", options.caption);
+    }
+    form.append(field, new Blob([data]), path.basename(filePath));
+    const sent = await this.callApi<TelegramSentMessage>(method, form, { attempts: 3, baseDelayMs: 1_000, maxDelayMs: 8_000 });
+    return String(sent.message_id);
+  }
+
   private async callApi<T>(
     method: string,
-    payload: Record<string, unknown>,
+    payload: Record<string, unknown> | FormData,
     retry: { attempts: number; baseDelayMs: number; maxDelayMs?: number } = { attempts: 1, baseDelayMs: 0 }
   ): Promise<T> {
     return await retryAsync(
       async () => {
-        const response = await fetch(`https://api.telegram.org/bot${this.token}/${method}`, {
+        // fetch sets the multipart boundary header itself for FormData bodies.
+        const response = await fetch(`${this.apiBaseUrl}/bot${this.token}/${method}`, {
           method: "POST",
-          headers: {
-            "content-type": "application/json"
-          },
-          body: JSON.stringify(payload)
+          ...(payload instanceof FormData
+            ? { body: payload }
+            : { headers: { "content-type": "application/json" }, body: JSON.stringify(payload) })
         });
         if (!response.ok) {
           const detail = (await response.text()).trim();
@@ -325,6 +534,7 @@ export class TelegramBotAdapter implements ChatAdapter {
     } catch {
       this.offset = 0;
     }
+    this.persistedOffset = this.offset;
   }
 
   private async persistOffset(): Promise<void> {
@@ -0,0 +1,152 @@
+import http from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { Logger } from "../core/logger.js";
+
+const SECRET_HEADER = "x-telegram-bot-api-secret-token";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface PendingUpdate {
+  update: unknown;
+  response: http.ServerResponse;
+}
+
+function secretMatches(received: string | string[] | undefined, expected: string): boolean {
+  if (typeof received !== "string") {
+    return false;
+  }
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function respond(response: http.ServerResponse, status: number, body = ""): void {
+  if (response.writableEnded) {
+    return;
+  }
+  response.writeHead(status, { "content-type": "text/plain" });
+  response.end(body);
+}
+
+export class TelegramWebhookReceiver {
+  private readonly logger = new Logger("telegram-webhook");
+  private server: http.Server | null = null;
+  private queued: PendingUpdate[] = [];
+  private inFlight: PendingUpdate[] = [];
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private readonly options: {
+      host: string;
+      port: number;
+      path: string;
+      secretToken: string;
+    }
+  ) {}
+
+  async start(): Promise<number> {
+    const server = http.createServer((request, response) => {
+      this.handleRequest(request, response);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : this.options.port;
+    this.logger.info("webhook listener started", { host: this.options.host, port, path: this.options.path });
+    return port;
+  }
+
+  // A batch still in flight was never acknowledged, because storing it failed; it is handed out again first.
+  async take(timeoutSec: number): Promise<unknown[]> {
+    if (this.inFlight.length > 0) {
+      this.queued = [...this.inFlight, ...this.queued];
+      this.inFlight = [];
+    }
+    if (this.queued.length === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.wake = null;
+          resolve();
+        }, timeoutSec * 1000);
+        this.wake = () => {
+          clearTimeout(timer);
+          this.wake = null;
+          resolve();
+        };
+      });
+    }
+    const batch = this.queued;
+    this.queued = [];
+    this.inFlight = batch;
+    return batch.map((item) => item.update);
+  }
+
+  // Telegram redelivers updates whose request did not get a 2xx, so answer only once they are stored.
+  // Covers exactly the batch from the last take().
+  acknowledge(): void {
+    for (const item of this.inFlight) {
+      respond(item.response, 200, "ok");
+    }
+    this.inFlight = [];
+  }
+
+  async close(): Promise<void> {
+    for (const item of [...this.queued, ...this.inFlight]) {
+      respond(item.response, 503);
+    }
+    this.queued = [];
+    this.inFlight = [];
+    this.wake?.();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+    if (request.method !== "POST" || pathname !== this.options.path) {
+      respond(response, 404);
+      request.resume();
+      return;
+    }
+    if (!secretMatches(request.headers[SECRET_HEADER], this.options.secretToken)) {
+      this.logger.warn("rejected webhook request with bad secret", { remoteAddress: request.socket.remoteAddress });
+      respond(response, 401);
+      request.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        respond(response, 413);
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => {
+      if (response.writableEnded) {
+        return;
+      }
+      let update: unknown;
+      try {
+        update = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        respond(response, 400);
+        return;
+      }
+      this.queued.push({ update, response });
+      this.wake?.();
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import { Logger } from "../core/logger.js";
-import type { AgentOutput, AgentType } from "../types.js";
+import type { AgentOutput, AgentType, UserRole } from "../types.js";
 
 export interface RuntimeProcess {
   pid: number | null;
@@ -15,18 +15,49 @@ export interface RunningAgent {
   sessionRef: string | null;
   outputBuffer: string;
   startMode: "fresh" | "resume";
+  model?: string | null;
+  reasoningEffort?: string | null;
+  // Unset means owner, the unrestricted behaviour.
+  role?: UserRole;
+  // Working directory for the agent; unset means the project root.
+  cwd?: string | null;
 }
 
 export interface AgentStartOptions {
   userId: string;
   sessionRef: string | null;
   fresh?: boolean;
+  model?: string | null;
+  reasoningEffort?: string | null;
+  role?: UserRole;
+  cwd?: string | null;
+}
+
+export interface AgentProgressEvent {
+  kind: "tool" | "file_edit" | "text";
+  detail: string;
+  // Absolute path of the edited file, for file_edit events.
+  filePath?: string;
+}
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface AgentSendOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: AgentProgressEvent) => void;
+  // When set, risky tool calls must be approved by the user instead of running with bypassed permissions.
+  requestApproval?: (request: ToolApprovalRequest) => Promise<boolean>;
+  // The run's outbox. It lies outside the working directory when worktree isolation is on, so adapters grant it explicitly.
+  outboxDir?: string | null;
 }
 
 export interface AgentAdapter {
   type: AgentType;
   start(options: AgentStartOptions): Promise<RunningAgent>;
-  send(runtime: RunningAgent, input: string, idleMs: number, timeoutMs: number): Promise<AgentOutput>;
+  send(runtime: RunningAgent, input: string, idleMs: number, timeoutMs: number, options?: AgentSendOptions): Promise<AgentOutput>;
   stop(runtime: RunningAgent): Promise<string | null>;
 }
 
@@ -1,7 +1,89 @@
+import path from "node:path";
 import { randomUUID } from "node:crypto";
-import { query } from "@anthropic-ai/claude-agent-sdk";
-import type { AgentType, AgentOutput } from "../types.js";
-import { createLogicalProcess, extractSessionRef, type AgentAdapter, type AgentStartOptions, type RunningAgent } from "./agentAdapter.js";
+import { query, type CanUseTool, type Options } from "@anthropic-ai/claude-agent-sdk";
+import type { AgentType, AgentOutput, AgentUsage, UserRole } from "../types.js";
+import { AgentCancelledError } from "../core/errors.js";
+import { isRiskyToolCall } from "../core/approvals.js";
+import { claudeRolePolicy } from "../core/roles.js";
+import {
+  createLogicalProcess,
+  extractSessionRef,
+  type AgentAdapter,
+  type AgentProgressEvent,
+  type AgentSendOptions,
+  type AgentStartOptions,
+  type RunningAgent
+} from "./agentAdapter.js";
+
+const FILE_EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+function describeToolUse(name: string, input: Record<string, unknown>): AgentProgressEvent {
+  if (FILE_EDIT_TOOLS.has(name)) {
+    const target = input.file_path ?? input.notebook_path;
+    return typeof target === "string" ? { kind: "file_edit", detail: `${name} ${target}`, filePath: target } : { kind: "file_edit", detail: name };
+  }
+  const summary = [input.command, input.description, input.pattern, input.file_path, input.url].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  return { kind: "tool", detail: summary ? `${name}: ${summary.trim()}` : name };
+}
+
+export function extractProgressEvents(message: unknown): AgentProgressEvent[] {
+  if (!message || typeof message !== "object" || !("type" in message) || message.type !== "assistant" || !("message" in message)) {
+    return [];
+  }
+  const content = (message.message as { content?: unknown } | null)?.content;
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  const events: AgentProgressEvent[] = [];
+  for (const block of content as Array<{ type?: string; text?: unknown; name?: unknown; input?: unknown }>) {
+    if (block.type === "text" && typeof block.text === "string" && block.text.trim()) {
+      events.push({ kind: "text", detail: block.text.trim() });
+    } else if (block.type === "tool_use" && typeof block.name === "string") {
+      events.push(describeToolUse(block.name, (block.input ?? {}) as Record<string, unknown>));
+    }
+  }
+  return events;
+}
+
+// The SDK takes extra CLI flags as a map, so `--flag value`, `--flag=value` and bare `--flag` are folded into one.
+export function toExtraArgs(args: string[]): Record<string, string | null> {
+  const extra: Record<string, string | null> = {};
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!arg.startsWith("--") || arg.length < 3) {
+      continue;
+    }
+    const equals = arg.indexOf("=");
+    if (equals > 2) {
+      extra[arg.slice(2, equals)] = arg.slice(equals + 1);
+      continue;
+    }
+    const next = args[index + 1];
+    if (next !== undefined && !next.startsWith("-")) {
+      extra[arg.slice(2)] = next;
+      index += 1;
+    } else {
+      extra[arg.slice(2)] = null;
+    }
+  }
+  return extra;
+}
+
+// Cache reads and writes are billed input, so they count toward input tokens.
+export function extractResultUsage(message: unknown): AgentUsage | null {
+  if (!message || typeof message !== "object" || !("type" in message) || message.type !== "result") {
+    return null;
+  }
+  const result = message as { usage?: Record<string, unknown>; total_cost_usd?: unknown };
+  const count = (key: string): number => (typeof result.usage?.[key] === "number" ? (result.usage[key] as number) : 0);
+  return {
+    inputTokens: count("input_tokens") + count("cache_read_input_tokens") + count("cache_creation_input_tokens"),
+    outputTokens: count("output_tokens"),
+    costUsd: typeof result.total_cost_usd === "number" ? result.total_cost_usd : null
+  };
+}
 
 export class ClaudeAdapter implements AgentAdapter {
   readonly type: AgentType = "claude";
@@ -15,30 +97,53 @@ export class ClaudeAdapter implements AgentAdapter {
       process: createLogicalProcess(),
       sessionRef: options.fresh ? null : options.sessionRef,
       outputBuffer: "",
-      startMode: options.fresh || !options.sessionRef ? "fresh" : "resume"
+      startMode: options.fresh || !options.sessionRef ? "fresh" : "resume",
+      model: options.model ?? null,
+      reasoningEffort: options.reasoningEffort ?? null,
+      role: options.role ?? "owner",
+      cwd: options.cwd ?? null
     };
   }
 
-  async send(runtime: RunningAgent, input: string, _idleMs: number, timeoutMs: number): Promise<AgentOutput> {
+  async send(
+    runtime: RunningAgent,
+    input: string,
+    _idleMs: number,
+    timeoutMs: number,
+    options: AgentSendOptions = {}
+  ): Promise<AgentOutput> {
+    if (options.signal?.aborted) {
+      throw new AgentCancelledError();
+    }
     const trimmedInput = input.trim();
     const sessionRef = runtime.startMode === "resume" && runtime.sessionRef ? runtime.sessionRef : randomUUID();
-    const projectRoot = process.env.COGNAL_PROJECT_ROOT || process.cwd();
+    const projectRoot = runtime.cwd || process.env.COGNAL_PROJECT_ROOT || process.cwd();
     let timedOut = false;
+    let cancelled = false;
+    let sawSessionId = false;
 
     let finalText = "";
     const localCommandOutputs: string[] = [];
     let finalSessionRef: string | null = runtime.sessionRef ?? sessionRef;
     let resultError = "";
+    let usage: AgentUsage | null = null;
+    const extraArgs = toExtraArgs(this.baseArgs);
+    if (runtime.model) {
+      // A /model choice wins over a model pinned in agents.claude.args.
+      delete extraArgs.model;
+    }
     const runner = query({
       prompt: trimmedInput,
       options: {
         cwd: projectRoot,
         env: process.env,
         pathToClaudeCodeExecutable: this.command,
+        extraArgs,
+        ...(runtime.model ? { model: runtime.model } : {}),
+        ...(runtime.reasoningEffort ? { effort: runtime.reasoningEffort as Options["effort"] } : {}),
         resume: runtime.startMode === "resume" && runtime.sessionRef ? runtime.sessionRef : undefined,
         sessionId: runtime.startMode === "resume" && runtime.sessionRef ? undefined : sessionRef,
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true
+        ...this.buildPermissionOptions(runtime, options, projectRoot)
       }
     });
     const timeoutHandle =
@@ -48,11 +153,22 @@ export class ClaudeAdapter implements AgentAdapter {
             runner.close();
           }, timeoutMs)
         : null;
+    const onAbort = (): void => {
+      cancelled = true;
+      runner.close();
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
 
     try {
       for await (const message of runner) {
         if (typeof message === "object" && message && "session_id" in message && typeof message.session_id === "string") {
           finalSessionRef = message.session_id;
+          sawSessionId = true;
+        }
+        if (options.onProgress) {
+          for (const event of extractProgressEvents(message)) {
+            options.onProgress(event.filePath ? { ...event, filePath: path.resolve(projectRoot, event.filePath) } : event);
+          }
         }
         if (
           typeof message === "object" &&
@@ -70,6 +186,7 @@ export class ClaudeAdapter implements AgentAdapter {
           }
         }
         if (typeof message === "object" && message && "type" in message && message.type === "result") {
+          usage = extractResultUsage(message);
           if ("subtype" in message && message.subtype === "success" && typeof message.result === "string") {
             finalText = message.result.trim();
           } else if ("errors" in message && Array.isArray(message.errors)) {
@@ -78,6 +195,10 @@ export class ClaudeAdapter implements AgentAdapter {
         }
       }
     } catch (err) {
+      if (cancelled) {
+        this.keepCancelledSession(runtime, sawSessionId ? finalSessionRef : null);
+        throw new AgentCancelledError();
+      }
       if (timedOut) {
         throw new Error("claude sdk query failed: Timed out");
       }
@@ -86,9 +207,14 @@ export class ClaudeAdapter implements AgentAdapter {
       if (timeoutHandle) {
         clearTimeout(timeoutHandle);
       }
+      options.signal?.removeEventListener("abort", onAbort);
       runner.close();
     }
 
+    if (cancelled) {
+      this.keepCancelledSession(runtime, sawSessionId ? finalSessionRef : null);
+      throw new AgentCancelledError();
+    }
     if (timedOut) {
       throw new Error("claude sdk query failed: Timed out");
     }
@@ -111,7 +237,8 @@ export class ClaudeAdapter implements AgentAdapter {
 
     return {
       text: finalText,
-      sessionRef: finalSessionRef
+      sessionRef: finalSessionRef,
+      ...(usage ? { usage } : {})
     };
   }
 
@@ -120,6 +247,61 @@ export class ClaudeAdapter implements AgentAdapter {
     return runtime.sessionRef;
   }
 
+  private buildPermissionOptions(runtime: RunningAgent, options: AgentSendOptions, projectRoot: string): Partial<Options> {
+    const role = runtime.role ?? "owner";
+    const policy = claudeRolePolicy(role);
+    const writableDirs = options.outboxDir ? [options.outboxDir] : [];
+    const directories = writableDirs.length > 0 ? { additionalDirectories: writableDirs } : {};
+    if (policy.permissionMode === "bypassPermissions") {
+      const canUseTool = options.requestApproval ? this.createPermissionHandler(options.requestApproval, projectRoot, writableDirs) : undefined;
+      return canUseTool
+        ? { permissionMode: "default", canUseTool, ...directories }
+        : { permissionMode: "bypassPermissions", allowDangerouslySkipPermissions: true, ...directories };
+    }
+    return {
+      ...directories,
+      permissionMode: policy.permissionMode,
+      disallowedTools: policy.disallowedTools,
+      canUseTool: this.createRoleHandler(role, policy.permittedTools, projectRoot, writableDirs)
+    };
+  }
+
+  // Non-owners never get a Telegram approval prompt: they could approve their own calls beyond their role.
+  private createRoleHandler(role: UserRole, permittedTools: string[], projectRoot: string, writableDirs: string[]): CanUseTool {
+    return async (toolName, input) => {
+      if (permittedTools.includes(toolName) && !isRiskyToolCall(toolName, input, projectRoot, writableDirs)) {
+        return { behavior: "allow", updatedInput: input };
+      }
+      return { behavior: "deny", message: `${toolName} is not allowed for the ${role} role here.` };
+    };
+  }
+
+  private createPermissionHandler(
+    requestApproval: NonNullable<AgentSendOptions["requestApproval"]>,
+    projectRoot: string,
+    writableDirs: string[]
+  ): CanUseTool {
+    return async (toolName, input) => {
+      if (!isRiskyToolCall(toolName, input, projectRoot, writableDirs)) {
+        return { behavior: "allow", updatedInput: input };
+      }
+      const approved = await requestApproval({ toolName, input });
+      if (approved) {
+        return { behavior: "allow", updatedInput: input };
+      }
+      return { behavior: "deny", message: `The user denied ${toolName} via Telegram.` };
+    };
+  }
+
+  private keepCancelledSession(runtime: RunningAgent, sessionRef: string | null): void {
+    // Only adopt a session the SDK actually reported; a pre-generated ID may never have been persisted.
+    if (!sessionRef) {
+      return;
+    }
+    runtime.sessionRef = sessionRef;
+    runtime.startMode = "resume";
+  }
+
   private fallbackSlashCommandText(input: string): string {
     const command = input.trim().split(/\s+/, 1)[0]?.toLowerCase() || "";
     switch (command) {
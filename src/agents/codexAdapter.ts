@@ -2,9 +2,76 @@ import { promises as fs } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
-import type { AgentType, AgentOutput } from "../types.js";
-import { runCommand } from "../core/utils.js";
-import { createLogicalProcess, extractSessionRef, type AgentAdapter, type AgentStartOptions, type RunningAgent } from "./agentAdapter.js";
+import type { AgentType, AgentOutput, AgentUsage } from "../types.js";
+import { runCommand, type CommandResult } from "../core/utils.js";
+import { AgentCancelledError } from "../core/errors.js";
+import { codexSandboxArgs } from "../core/roles.js";
+import {
+  createLogicalProcess,
+  extractSessionRef,
+  type AgentAdapter,
+  type AgentSendOptions,
+  type AgentStartOptions,
+  type RunningAgent
+} from "./agentAdapter.js";
+
+export function buildCodexModelArgs(runtime: Pick<RunningAgent, "model" | "reasoningEffort">): string[] {
+  return [
+    ...(runtime.model ? ["--model", runtime.model] : []),
+    ...(runtime.reasoningEffort ? ["-c", `model_reasoning_effort="${runtime.reasoningEffort}"`] : [])
+  ];
+}
+
+interface CodexTokenCounts {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface CodexEvent {
+  type?: string;
+  usage?: CodexTokenCounts;
+  item?: { type?: string; text?: unknown };
+  msg?: { type?: string; message?: unknown; info?: { total_token_usage?: CodexTokenCounts } };
+}
+
+// `codex exec --json` prints one event per line. Newer CLIs report usage per turn, older ones a running token_count.
+export function parseCodexEvents(stdout: string): { usage: AgentUsage | null; lastMessage: string } {
+  const turns: CodexTokenCounts[] = [];
+  let runningTotal: CodexTokenCounts | null = null;
+  let lastMessage = "";
+  for (const line of stdout.split("\n")) {
+    if (!line.trim().startsWith("{")) {
+      continue;
+    }
+    let event: CodexEvent;
+    try {
+      event = JSON.parse(line) as CodexEvent;
+    } catch {
+      continue;
+    }
+    if (event.type === "turn.completed" && event.usage) {
+      turns.push(event.usage);
+    } else if (event.type === "item.completed" && event.item?.type === "agent_message" && typeof event.item.text === "string") {
+      lastMessage = event.item.text.trim();
+    } else if (event.msg?.type === "token_count" && event.msg.info?.total_token_usage) {
+      runningTotal = event.msg.info.total_token_usage;
+    } else if (event.msg?.type === "agent_message" && typeof event.msg.message === "string") {
+      lastMessage = event.msg.message.trim();
+    }
+  }
+  const counts = turns.length > 0 ? turns : runningTotal ? [runningTotal] : [];
+  if (counts.length === 0) {
+    return { usage: null, lastMessage };
+  }
+  return {
+    usage: {
+      inputTokens: counts.reduce((sum, entry) => sum + (Number(entry.input_tokens) || 0), 0),
+      outputTokens: counts.reduce((sum, entry) => sum + (Number(entry.output_tokens) || 0), 0),
+      costUsd: null
+    },
+    lastMessage
+  };
+}
 
 export class CodexAdapter implements AgentAdapter {
   readonly type: AgentType = "codex";
@@ -20,28 +87,50 @@ export class CodexAdapter implements AgentAdapter {
       process: createLogicalProcess(),
       sessionRef: options.fresh ? null : options.sessionRef,
       outputBuffer: "",
-      startMode: !options.fresh && Boolean(options.sessionRef) && supportsResume ? "resume" : "fresh"
+      startMode: !options.fresh && Boolean(options.sessionRef) && supportsResume ? "resume" : "fresh",
+      model: options.model ?? null,
+      reasoningEffort: options.reasoningEffort ?? null,
+      role: options.role ?? "owner",
+      cwd: options.cwd ?? null
     };
   }
 
-  async send(runtime: RunningAgent, input: string, _idleMs: number, timeoutMs: number): Promise<AgentOutput> {
+  async send(
+    runtime: RunningAgent,
+    input: string,
+    _idleMs: number,
+    timeoutMs: number,
+    options: AgentSendOptions = {}
+  ): Promise<AgentOutput> {
+    if (options.signal?.aborted) {
+      throw new AgentCancelledError();
+    }
     const lastMessagePath = path.join(os.tmpdir(), `cognal-codex-last-${randomUUID()}.txt`);
-    const execArgs = ["exec", "--skip-git-repo-check", "--dangerously-bypass-approvals-and-sandbox"];
+    const execArgs = [...this.buildExecArgs(runtime, options), "--json", ...buildCodexModelArgs(runtime)];
     try {
       const trimmedInput = input.trim();
       let result;
       if (runtime.startMode === "resume" && runtime.sessionRef) {
         result = await this.runCodex(
           [...this.baseArgs, ...execArgs, "resume", runtime.sessionRef, "--output-last-message", lastMessagePath, trimmedInput],
-          timeoutMs
+          timeoutMs,
+          options.signal,
+          runtime.cwd
         );
+        this.throwIfCancelled(runtime, result, options.signal);
         if (result.code !== 0) {
           runtime.startMode = "fresh";
         }
       }
 
       if (!result || result.code !== 0) {
-        result = await this.runCodex([...this.baseArgs, ...execArgs, "--output-last-message", lastMessagePath, trimmedInput], timeoutMs);
+        result = await this.runCodex(
+          [...this.baseArgs, ...execArgs, "--output-last-message", lastMessagePath, trimmedInput],
+          timeoutMs,
+          options.signal,
+          runtime.cwd
+        );
+        this.throwIfCancelled(runtime, result, options.signal);
       }
 
       let lastMessage = "";
@@ -56,14 +145,20 @@ export class CodexAdapter implements AgentAdapter {
         throw new Error(`codex exec failed (${result.code}): ${detail}`);
       }
 
-      const text = lastMessage || result.stdout.trim();
+      const events = parseCodexEvents(result.stdout);
+      // The raw stdout is the --json event stream, which is no reply; failing lets failover answer instead.
+      const text = lastMessage || events.lastMessage;
+      if (!text) {
+        throw new Error("No output from codex");
+      }
       const sessionRef = extractSessionRef(`${result.stdout}\n${result.stderr}`) ?? runtime.sessionRef;
       runtime.sessionRef = sessionRef;
       runtime.startMode = sessionRef ? "resume" : "fresh";
       runtime.outputBuffer += text;
       return {
         text,
-        sessionRef
+        sessionRef,
+        ...(events.usage ? { usage: events.usage } : {})
       };
     } finally {
       try {
@@ -93,10 +188,29 @@ export class CodexAdapter implements AgentAdapter {
     return this.resumeSupport;
   }
 
-  private async runCodex(args: string[], timeoutMs: number) {
+  private buildExecArgs(runtime: RunningAgent, options: AgentSendOptions): string[] {
+    const writableDirs = options.outboxDir ? [options.outboxDir] : [];
+    return ["exec", "--skip-git-repo-check", ...codexSandboxArgs(runtime.role ?? "owner", Boolean(options.requestApproval), writableDirs)];
+  }
+
+  private throwIfCancelled(runtime: RunningAgent, result: CommandResult, signal?: AbortSignal): void {
+    if (!signal?.aborted) {
+      return;
+    }
+    const sessionRef = extractSessionRef(`${result.stdout}\n${result.stderr}`);
+    if (sessionRef) {
+      runtime.sessionRef = sessionRef;
+      runtime.startMode = "resume";
+    }
+    throw new AgentCancelledError();
+  }
+
+  private async runCodex(args: string[], timeoutMs: number, signal?: AbortSignal, cwd?: string | null): Promise<CommandResult> {
     return await runCommand(this.command, args, {
+      cwd: cwd ?? undefined,
       timeoutMs,
-      env: process.env
+      env: process.env,
+      signal
     });
   }
 }
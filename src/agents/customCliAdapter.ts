@@ -0,0 +1,117 @@
+import type { CustomAgentConfig } from "../config.js";
+import type { AgentType, AgentOutput } from "../types.js";
+import { runCommand, type CommandResult } from "../core/utils.js";
+import { AgentCancelledError } from "../core/errors.js";
+import {
+  createLogicalProcess,
+  type AgentAdapter,
+  type AgentSendOptions,
+  type AgentStartOptions,
+  type RunningAgent
+} from "./agentAdapter.js";
+
+const PROMPT_PLACEHOLDER = "{prompt}";
+const SESSION_PLACEHOLDER = "{session}";
+
+export function buildCustomAgentArgs(spec: CustomAgentConfig, prompt: string, sessionRef: string | null): string[] {
+  const resume = sessionRef && spec.resumeArgs.length > 0 ? spec.resumeArgs.map((arg) => arg.split(SESSION_PLACEHOLDER).join(sessionRef)) : [];
+  return [...resume, ...spec.args.map((arg) => arg.split(PROMPT_PLACEHOLDER).join(prompt))];
+}
+
+export function extractCustomSessionRef(spec: CustomAgentConfig, output: string): string | null {
+  if (!spec.sessionIdPattern) {
+    return null;
+  }
+  const match = output.match(new RegExp(spec.sessionIdPattern));
+  if (!match) {
+    return null;
+  }
+  return (match[1] ?? match[0]).trim() || null;
+}
+
+// Runs an arbitrary CLI once per prompt; its stdout is the reply.
+export class CustomCliAdapter implements AgentAdapter {
+  constructor(
+    readonly type: AgentType,
+    private readonly command: string,
+    private readonly spec: CustomAgentConfig
+  ) {}
+
+  async start(options: AgentStartOptions): Promise<RunningAgent> {
+    // An arbitrary CLI cannot be sandboxed per role, so it is reserved for owners.
+    if (options.role && options.role !== "owner") {
+      throw new Error(`Agent '${this.type}' is only available to owners`);
+    }
+    const canResume = !options.fresh && Boolean(options.sessionRef) && this.spec.resumeArgs.length > 0;
+    return {
+      agent: this.type,
+      userId: options.userId,
+      process: createLogicalProcess(),
+      sessionRef: options.fresh ? null : options.sessionRef,
+      outputBuffer: "",
+      startMode: canResume ? "resume" : "fresh",
+      cwd: options.cwd ?? null
+    };
+  }
+
+  async send(
+    runtime: RunningAgent,
+    input: string,
+    _idleMs: number,
+    timeoutMs: number,
+    options: AgentSendOptions = {}
+  ): Promise<AgentOutput> {
+    if (options.signal?.aborted) {
+      throw new AgentCancelledError();
+    }
+    const prompt = input.trim();
+    let result: CommandResult | null = null;
+    if (runtime.startMode === "resume" && runtime.sessionRef) {
+      result = await this.run(prompt, runtime.sessionRef, timeoutMs, options.signal, runtime.cwd);
+      if (result.code !== 0) {
+        runtime.startMode = "fresh";
+      }
+    }
+    if (!result || result.code !== 0) {
+      result = await this.run(prompt, null, timeoutMs, options.signal, runtime.cwd);
+    }
+
+    if (result.code !== 0) {
+      const detail = (result.stderr || result.stdout || "no output").trim();
+      throw new Error(`${this.type} failed (${result.code}): ${detail}`);
+    }
+
+    const text = result.stdout.trim();
+    const sessionRef = extractCustomSessionRef(this.spec, `${result.stdout}\n${result.stderr}`) ?? runtime.sessionRef;
+    runtime.sessionRef = sessionRef;
+    runtime.startMode = sessionRef && this.spec.resumeArgs.length > 0 ? "resume" : "fresh";
+    runtime.outputBuffer += text;
+    return { text, sessionRef };
+  }
+
+  async stop(runtime: RunningAgent): Promise<string | null> {
+    runtime.process.kill("SIGTERM");
+    return runtime.sessionRef;
+  }
+
+  private async run(
+    prompt: string,
+    sessionRef: string | null,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    cwd?: string | null
+  ): Promise<CommandResult> {
+    const usesPlaceholder = this.spec.args.some((arg) => arg.includes(PROMPT_PLACEHOLDER));
+    const result = await runCommand(this.command, buildCustomAgentArgs(this.spec, prompt, sessionRef), {
+      cwd: cwd ?? undefined,
+      timeoutMs,
+      env: process.env,
+      signal,
+      ...(usesPlaceholder ? {} : { stdin: prompt })
+    });
+    if (signal?.aborted) {
+      throw new AgentCancelledError();
+    }
+    return result;
+  }
+}
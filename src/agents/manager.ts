@@ -1,21 +1,63 @@
 import { Logger } from "../core/logger.js";
-import { classifyProviderError } from "../core/errors.js";
-import { otherAgent } from "../core/router.js";
+import { AgentCancelledError, classifyProviderError, RunLimitError } from "../core/errors.js";
 import { retryAsync } from "../core/utils.js";
+import { buildHandoffDigest, formatHandoffSummary, HANDOFF_SUMMARY_PROMPT } from "../core/handoff.js";
+import { isSharedScope } from "../core/scope.js";
+import type { HandoffMode } from "../config.js";
+import type { GitCheckpoints } from "../core/checkpoints.js";
+import type { GitWorktrees } from "../core/worktrees.js";
 import type { Db } from "../core/db.js";
-import type { AgentOutput, AgentType } from "../types.js";
-import type { AgentAdapter, RunningAgent } from "./agentAdapter.js";
+import type { LimitRefusal } from "../core/limits.js";
+import { resolveUserRole } from "../core/roles.js";
+import type { AgentOutput, AgentRunOutcome, AgentRunRecord, AgentType, BindingScope, ModelPreference, UserRole } from "../types.js";
+import type { AgentAdapter, AgentSendOptions, RunningAgent } from "./agentAdapter.js";
 
 interface ManagerOptions {
   failoverEnabled: boolean;
   agentResponseSec: number;
   agentIdleMs: number;
   defaultAgent: AgentType;
+  defaultRole?: UserRole;
+  handoff?: { mode: HandoffMode; messages: number; maxChars: number };
+  checkpoints?: Pick<GitCheckpoints, "snapshot">;
+  worktrees?: Pick<GitWorktrees, "workdirFor">;
+}
+
+type RunOptions = Pick<AgentSendOptions, "onProgress" | "requestApproval" | "outboxDir"> & {
+  // Stored with a failed run so the ID shown to the user can be found in `cognal usage` data.
+  diagnosticId?: string;
+  // Checked together with writing the run's row, so concurrent runs of one user cannot all pass it.
+  checkLimits?: () => Promise<LimitRefusal | null>;
+};
+
+// Over the limits, a summary handoff falls back to the free transcript digest.
+type SwitchOptions = Pick<RunOptions, "requestApproval" | "checkLimits">;
+
+type RunSendOptions = AgentSendOptions & { signal: AbortSignal };
+
+// Filled in during the run so the run record names the agent that actually answered.
+interface RunTrace {
+  agent: AgentType | null;
+  failover: boolean;
+}
+
+interface RuntimeContext {
+  role: UserRole;
+  cwd: string | null;
+}
+
+interface PendingHandoff {
+  agent: AgentType;
+  preamble: string;
 }
 
 export class AgentManager {
   private readonly logger = new Logger("agent-manager");
   private readonly runtimes = new Map<string, RunningAgent>();
+  private readonly activeRuns = new Map<string, { scope: BindingScope; controller: AbortController }>();
+  private readonly scopeQueues = new Map<string, Promise<unknown>>();
+  private readonly admissionQueues = new Map<string, Promise<unknown>>();
+  private readonly pendingHandoffs = new Map<string, PendingHandoff>();
 
   constructor(
     private readonly db: Db,
@@ -23,134 +65,448 @@ export class AgentManager {
     private readonly options: ManagerOptions
   ) {}
 
-  async switchAgent(userId: string, target: AgentType): Promise<void> {
+  // Resolves true when a handoff preamble was queued for the incoming agent's next prompt.
+  async switchAgent(scope: BindingScope, target: AgentType, options: SwitchOptions = {}): Promise<boolean> {
     this.requireAdapter(target);
-    const binding = await this.db.getBinding(userId, this.options.defaultAgent);
-    const current = this.runtimes.get(userId);
+    return await this.inScopeQueue(scope.key, async () => {
+      const binding = await this.db.getBinding(scope, this.options.defaultAgent);
+      const outgoing = binding.activeAgent;
+      // Built before the outgoing runtime stops, so summary mode can still ask it.
+      const preamble = outgoing !== target ? await this.prepareSwitchHandoff(scope, outgoing, binding, options) : null;
+
+      const current = this.runtimes.get(scope.key);
+      if (current && current.agent === target) {
+        return false;
+      }
+
+      if (current) {
+        const stoppedRef = await this.stopRuntime(current);
+        if (stoppedRef) {
+          await this.db.updateSessionRef(scope.key, current.agent, stoppedRef);
+        }
+        this.runtimes.delete(scope.key);
+      }
+
+      await this.db.setActiveAgent(scope.key, target);
+      const updatedBinding = await this.db.getBinding(scope, this.options.defaultAgent);
+      const runtime = await this.startForBinding(scope, target, updatedBinding, await this.runtimeContext(scope));
+      this.runtimes.set(scope.key, runtime);
+      this.pendingHandoffs.delete(scope.key);
+      if (preamble) {
+        this.pendingHandoffs.set(scope.key, { agent: target, preamble });
+      }
+      this.logger.info("switched active agent", { bindingScope: scope.key, target, handoff: Boolean(preamble) });
+      return Boolean(preamble);
+    });
+  }
+
+  async sendToActive(scope: BindingScope, input: string, options: RunOptions = {}): Promise<AgentOutput> {
+    // A shared chat session can receive prompts from several members at once; run them one at a time.
+    return await this.inScopeQueue(scope.key, async () =>
+      await this.runExclusive(scope, options, async (sendOptions, trace) => await this.runActive(scope, input, sendOptions, trace))
+    );
+  }
+
+  // Replaces the scope's session for `agent`, waiting for any run in the scope to finish first.
+  async switchSession(scope: BindingScope, agent: AgentType, sessionRef: string | null, namedSessionId: string | null): Promise<void> {
+    this.requireAdapter(agent);
+    await this.inScopeQueue(scope.key, async () => {
+      const current = this.runtimes.get(scope.key);
+      if (current) {
+        // Saved before the named session changes, so the outgoing session keeps its latest ref.
+        const stoppedRef = await this.stopRuntime(current);
+        if (stoppedRef) {
+          await this.db.updateSessionRef(scope.key, current.agent, stoppedRef);
+        }
+        this.runtimes.delete(scope.key);
+      }
+      this.pendingHandoffs.delete(scope.key);
+      await this.db.getBinding(scope, this.options.defaultAgent);
+      await this.db.setActiveSession(scope.key, namedSessionId);
+      await this.db.setActiveAgent(scope.key, agent);
+      await this.db.updateSessionRef(scope.key, agent, sessionRef);
+      this.logger.info("switched session", { bindingScope: scope.key, agent, namedSessionId });
+    });
+  }
+
+  // The running runtime is stopped so the next prompt starts with the new choice; its session is kept.
+  async setModelPreference(scope: BindingScope, agent: AgentType, preference: ModelPreference): Promise<void> {
+    await this.inScopeQueue(scope.key, async () => {
+      await this.db.setModelPreference(scope.key, agent, preference);
+      const current = this.runtimes.get(scope.key);
+      if (current && current.agent === agent) {
+        const stoppedRef = await this.stopRuntime(current);
+        if (stoppedRef) {
+          await this.db.updateSessionRef(scope.key, current.agent, stoppedRef);
+        }
+        this.runtimes.delete(scope.key);
+      }
+      this.logger.info("updated model preference", { bindingScope: scope.key, agent, ...preference });
+    });
+  }
 
-    if (current && current.agent === target) {
-      return;
+  private async inScopeQueue<T>(scopeKey: string, task: () => Promise<T>): Promise<T> {
+    return await this.inQueue(this.scopeQueues, scopeKey, task);
+  }
+
+  private async inQueue<T>(queues: Map<string, Promise<unknown>>, key: string, task: () => Promise<T>): Promise<T> {
+    const previous = queues.get(key) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    queues.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (queues.get(key) === run) {
+        queues.delete(key);
+      }
     }
+  }
 
-    if (current) {
-      const stoppedRef = await this.stopRuntime(current);
-      if (stoppedRef) {
-        await this.db.updateSessionRef(userId, current.agent, stoppedRef);
+  // Every paid run goes through here, so /cancel, accounting and checkpoints cover it.
+  private async runExclusive(
+    scope: BindingScope,
+    options: RunOptions,
+    execute: (sendOptions: RunSendOptions, trace: RunTrace) => Promise<AgentOutput>
+  ): Promise<AgentOutput> {
+    const { diagnosticId, checkLimits, ...sendOptions } = options;
+    const startedAt = new Date();
+    // One user's runs from different chats or topics are admitted one at a time, so each sees the others' rows.
+    const runId = await this.inQueue(this.admissionQueues, scope.userId, async () => {
+      const refusal = checkLimits ? await checkLimits() : null;
+      if (refusal) {
+        throw new RunLimitError(refusal);
       }
-      this.runtimes.delete(userId);
+      return await this.startRunRecord(scope, startedAt);
+    });
+    const controller = new AbortController();
+    this.activeRuns.set(scope.key, { scope, controller });
+    const checkpointBefore = await this.checkpoint(scope);
+    const editedFiles = new Set<string>();
+    const { onProgress } = sendOptions;
+    if (checkpointBefore) {
+      sendOptions.onProgress = (event) => {
+        if (event.kind === "file_edit" && event.filePath) {
+          editedFiles.add(event.filePath);
+        }
+        onProgress?.(event);
+      };
     }
+    const trace: RunTrace = { agent: null, failover: false };
+    let output: AgentOutput | null = null;
+    let outcome: AgentRunOutcome = "error";
+    try {
+      output = await execute({ ...sendOptions, signal: controller.signal }, trace);
+      outcome = trace.failover ? "failover" : "success";
+      return output;
+    } catch (err) {
+      outcome = err instanceof AgentCancelledError ? "cancelled" : "error";
+      throw err;
+    } finally {
+      const checkpointAfter = checkpointBefore ? await this.checkpoint(scope) : null;
+      if (this.activeRuns.get(scope.key)?.controller === controller) {
+        this.activeRuns.delete(scope.key);
+      }
+      await this.recordRun(runId, {
+        userId: scope.userId,
+        chatId: scope.chatId,
+        scopeKey: scope.key,
+        agent: trace.agent ?? this.options.defaultAgent,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        inputTokens: output?.usage?.inputTokens ?? 0,
+        outputTokens: output?.usage?.outputTokens ?? 0,
+        costUsd: output?.usage?.costUsd ?? null,
+        outcome,
+        diagnosticId: outcome === "error" ? (diagnosticId ?? null) : null,
+        checkpointBefore,
+        checkpointAfter,
+        editedFiles: [...editedFiles]
+      });
+    }
+  }
 
-    await this.db.setActiveAgent(userId, target);
-    const updatedBinding = await this.db.getBinding(userId, this.options.defaultAgent);
-    const runtime = await this.startForBinding(userId, target, updatedBinding);
-    this.runtimes.set(userId, runtime);
-    this.logger.info("switched active agent", { userId, target });
+  // Like accounting, a failed snapshot only costs /diff and /undo for this run.
+  private async checkpoint(scope: BindingScope): Promise<string | null> {
+    if (!this.options.checkpoints) {
+      return null;
+    }
+    try {
+      return await this.options.checkpoints.snapshot((await this.workdirFor(scope)) ?? undefined);
+    } catch (err) {
+      this.logger.warn("failed taking checkpoint", { bindingScope: scope.key, error: String(err) });
+      return null;
+    }
+  }
+
+  // Accounting must never turn a delivered answer into a failure.
+  private async startRunRecord(scope: BindingScope, startedAt: Date): Promise<string | null> {
+    try {
+      return await this.db.insertAgentRun({
+        userId: scope.userId,
+        chatId: scope.chatId,
+        scopeKey: scope.key,
+        agent: this.options.defaultAgent,
+        startedAt: startedAt.toISOString(),
+        durationMs: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: null,
+        outcome: "running",
+        diagnosticId: null,
+        checkpointBefore: null,
+        checkpointAfter: null,
+        editedFiles: []
+      });
+    } catch (err) {
+      this.logger.warn("failed recording agent run", { bindingScope: scope.key, error: String(err) });
+      return null;
+    }
   }
 
-  async sendToActive(userId: string, input: string): Promise<AgentOutput> {
-    const binding = await this.db.getBinding(userId, this.options.defaultAgent);
+  private async recordRun(runId: string | null, run: AgentRunRecord): Promise<void> {
+    try {
+      if (runId) {
+        await this.db.finishAgentRun(runId, run);
+      } else {
+        await this.db.insertAgentRun(run);
+      }
+    } catch (err) {
+      this.logger.warn("failed recording agent run", { bindingScope: run.scopeKey, error: String(err) });
+    }
+  }
+
+  isRunning(scopeKey: string): boolean {
+    return this.activeRuns.has(scopeKey);
+  }
+
+  // For state shared between scopes, such as one user's worktree in "user" isolation mode.
+  isAnyRunning(matches: (scope: BindingScope) => boolean): boolean {
+    return [...this.activeRuns.values()].some((run) => matches(run.scope));
+  }
+
+  cancelActive(scopeKey: string): boolean {
+    const controller = this.activeRuns.get(scopeKey)?.controller;
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+    controller.abort();
+    this.logger.info("cancelled active run", { bindingScope: scopeKey });
+    return true;
+  }
+
+  private async runActive(
+    scope: BindingScope,
+    input: string,
+    sendOptions: RunSendOptions,
+    trace: RunTrace
+  ): Promise<AgentOutput> {
+    const { signal } = sendOptions;
+    const binding = await this.db.getBinding(scope, this.options.defaultAgent);
     const activeAgent = this.ensureAgentEnabled(binding.activeAgent);
     if (activeAgent !== binding.activeAgent) {
-      await this.db.setActiveAgent(userId, activeAgent);
+      await this.db.setActiveAgent(scope.key, activeAgent);
     }
-    const runtime = await this.ensureRuntime(userId, activeAgent, binding);
+    trace.agent = activeAgent;
+    const runtime = await this.ensureRuntime(scope, activeAgent, binding);
+    const pending = this.pendingHandoffs.get(scope.key);
+    const prompt = pending && pending.agent === runtime.agent ? `${pending.preamble}\n\n${input}` : input;
 
     try {
-      const output = await this.sendWithRetry(runtime, input);
+      const output = await this.sendWithRetry(runtime, prompt, sendOptions);
+      if (this.pendingHandoffs.get(scope.key) === pending) {
+        this.pendingHandoffs.delete(scope.key);
+      }
       if (output.sessionRef) {
-        await this.db.updateSessionRef(userId, runtime.agent, output.sessionRef);
+        await this.db.updateSessionRef(scope.key, runtime.agent, output.sessionRef);
       }
       return output;
     } catch (err) {
-      await this.db.clearRuntimePid(userId, runtime.agent, String(err));
+      if (signal.aborted || err instanceof AgentCancelledError) {
+        // A cancelled run keeps its runtime and session so the user can continue where it stopped.
+        if (runtime.sessionRef) {
+          await this.db.updateSessionRef(scope.key, runtime.agent, runtime.sessionRef);
+        }
+        throw err instanceof AgentCancelledError ? err : new AgentCancelledError();
+      }
+      await this.db.clearRuntimePid(scope.userId, runtime.agent, String(err));
       this.logger.error("active agent failed", {
-        userId,
+        userId: scope.userId,
+        bindingScope: scope.key,
         agent: runtime.agent,
         error: String(err)
       });
-      this.runtimes.delete(userId);
+      this.runtimes.delete(scope.key);
 
       if (!this.options.failoverEnabled) {
         throw err;
       }
 
-      const fallbackAgent = otherAgent(runtime.agent);
-      if (!this.adapters[fallbackAgent]) {
+      const fallbackAgent = this.fallbackFor(runtime.agent);
+      if (!fallbackAgent) {
         throw err;
       }
-      await this.db.setActiveAgent(userId, fallbackAgent);
-      const fallbackBinding = await this.db.getBinding(userId, this.options.defaultAgent);
-      const fallbackRuntime = await this.ensureRuntime(userId, fallbackAgent, fallbackBinding);
+      trace.agent = fallbackAgent;
+      trace.failover = true;
+      await this.db.setActiveAgent(scope.key, fallbackAgent);
+      const fallbackBinding = await this.db.getBinding(scope, this.options.defaultAgent);
+      const fallbackRuntime = await this.ensureRuntime(scope, fallbackAgent, fallbackBinding);
+      this.pendingHandoffs.delete(scope.key);
+      // The failed agent cannot summarize, so failover only ever carries the digest. The newest row is this request.
+      const digest = this.options.handoff?.mode === "off" ? null : await this.buildDigest(scope, runtime.agent, true);
       const handoffInput = [
         "[Automatic failover from previous agent due to runtime error.]",
+        ...(digest ? [digest] : []),
         "Continue from this latest user request:",
         input
       ].join("\n\n");
 
-      const output = await this.sendWithRetry(fallbackRuntime, handoffInput);
+      const output = await this.sendWithRetry(fallbackRuntime, handoffInput, sendOptions);
       if (output.sessionRef) {
-        await this.db.updateSessionRef(userId, fallbackRuntime.agent, output.sessionRef);
+        await this.db.updateSessionRef(scope.key, fallbackRuntime.agent, output.sessionRef);
       }
       return {
         text: `[Failover -> ${fallbackAgent}]\n\n${output.text}`,
-        sessionRef: output.sessionRef
+        sessionRef: output.sessionRef,
+        usage: output.usage
       };
     }
   }
 
-  async clearAgentSession(userId: string, agent: AgentType): Promise<void> {
-    const runtime = this.runtimes.get(userId);
-    if (runtime && runtime.agent === agent) {
-      await this.stopRuntime(runtime);
-      this.runtimes.delete(userId);
-    }
-    await this.db.updateSessionRef(userId, agent, null);
-    await this.db.clearRuntimePid(userId, agent);
-    this.logger.info("cleared agent session", { userId, agent });
+  // Waits for any run in the scope to finish, so it cannot write its session back after the clear.
+  async clearAgentSession(scope: BindingScope, agent: AgentType): Promise<void> {
+    await this.inScopeQueue(scope.key, async () => {
+      const runtime = this.runtimes.get(scope.key);
+      if (runtime && runtime.agent === agent) {
+        await this.stopRuntime(runtime);
+        this.runtimes.delete(scope.key);
+      }
+      this.pendingHandoffs.delete(scope.key);
+      await this.db.updateSessionRef(scope.key, agent, null);
+      await this.db.clearRuntimePid(scope.userId, agent);
+      this.logger.info("cleared agent session", { bindingScope: scope.key, agent });
+    });
   }
 
   async shutdownAll(): Promise<void> {
-    const entries = [...this.runtimes.values()];
-    for (const runtime of entries) {
+    for (const [scopeKey, runtime] of [...this.runtimes.entries()]) {
       const sessionRef = await this.stopRuntime(runtime);
       if (sessionRef) {
-        await this.db.updateSessionRef(runtime.userId, runtime.agent, sessionRef);
+        await this.db.updateSessionRef(scopeKey, runtime.agent, sessionRef);
       }
       await this.db.clearRuntimePid(runtime.userId, runtime.agent);
-      this.runtimes.delete(runtime.userId);
+      this.runtimes.delete(scopeKey);
+    }
+  }
+
+  private async prepareSwitchHandoff(
+    scope: BindingScope,
+    fromAgent: AgentType,
+    binding: Awaited<ReturnType<Db["getBinding"]>>,
+    options: SwitchOptions
+  ): Promise<string | null> {
+    const settings = this.options.handoff;
+    if (!settings || settings.mode === "off") {
+      return null;
+    }
+    const running = this.runtimes.get(scope.key);
+    const canSummarize = Boolean(this.adapters[fromAgent]) && (running?.agent === fromAgent || Boolean(binding.sessionRefs[fromAgent]));
+    if (settings.mode === "summary" && canSummarize) {
+      try {
+        const output = await this.runExclusive(scope, options, async (sendOptions, trace) => {
+          trace.agent = fromAgent;
+          const runtime = await this.ensureRuntime(scope, fromAgent, binding);
+          const summary = await this.sendWithRetry(runtime, HANDOFF_SUMMARY_PROMPT, sendOptions);
+          if (summary.sessionRef) {
+            await this.db.updateSessionRef(scope.key, fromAgent, summary.sessionRef);
+          }
+          return summary;
+        });
+        if (output.text.trim()) {
+          return formatHandoffSummary(fromAgent, output.text, settings.maxChars);
+        }
+      } catch (err) {
+        this.logger.warn("handoff summary failed, using transcript digest", {
+          bindingScope: scope.key,
+          agent: fromAgent,
+          error: String(err)
+        });
+      }
+    }
+    return await this.buildDigest(scope, fromAgent, false);
+  }
+
+  private async buildDigest(scope: BindingScope, fromAgent: AgentType, skipLatestRequest: boolean): Promise<string | null> {
+    const settings = this.options.handoff;
+    if (!settings || !scope.chatId) {
+      return null;
+    }
+    const shared = isSharedScope(scope);
+    const messages = await this.db.listRecentMessages(
+      shared ? { chatId: scope.chatId } : { chatId: scope.chatId, userId: scope.userId },
+      settings.messages + (skipLatestRequest ? 1 : 0)
+    );
+    if (skipLatestRequest && messages.at(-1)?.direction === "in") {
+      messages.pop();
     }
+    return buildHandoffDigest(messages, { fromAgent, maxChars: settings.maxChars, shared });
   }
 
-  private async ensureRuntime(userId: string, agent: AgentType, binding: Awaited<ReturnType<Db["getBinding"]>>): Promise<RunningAgent> {
+  private async ensureRuntime(scope: BindingScope, agent: AgentType, binding: Awaited<ReturnType<Db["getBinding"]>>): Promise<RunningAgent> {
     this.requireAdapter(agent);
-    const existing = this.runtimes.get(userId);
-    if (existing && existing.agent === agent && existing.process.exitCode === null) {
+    const existing = this.runtimes.get(scope.key);
+    // In a shared chat scope the sender changes between prompts, so a runtime started for another role or worktree is restarted.
+    const context = await this.runtimeContext(scope);
+    if (
+      existing &&
+      existing.agent === agent &&
+      (existing.role ?? "owner") === context.role &&
+      (existing.cwd ?? null) === context.cwd &&
+      existing.process.exitCode === null
+    ) {
       return existing;
     }
 
+    let startBinding = binding;
     if (existing) {
       const stoppedRef = await this.stopRuntime(existing);
       if (stoppedRef) {
-        await this.db.updateSessionRef(userId, existing.agent, stoppedRef);
+        await this.db.updateSessionRef(scope.key, existing.agent, stoppedRef);
+        if (existing.agent === agent) {
+          startBinding = { ...binding, sessionRefs: { ...binding.sessionRefs, [agent]: stoppedRef } };
+        }
       }
-      this.runtimes.delete(userId);
+      this.runtimes.delete(scope.key);
     }
 
-    const runtime = await this.startForBinding(userId, agent, binding);
-    this.runtimes.set(userId, runtime);
+    const runtime = await this.startForBinding(scope, agent, startBinding, context);
+    this.runtimes.set(scope.key, runtime);
     return runtime;
   }
 
+  private async runtimeContext(scope: BindingScope): Promise<RuntimeContext> {
+    return {
+      role: resolveUserRole(await this.db.getUserById(scope.userId), this.options.defaultRole ?? "owner"),
+      cwd: await this.workdirFor(scope)
+    };
+  }
+
+  private async workdirFor(scope: BindingScope): Promise<string | null> {
+    return this.options.worktrees ? await this.options.worktrees.workdirFor(scope) : null;
+  }
+
   private async startForBinding(
-    userId: string,
+    scope: BindingScope,
     agent: AgentType,
-    binding: Awaited<ReturnType<Db["getBinding"]>>
+    binding: Awaited<ReturnType<Db["getBinding"]>>,
+    context: RuntimeContext
   ): Promise<RunningAgent> {
     const adapter = this.requireAdapter(agent);
-    const sessionRef = agent === "claude" ? binding.claudeSessionRef : binding.codexSessionRef;
+    const { userId } = scope;
+    const sessionRef = binding.sessionRefs[agent] ?? null;
+    const preference = await this.db.getModelPreference(scope.key, agent);
 
     try {
-      const runtime = await adapter.start({ userId, sessionRef, fresh: false });
+      const runtime = await adapter.start({ userId, sessionRef, fresh: false, ...preference, ...context });
       await this.db.setRuntimePid(userId, agent, runtime.process.pid ?? null);
       return runtime;
     } catch (resumeErr) {
@@ -159,7 +515,7 @@ export class AgentManager {
         agent,
         error: String(resumeErr)
       });
-      const runtime = await adapter.start({ userId, sessionRef: null, fresh: true });
+      const runtime = await adapter.start({ userId, sessionRef: null, fresh: true, ...preference, ...context });
       await this.db.setRuntimePid(userId, agent, runtime.process.pid ?? null);
       return runtime;
     }
@@ -180,6 +536,12 @@ export class AgentManager {
     return adapter;
   }
 
+  // Built-in agents fail over to each other; custom agents fall back to a built-in one.
+  private fallbackFor(agent: AgentType): AgentType | null {
+    const candidates = agent === "claude" ? ["codex"] : agent === "codex" ? ["claude"] : [this.options.defaultAgent, "claude", "codex"];
+    return candidates.find((candidate) => candidate !== agent && this.adapters[candidate]) ?? null;
+  }
+
   private ensureAgentEnabled(agent: AgentType): AgentType {
     if (this.adapters[agent]) {
       return agent;
@@ -187,11 +549,11 @@ export class AgentManager {
     return this.options.defaultAgent;
   }
 
-  private async sendWithRetry(runtime: RunningAgent, input: string): Promise<AgentOutput> {
+  private async sendWithRetry(runtime: RunningAgent, input: string, sendOptions: AgentSendOptions): Promise<AgentOutput> {
     const adapter = this.requireAdapter(runtime.agent);
     return await retryAsync(
       async () =>
-        await adapter.send(runtime, input, this.options.agentIdleMs, this.options.agentResponseSec * 1000),
+        await adapter.send(runtime, input, this.options.agentIdleMs, this.options.agentResponseSec * 1000, sendOptions),
       {
         attempts: 2,
         baseDelayMs: 1_500,
@@ -16,14 +16,20 @@ import {
   providerSelectionFromEnabled,
   getDefaultAgent,
   isAgentEnabled,
+  isCustomAgent,
   attachmentLimitBytes
 } from "./config.js";
 import type { CognalConfig, ProviderSelection, TelegramGroupMode } from "./config.js";
 import { Db } from "./core/db.js";
-import { commandExists, runCommand, runInteractiveCommand, resolveCommandPath } from "./core/utils.js";
+import { commandExists, parseDurationMs, runCommand, runInteractiveCommand, resolveCommandPath } from "./core/utils.js";
 import { Logger } from "./core/logger.js";
 import { ensureProjectInstructionFiles } from "./core/projectInstructions.js";
-import type { AllowedChatRecord, HealthCheckResult } from "./types.js";
+import { privateChatScope } from "./core/scope.js";
+import { buildInviteLink, generateInviteCode, hashInviteCode } from "./core/invites.js";
+import { effectiveLimits } from "./core/limits.js";
+import { isUserRole, USER_ROLES } from "./core/roles.js";
+import { formatCost, parseSince } from "./core/usage.js";
+import type { AccessRequestStatus, AllowedChatRecord, HealthCheckResult, SessionScope, UsageGrouping, UserLimits } from "./types.js";
 import { TelegramBotAdapter } from "./adapters/telegramBotAdapter.js";
 
 const logger = new Logger("cli");
@@ -499,6 +505,11 @@ async function doctorChecks(projectRoot: string, cfg: CognalConfig): Promise<Hea
   if (cfg.agents.enabled.codex) {
     binaries.push(cfg.agents.codex.command);
   }
+  for (const custom of Object.values(cfg.agents.custom)) {
+    if (custom.enabled) {
+      binaries.push(custom.command);
+    }
+  }
 
   for (const bin of binaries) {
     const ok = await commandExists(bin);
@@ -532,9 +543,9 @@ async function doctorChecks(projectRoot: string, cfg: CognalConfig): Promise<Hea
 
   if (botToken) {
     try {
-      const adapter = new TelegramBotAdapter(botToken, paths.telegramOffsetPath, cfg.telegram.botUsername);
+      const adapter = new TelegramBotAdapter(botToken, paths.telegramOffsetPath, cfg.telegram.botUsername, cfg.telegram.apiBaseUrl);
       const me = await adapter.getIdentity();
-      checks.push({ name: "telegram:getMe", ok: true, details: `@${me.username}` });
+      checks.push({ name: "telegram:getMe", ok: true, details: `@${me.username} via ${cfg.telegram.apiBaseUrl}` });
     } catch (err) {
       checks.push({ name: "telegram:getMe", ok: false, details: String(err) });
     }
@@ -772,7 +783,7 @@ program
     cfg.agents.enabled = enabledFromProviderSelection(selectedProviders);
     const finalToken = daemonEnvUpdates[cfg.telegram.botTokenEnv];
 
-    const telegram = new TelegramBotAdapter(finalToken, paths.telegramOffsetPath, cfg.telegram.botUsername);
+    const telegram = new TelegramBotAdapter(finalToken, paths.telegramOffsetPath, cfg.telegram.botUsername, cfg.telegram.apiBaseUrl);
     const identity = await telegram.getIdentity();
     cfg.telegram.botUsername = identity.username;
 
@@ -867,9 +878,16 @@ program
   .option("--json", "Emit machine-readable JSON", false)
   .action(async (opts, cmd) => {
     const projectRoot = resolveProjectRootFromCommand(cmd);
-    const { cfg } = await loadProjectConfig(projectRoot);
+    const { db, cfg } = await getConfigAndDb(projectRoot);
+    let inbox: Awaited<ReturnType<Db["countInboxByStatus"]>>;
+    try {
+      inbox = await db.countInboxByStatus();
+    } finally {
+      await db.close();
+    }
     const result = await runCommand("bash", ["-lc", `systemctl is-active ${cfg.runtime.serviceName}`], { timeoutMs: 3_000 });
     const active = result.stdout.trim() || "unknown";
+    const queueDepth = inbox.pending + inbox.processing;
     const asJson = opts.json as boolean;
     if (asJson) {
       process.stdout.write(
@@ -881,9 +899,16 @@ program
             telegram: {
               botUsername: cfg.telegram.botUsername ?? null,
               allowGroups: cfg.telegram.allowGroups,
-              groupMode: cfg.telegram.groupMode
+              groupMode: cfg.telegram.groupMode,
+              transport: cfg.telegram.transport
             },
-            providers: cfg.agents.enabled
+            providers: cfg.agents.enabled,
+            queue: {
+              depth: queueDepth,
+              pending: inbox.pending,
+              processing: inbox.processing,
+              failed: inbox.failed
+            }
           },
           null,
           2
@@ -892,6 +917,23 @@ program
       return;
     }
     process.stdout.write(active + "\n");
+    process.stdout.write(`queue: ${queueDepth} (${inbox.pending} pending, ${inbox.processing} processing, ${inbox.failed} failed)\n`);
+  });
+
+program
+  .command("usage")
+  .description("Report agent runs, tokens and cost")
+  .option("--since <when>", "Only runs since a date or a relative window like 24h, 7d, 2w")
+  .option("--by <user|chat|agent>", "Group totals by user, chat or agent", "user")
+  .option("--json", "Emit machine-readable JSON", false)
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    const by = opts.by as UsageGrouping;
+    if (by !== "user" && by !== "chat" && by !== "agent") {
+      throw new Error(`Invalid --by value: ${opts.by}`);
+    }
+    const since = opts.since ? parseSince(opts.since as string) : undefined;
+    await usageAction(projectRoot, by, since, opts.json as boolean);
   });
 
 program
@@ -916,9 +958,10 @@ async function userAddAction(telegramUserIdRaw: string, projectRoot: string, use
       status: "active",
       defaultActiveAgent: getDefaultAgent(cfg)
     });
-    const binding = await db.getBinding(user.id, getDefaultAgent(cfg));
+    const scope = privateChatScope(user.id, user.telegramUserId);
+    const binding = await db.getBinding(scope, getDefaultAgent(cfg));
     if (!isAgentEnabled(cfg, binding.activeAgent)) {
-      await db.setActiveAgent(user.id, getDefaultAgent(cfg));
+      await db.setActiveAgent(scope.key, getDefaultAgent(cfg));
     }
     process.stdout.write(`Allowed Telegram user ${telegramUserId}\n`);
   } finally {
@@ -927,7 +970,7 @@ async function userAddAction(telegramUserIdRaw: string, projectRoot: string, use
 }
 
 async function userListAction(projectRoot: string): Promise<void> {
-  const { db } = await getConfigAndDb(projectRoot);
+  const { cfg, db } = await getConfigAndDb(projectRoot);
   try {
     const users = await db.listUsers();
     const rows = users.map((u) => ({
@@ -936,6 +979,8 @@ async function userListAction(projectRoot: string): Promise<void> {
       telegramUsername: u.telegramUsername ?? "-",
       displayName: u.displayName ?? "-",
       status: u.status,
+      admin: u.isAdmin,
+      role: u.role ?? `${cfg.agents.defaultRole} (default)`,
       lastSeenAt: u.lastSeenAt ?? "-",
       createdAt: u.createdAt
     }));
@@ -959,10 +1004,93 @@ async function userRevokeAction(telegramUserIdRaw: string, projectRoot: string):
   }
 }
 
-async function userRequestsAction(projectRoot: string): Promise<void> {
+async function userRejectAction(telegramUserIdRaw: string, projectRoot: string): Promise<void> {
+  const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    if (!(await db.rejectAccessRequest(telegramUserId))) {
+      throw new Error(`No access request from Telegram user ${telegramUserId}`);
+    }
+    process.stdout.write(`Rejected Telegram user ${telegramUserId}; further messages are ignored until approved\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+async function userBlockAction(telegramUserIdRaw: string, projectRoot: string, blocked: boolean): Promise<void> {
+  const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    if (blocked) {
+      await db.blockTelegramUser(telegramUserId);
+      process.stdout.write(`Blocked Telegram user ${telegramUserId}\n`);
+      return;
+    }
+    if (!(await db.unblockTelegramUser(telegramUserId))) {
+      throw new Error(`Telegram user ${telegramUserId} is not blocked`);
+    }
+    process.stdout.write(`Unblocked Telegram user ${telegramUserId}; approve them to restore access\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+async function userBlockedAction(projectRoot: string): Promise<void> {
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    console.table(await db.listBlockedUsers());
+  } finally {
+    await db.close();
+  }
+}
+
+async function userAdminAction(telegramUserIdRaw: string, projectRoot: string, isAdmin: boolean): Promise<void> {
+  const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
   const { db } = await getConfigAndDb(projectRoot);
   try {
-    const requests = await db.listAccessRequests("pending");
+    const user = await db.getUserByTelegramUserId(telegramUserId);
+    if (!user) {
+      throw new Error(`Unknown Telegram user ID: ${telegramUserId}`);
+    }
+    if (isAdmin && user.status !== "active") {
+      throw new Error(`Telegram user ${telegramUserId} is ${user.status}; approve them first`);
+    }
+    await db.setAdminByTelegramUserId(telegramUserId, isAdmin);
+    process.stdout.write(`${isAdmin ? "Promoted" : "Demoted"} Telegram user ${telegramUserId}${isAdmin ? " to admin" : ""}\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+async function userRoleAction(telegramUserIdRaw: string, roleRaw: string, projectRoot: string): Promise<void> {
+  const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
+  const role = roleRaw === "default" ? null : roleRaw;
+  if (role !== null && !isUserRole(role)) {
+    throw new Error(`Invalid --role: ${roleRaw} (use ${USER_ROLES.join(", ")} or default)`);
+  }
+  const { cfg, db } = await getConfigAndDb(projectRoot);
+  try {
+    const resolved = role ?? cfg.agents.defaultRole;
+    const custom = resolved === "owner" ? [] : (await db.listActiveAgentsByTelegramUserId(telegramUserId)).filter(isCustomAgent);
+    if (custom.length > 0) {
+      throw new Error(
+        `Telegram user ${telegramUserId} has the owner-only agent '${custom[0]}' active; they must switch to /claude or /codex before getting the ${resolved} role`
+      );
+    }
+    if (!(await db.setRoleByTelegramUserId(telegramUserId, role))) {
+      throw new Error(`Unknown Telegram user ID: ${telegramUserId}`);
+    }
+    const described = role ?? `the default role (${cfg.agents.defaultRole})`;
+    process.stdout.write(`Set Telegram user ${telegramUserId} to ${described}; it applies from their next prompt\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+async function userRequestsAction(projectRoot: string, status: AccessRequestStatus | "all" = "pending"): Promise<void> {
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    const requests = await db.listAccessRequests(status);
     const rows = requests.map((r) => ({
       telegramUserId: r.telegramUserId,
       chatId: r.chatId,
@@ -982,6 +1110,9 @@ async function userApproveAction(telegramUserIdRaw: string, projectRoot: string)
   const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
   const { db, cfg } = await getConfigAndDb(projectRoot);
   try {
+    if (await db.isTelegramUserBlocked(telegramUserId)) {
+      throw new Error(`Telegram user ${telegramUserId} is blocked; run cognal user unblock first`);
+    }
     await db.approveAccessRequest(telegramUserId, getDefaultAgent(cfg));
     process.stdout.write(`Approved Telegram user ${telegramUserId}\n`);
   } finally {
@@ -989,12 +1120,144 @@ async function userApproveAction(telegramUserIdRaw: string, projectRoot: string)
   }
 }
 
-async function chatAllowAction(chatIdRaw: string, projectRoot: string, type: AllowedChatRecord["chatType"], title?: string): Promise<void> {
+const LIMIT_OPTIONS: Array<{ key: keyof UserLimits; flag: string; integer: boolean }> = [
+  { key: "runsPerHour", flag: "--runs-per-hour", integer: true },
+  { key: "runsPerDay", flag: "--runs-per-day", integer: true },
+  { key: "dailyUsd", flag: "--daily-usd", integer: false },
+  { key: "monthlyUsd", flag: "--monthly-usd", integer: false }
+];
+
+function parseLimitValue(raw: string, flag: string, integer: boolean): number {
+  const value = Number(raw);
+  if (raw.trim() === "" || !Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+    throw new Error(`Invalid ${flag} value: ${raw} (use ${integer ? "a whole number" : "an amount in USD"}, 0 for unlimited, or 'default')`);
+  }
+  return value;
+}
+
+async function userLimitsAction(
+  telegramUserIdRaw: string,
+  projectRoot: string,
+  values: Partial<Record<keyof UserLimits, string>>,
+  reset: boolean
+): Promise<void> {
+  const telegramUserId = validateTelegramUserId(telegramUserIdRaw);
+  const { db, cfg } = await getConfigAndDb(projectRoot);
+  try {
+    const user = await db.getUserByTelegramUserId(telegramUserId);
+    if (!user) {
+      throw new Error(`Unknown Telegram user ID: ${telegramUserId}`);
+    }
+    const overrides = reset ? {} : await db.getUserLimits(user.id);
+    const changing = LIMIT_OPTIONS.filter((option) => values[option.key] !== undefined);
+    for (const option of changing) {
+      const raw = values[option.key] as string;
+      if (raw === "default") {
+        delete overrides[option.key];
+      } else {
+        overrides[option.key] = parseLimitValue(raw, option.flag, option.integer);
+      }
+    }
+    if (reset || changing.length > 0) {
+      await db.setUserLimits(user.id, overrides);
+    }
+    const limits = effectiveLimits(cfg, overrides);
+    console.table(
+      LIMIT_OPTIONS.map((option) => ({
+        limit: option.flag.slice(2),
+        value: limits[option.key] === 0 ? "unlimited" : option.integer ? limits[option.key] : formatCost(limits[option.key]),
+        source: overrides[option.key] === undefined ? "config" : "user"
+      }))
+    );
+  } finally {
+    await db.close();
+  }
+}
+
+async function inviteCreateAction(
+  projectRoot: string,
+  options: { uses: string; expires: string; agent?: string }
+): Promise<void> {
+  const maxUses = Number(options.uses);
+  if (!Number.isInteger(maxUses) || maxUses <= 0) {
+    throw new Error(`Invalid --uses value: ${options.uses}`);
+  }
+  const expiresMs = options.expires === "never" ? null : parseDurationMs(options.expires);
+  if (options.expires !== "never" && expiresMs === null) {
+    throw new Error(`Invalid --expires value: ${options.expires} (use e.g. 24h, 7d, 2w or never)`);
+  }
+  const { db, cfg } = await getConfigAndDb(projectRoot);
+  try {
+    const agent = options.agent?.toLowerCase() ?? null;
+    if (agent && !isAgentEnabled(cfg, agent)) {
+      throw new Error(`Agent '${agent}' is not enabled on this host`);
+    }
+    if (agent && isCustomAgent(agent) && cfg.agents.defaultRole !== "owner") {
+      throw new Error(`Agent '${agent}' is only available to owners, and invited users get the ${cfg.agents.defaultRole} role`);
+    }
+    const code = generateInviteCode();
+    const invite = await db.createInvite(hashInviteCode(code), {
+      agent,
+      maxUses,
+      expiresAt: expiresMs === null ? null : new Date(Date.now() + expiresMs).toISOString()
+    });
+    process.stdout.write(`${buildInviteLink(cfg.telegram.botUsername, code)}\n`);
+    process.stdout.write(
+      `Invite ${invite.id}: ${maxUses} ${maxUses === 1 ? "use" : "uses"}, expires ${invite.expiresAt ?? "never"}. The code is not stored and cannot be shown again.\n`
+    );
+  } finally {
+    await db.close();
+  }
+}
+
+async function inviteListAction(projectRoot: string): Promise<void> {
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    const now = new Date().toISOString();
+    console.table(
+      (await db.listInvites()).map((invite) => ({
+        id: invite.id,
+        agent: invite.agent ?? "default",
+        uses: `${invite.uses}/${invite.maxUses}`,
+        expiresAt: invite.expiresAt ?? "never",
+        state: invite.revokedAt
+          ? "revoked"
+          : invite.uses >= invite.maxUses
+            ? "used up"
+            : invite.expiresAt && invite.expiresAt <= now
+              ? "expired"
+              : "active"
+      }))
+    );
+  } finally {
+    await db.close();
+  }
+}
+
+async function inviteRevokeAction(id: string, projectRoot: string): Promise<void> {
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    if (!(await db.revokeInvite(id))) {
+      throw new Error(`Unknown or already revoked invite: ${id}`);
+    }
+    process.stdout.write(`Revoked invite ${id}\n`);
+  } finally {
+    await db.close();
+  }
+}
+
+async function chatAllowAction(
+  chatIdRaw: string,
+  projectRoot: string,
+  type: AllowedChatRecord["chatType"],
+  title?: string,
+  sessionScope?: SessionScope
+): Promise<void> {
   const chatId = validateChatId(chatIdRaw);
   const { db } = await getConfigAndDb(projectRoot);
   try {
-    await db.allowChat(chatId, type, title ?? null);
-    process.stdout.write(`Allowed chat ${chatId} (${type})\n`);
+    await db.allowChat(chatId, type, title ?? null, sessionScope ?? null);
+    process.stdout.write(`Allowed chat ${chatId} (${type}, ${await db.getChatSessionScope(chatId)} sessions)\n`);
   } finally {
     await db.close();
   }
@@ -1014,6 +1277,34 @@ async function chatRevokeAction(chatIdRaw: string, projectRoot: string): Promise
   }
 }
 
+async function usageAction(projectRoot: string, by: UsageGrouping, since: string | undefined, asJson: boolean): Promise<void> {
+  const { db } = await getConfigAndDb(projectRoot);
+  try {
+    const totals = await db.summarizeAgentRuns({ by, since });
+    if (asJson) {
+      process.stdout.write(JSON.stringify({ by, since: since ?? null, totals }, null, 2) + "\n");
+      return;
+    }
+    if (totals.length === 0) {
+      process.stdout.write("No agent runs recorded.\n");
+      return;
+    }
+    console.table(
+      totals.map((row) => ({
+        [by]: row.label,
+        runs: row.runs,
+        failed: row.failedRuns,
+        inputTokens: row.inputTokens,
+        outputTokens: row.outputTokens,
+        cost: formatCost(row.costUsd),
+        avgSeconds: Math.round(row.durationMs / row.runs / 100) / 10
+      }))
+    );
+  } finally {
+    await db.close();
+  }
+}
+
 async function chatListAction(projectRoot: string): Promise<void> {
   const { db } = await getConfigAndDb(projectRoot);
   try {
@@ -1023,6 +1314,7 @@ async function chatListAction(projectRoot: string): Promise<void> {
         chatId: chat.chatId,
         chatType: chat.chatType,
         title: chat.title ?? "-",
+        sessionScope: chat.sessionScope,
         createdAt: chat.createdAt
       }))
     );
@@ -1055,9 +1347,47 @@ userCommand
     await userRevokeAction(opts.telegramUserId, projectRoot);
   });
 
-userCommand.command("requests").action(async (_, cmd) => {
+userCommand
+  .command("requests")
+  .option("--status <status>", "pending, approved, rejected or all", "pending")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    const status = opts.status as AccessRequestStatus | "all";
+    if (status !== "pending" && status !== "approved" && status !== "rejected" && status !== "all") {
+      throw new Error(`Invalid --status value: ${opts.status}`);
+    }
+    await userRequestsAction(projectRoot, status);
+  });
+
+userCommand
+  .command("reject")
+  .description("Reject a pending access request; the user is ignored from then on")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userRejectAction(opts.telegramUserId, projectRoot);
+  });
+
+userCommand
+  .command("block")
+  .description("Revoke a user and ignore everything they send, including invite links")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userBlockAction(opts.telegramUserId, projectRoot, true);
+  });
+
+userCommand
+  .command("unblock")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userBlockAction(opts.telegramUserId, projectRoot, false);
+  });
+
+userCommand.command("blocked").action(async (_, cmd) => {
   const projectRoot = resolveProjectRootFromCommand(cmd);
-  await userRequestsAction(projectRoot);
+  await userBlockedAction(projectRoot);
 });
 
 userCommand
@@ -1068,6 +1398,65 @@ userCommand
     await userApproveAction(opts.telegramUserId, projectRoot);
   });
 
+userCommand
+  .command("promote")
+  .description("Make a user an admin who can approve users and allow chats from Telegram")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userAdminAction(opts.telegramUserId, projectRoot, true);
+  });
+
+userCommand
+  .command("demote")
+  .description("Remove a user's admin role")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userAdminAction(opts.telegramUserId, projectRoot, false);
+  });
+
+const userRoleCommand = userCommand.command("role").description("Per-user agent sandbox and permission level");
+
+userRoleCommand
+  .command("set")
+  .description("viewer is read-only, developer may edit the workspace, owner runs unrestricted; 'default' uses agents.defaultRole")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .requiredOption("--role <role>", `${USER_ROLES.join(", ")} or default`)
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userRoleAction(opts.telegramUserId, opts.role, projectRoot);
+  });
+
+const userLimitsCommand = userCommand.command("limits").description("Per-user run and spend limits");
+
+userLimitsCommand
+  .command("show")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userLimitsAction(opts.telegramUserId, projectRoot, {}, false);
+  });
+
+userLimitsCommand
+  .command("set")
+  .description("Override [limits] for one user; 0 means unlimited, 'default' falls back to the config")
+  .requiredOption("--telegram-user-id <id>", "Telegram user ID")
+  .option("--runs-per-hour <n>", "Runs in any rolling hour")
+  .option("--runs-per-day <n>", "Runs in any rolling 24 hours")
+  .option("--daily-usd <usd>", "Spend per UTC day, where the agent reports cost")
+  .option("--monthly-usd <usd>", "Spend per UTC month, where the agent reports cost")
+  .option("--reset", "Drop all overrides for this user first", false)
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await userLimitsAction(
+      opts.telegramUserId,
+      projectRoot,
+      { runsPerHour: opts.runsPerHour, runsPerDay: opts.runsPerDay, dailyUsd: opts.dailyUsd, monthlyUsd: opts.monthlyUsd },
+      opts.reset as boolean
+    );
+  });
+
 // Legacy aliases
 program
   .command("user:add")
@@ -1104,6 +1493,31 @@ program
     await userApproveAction(opts.telegramUserId, projectRoot);
   });
 
+const inviteCommand = program.command("invite").description("Invite links that approve new users on first use");
+
+inviteCommand
+  .command("create")
+  .option("--uses <n>", "How many users can join with this link", "1")
+  .option("--expires <window>", "Lifetime such as 24h, 7d or 2w, or never", "7d")
+  .option("--agent <name>", "Active agent for users who join with this link")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await inviteCreateAction(projectRoot, { uses: opts.uses, expires: opts.expires, agent: opts.agent });
+  });
+
+inviteCommand.command("list").action(async (_, cmd) => {
+  const projectRoot = resolveProjectRootFromCommand(cmd);
+  await inviteListAction(projectRoot);
+});
+
+inviteCommand
+  .command("revoke")
+  .requiredOption("--id <id>", "Invite ID from cognal invite list")
+  .action(async (opts, cmd) => {
+    const projectRoot = resolveProjectRootFromCommand(cmd);
+    await inviteRevokeAction(opts.id, projectRoot);
+  });
+
 const chatCommand = program.command("chat").description("Telegram chat allow-list management");
 
 chatCommand
@@ -1111,13 +1525,18 @@ chatCommand
   .requiredOption("--chat-id <id>", "Telegram chat ID")
   .option("--type <private|group|supergroup|channel>", "Chat type", "supergroup")
   .option("--title <title>", "Optional chat title")
+  .option("--session-scope <user|chat>", "One agent session per member (user, default) or one shared session for the chat (chat)")
   .action(async (opts, cmd) => {
     const projectRoot = resolveProjectRootFromCommand(cmd);
     const type = opts.type as AllowedChatRecord["chatType"];
     if (!["private", "group", "supergroup", "channel"].includes(type)) {
       throw new Error(`Invalid chat type: ${opts.type}`);
     }
-    await chatAllowAction(opts.chatId, projectRoot, type, opts.title);
+    const sessionScope = opts.sessionScope as SessionScope | undefined;
+    if (sessionScope !== undefined && sessionScope !== "user" && sessionScope !== "chat") {
+      throw new Error(`Invalid session scope: ${opts.sessionScope}`);
+    }
+    await chatAllowAction(opts.chatId, projectRoot, type, opts.title, sessionScope);
   });
 
 chatCommand
@@ -2,16 +2,43 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import { createHash } from "node:crypto";
 import TOML from "@iarna/toml";
-import type { AgentType } from "./types.js";
+import { RESERVED_COMMANDS } from "./core/router.js";
+import { isUserRole } from "./core/roles.js";
+import type { AgentType, UserLimits, UserRole } from "./types.js";
 
 export type ProviderSelection = "claude" | "codex" | "both";
 export type TelegramGroupMode = "all" | "mentions_only";
+export type ApprovalMode = "bypass" | "interactive";
+export type TelegramTransport = "polling" | "webhook";
+export type HandoffMode = "off" | "digest" | "summary";
+export type IsolationMode = "off" | "user" | "session";
+
+export const CLAUDE_EFFORTS = ["low", "medium", "high", "max"];
 
 export interface EnabledAgents {
   claude: boolean;
   codex: boolean;
 }
 
+export interface CustomAgentConfig {
+  enabled: boolean;
+  command: string;
+  // "{prompt}" is replaced with the prompt; without it the prompt is written to stdin.
+  args: string[];
+  // Prepended to args when a session is resumed; "{session}" is replaced with the stored session ID.
+  resumeArgs: string[];
+  // Regex matched against stdout and stderr; the first capture group (or the whole match) is the session ID.
+  sessionIdPattern: string;
+}
+
+export interface BuiltinAgentConfig {
+  command: string;
+  args: string[];
+  // Choices offered by /model. Until one is picked the CLI's own default applies.
+  models: string[];
+  reasoningEfforts: string[];
+}
+
 export interface CognalConfig {
   projectId: string;
   runtime: {
@@ -22,24 +49,34 @@ export interface CognalConfig {
   telegram: {
     botTokenEnv: string;
     botUsername?: string;
+    apiBaseUrl: string;
     receiveTimeoutSec: number;
     allowGroups: boolean;
     groupMode: TelegramGroupMode;
+    transport: TelegramTransport;
+    webhookUrl: string;
+    webhookListenHost: string;
+    webhookListenPort: number;
   };
   agents: {
     enabled: EnabledAgents;
-    claude: {
-      command: string;
-      args: string[];
-    };
-    codex: {
-      command: string;
-      args: string[];
-    };
+    approvalMode: ApprovalMode;
+    // Role for users without one set via `cognal user role set`.
+    defaultRole: UserRole;
+    claude: BuiltinAgentConfig;
+    codex: BuiltinAgentConfig;
+    custom: Record<string, CustomAgentConfig>;
   };
   routing: {
     failoverEnabled: boolean;
     responseChunkSize: number;
+    maxReplyChunks: number;
+    maxConcurrentRuns: number;
+    progressUpdates: boolean;
+    progressEditIntervalMs: number;
+    handoff: HandoffMode;
+    handoffMessages: number;
+    handoffMaxChars: number;
   };
   stt: {
     provider: "openai";
@@ -56,6 +93,14 @@ export interface CognalConfig {
     agentResponseSec: number;
     failoverRetrySec: number;
     agentIdleMs: number;
+    approvalSec: number;
+  };
+  limits: UserLimits;
+  git: {
+    // Snapshot the work tree before and after every run so /diff and /undo can use it.
+    checkpoints: boolean;
+    // Give each user or session its own worktree and branch instead of the shared project root.
+    isolation: IsolationMode;
   };
 }
 
@@ -65,6 +110,7 @@ export interface RuntimePaths {
   dbPath: string;
   configPath: string;
   tempDir: string;
+  outboxDir: string;
   logsDir: string;
   telegramOffsetPath: string;
   pidPath: string;
@@ -78,6 +124,7 @@ export function getRuntimePaths(projectRoot: string): RuntimePaths {
     dbPath: path.join(cognalDir, "cognal.db"),
     configPath: path.join(cognalDir, "config.toml"),
     tempDir: path.join(cognalDir, "tmp"),
+    outboxDir: path.join(cognalDir, "outbox"),
     logsDir: path.join(cognalDir, "logs"),
     telegramOffsetPath: path.join(cognalDir, "telegram.offset"),
     pidPath: path.join(cognalDir, "cognald.pid")
@@ -106,27 +153,46 @@ export function defaultConfig(projectRoot: string): CognalConfig {
     },
     telegram: {
       botTokenEnv: "TELEGRAM_BOT_TOKEN",
+      apiBaseUrl: "https://api.telegram.org",
       receiveTimeoutSec: 30,
       allowGroups: true,
-      groupMode: "all"
+      groupMode: "all",
+      transport: "polling",
+      webhookUrl: "",
+      webhookListenHost: "127.0.0.1",
+      webhookListenPort: 8443
     },
     agents: {
       enabled: {
         claude: true,
         codex: true
       },
+      approvalMode: "bypass",
+      defaultRole: "owner",
       claude: {
         command: "claude",
-        args: []
+        args: [],
+        models: ["sonnet", "opus", "haiku"],
+        reasoningEfforts: ["low", "medium", "high"]
       },
       codex: {
         command: "codex",
-        args: []
-      }
+        args: [],
+        models: ["gpt-5-codex", "gpt-5"],
+        reasoningEfforts: ["minimal", "low", "medium", "high"]
+      },
+      custom: {}
     },
     routing: {
       failoverEnabled: true,
-      responseChunkSize: 3500
+      responseChunkSize: 3500,
+      maxReplyChunks: 3,
+      maxConcurrentRuns: 4,
+      progressUpdates: false,
+      progressEditIntervalMs: 3000,
+      handoff: "off",
+      handoffMessages: 20,
+      handoffMaxChars: 6000
     },
     stt: {
       provider: "openai",
@@ -142,7 +208,18 @@ export function defaultConfig(projectRoot: string): CognalConfig {
     timeouts: {
       agentResponseSec: 240,
       failoverRetrySec: 30,
-      agentIdleMs: 1500
+      agentIdleMs: 1500,
+      approvalSec: 120
+    },
+    limits: {
+      runsPerHour: 0,
+      runsPerDay: 0,
+      dailyUsd: 0,
+      monthlyUsd: 0
+    },
+    git: {
+      checkpoints: false,
+      isolation: "off"
     }
   };
 }
@@ -150,6 +227,7 @@ export function defaultConfig(projectRoot: string): CognalConfig {
 export async function ensureRuntimeDirs(paths: RuntimePaths): Promise<void> {
   await fs.mkdir(paths.cognalDir, { recursive: true });
   await fs.mkdir(paths.tempDir, { recursive: true });
+  await fs.mkdir(paths.outboxDir, { recursive: true });
   await fs.mkdir(paths.logsDir, { recursive: true });
 }
 
@@ -194,15 +272,24 @@ export function normalizeConfig(cfg: CognalConfig, projectRoot = cfg.projectId):
     const legacyReceive = normalized.signal?.receiveTimeoutSec;
     normalized.telegram = {
       botTokenEnv: "TELEGRAM_BOT_TOKEN",
+      apiBaseUrl: defaults.telegram.apiBaseUrl,
       receiveTimeoutSec:
         typeof legacyReceive === "number" && legacyReceive > 0 ? legacyReceive : defaults.telegram.receiveTimeoutSec,
       allowGroups: true,
-      groupMode: defaults.telegram.groupMode
+      groupMode: defaults.telegram.groupMode,
+      transport: defaults.telegram.transport,
+      webhookUrl: defaults.telegram.webhookUrl,
+      webhookListenHost: defaults.telegram.webhookListenHost,
+      webhookListenPort: defaults.telegram.webhookListenPort
     };
   }
   if (!normalized.telegram.botTokenEnv) {
     normalized.telegram.botTokenEnv = defaults.telegram.botTokenEnv;
   }
+  if (typeof normalized.telegram.apiBaseUrl !== "string" || !/^https?:\/\/[^/]/.test(normalized.telegram.apiBaseUrl)) {
+    normalized.telegram.apiBaseUrl = defaults.telegram.apiBaseUrl;
+  }
+  normalized.telegram.apiBaseUrl = normalized.telegram.apiBaseUrl.replace(/\/+$/, "");
   if (!normalized.telegram.receiveTimeoutSec || normalized.telegram.receiveTimeoutSec <= 0) {
     normalized.telegram.receiveTimeoutSec = defaults.telegram.receiveTimeoutSec;
   }
@@ -212,6 +299,22 @@ export function normalizeConfig(cfg: CognalConfig, projectRoot = cfg.projectId):
   if (normalized.telegram.groupMode !== "all" && normalized.telegram.groupMode !== "mentions_only") {
     normalized.telegram.groupMode = normalized.telegram.allowGroups ? defaults.telegram.groupMode : "mentions_only";
   }
+  if (normalized.telegram.transport !== "polling" && normalized.telegram.transport !== "webhook") {
+    normalized.telegram.transport = defaults.telegram.transport;
+  }
+  if (typeof normalized.telegram.webhookUrl !== "string") {
+    normalized.telegram.webhookUrl = defaults.telegram.webhookUrl;
+  }
+  if (!normalized.telegram.webhookListenHost) {
+    normalized.telegram.webhookListenHost = defaults.telegram.webhookListenHost;
+  }
+  if (
+    !Number.isInteger(normalized.telegram.webhookListenPort) ||
+    normalized.telegram.webhookListenPort <= 0 ||
+    normalized.telegram.webhookListenPort > 65535
+  ) {
+    normalized.telegram.webhookListenPort = defaults.telegram.webhookListenPort;
+  }
 
   if (!normalized.agents) {
     normalized.agents = defaults.agents;
@@ -222,12 +325,29 @@ export function normalizeConfig(cfg: CognalConfig, projectRoot = cfg.projectId):
   if (!normalized.agents.enabled.claude && !normalized.agents.enabled.codex) {
     normalized.agents.enabled.codex = true;
   }
+  if (normalized.agents.approvalMode !== "bypass" && normalized.agents.approvalMode !== "interactive") {
+    normalized.agents.approvalMode = defaults.agents.approvalMode;
+  }
+  if (!isUserRole(normalized.agents.defaultRole)) {
+    normalized.agents.defaultRole = defaults.agents.defaultRole;
+  }
   if (!normalized.agents.claude) {
     normalized.agents.claude = { ...defaults.agents.claude };
   }
   if (!normalized.agents.codex) {
     normalized.agents.codex = { ...defaults.agents.codex };
   }
+  for (const agent of ["claude", "codex"] as const) {
+    const provider = normalized.agents[agent];
+    provider.args = stringList(provider.args, defaults.agents[agent].args);
+    provider.models = stringList(provider.models, defaults.agents[agent].models).map((model) => model.trim()).filter(Boolean);
+    provider.reasoningEfforts = stringList(provider.reasoningEfforts, defaults.agents[agent].reasoningEfforts);
+  }
+  // The Agent SDK only accepts these effort levels for Claude.
+  normalized.agents.claude.reasoningEfforts = normalized.agents.claude.reasoningEfforts.filter((effort) =>
+    CLAUDE_EFFORTS.includes(effort)
+  );
+  normalized.agents.custom = normalizeCustomAgents(normalized.agents.custom);
 
   if (!normalized.routing) {
     normalized.routing = defaults.routing;
@@ -235,6 +355,27 @@ export function normalizeConfig(cfg: CognalConfig, projectRoot = cfg.projectId):
   if (!normalized.routing.responseChunkSize || normalized.routing.responseChunkSize <= 0) {
     normalized.routing.responseChunkSize = defaults.routing.responseChunkSize;
   }
+  if (!Number.isInteger(normalized.routing.maxReplyChunks) || normalized.routing.maxReplyChunks < 0) {
+    normalized.routing.maxReplyChunks = defaults.routing.maxReplyChunks;
+  }
+  if (!normalized.routing.maxConcurrentRuns || normalized.routing.maxConcurrentRuns <= 0) {
+    normalized.routing.maxConcurrentRuns = defaults.routing.maxConcurrentRuns;
+  }
+  if (typeof normalized.routing.progressUpdates !== "boolean") {
+    normalized.routing.progressUpdates = defaults.routing.progressUpdates;
+  }
+  if (!normalized.routing.progressEditIntervalMs || normalized.routing.progressEditIntervalMs < 1000) {
+    normalized.routing.progressEditIntervalMs = defaults.routing.progressEditIntervalMs;
+  }
+  if (normalized.routing.handoff !== "off" && normalized.routing.handoff !== "digest" && normalized.routing.handoff !== "summary") {
+    normalized.routing.handoff = defaults.routing.handoff;
+  }
+  if (!Number.isInteger(normalized.routing.handoffMessages) || normalized.routing.handoffMessages <= 0) {
+    normalized.routing.handoffMessages = defaults.routing.handoffMessages;
+  }
+  if (!Number.isInteger(normalized.routing.handoffMaxChars) || normalized.routing.handoffMaxChars < 500) {
+    normalized.routing.handoffMaxChars = defaults.routing.handoffMaxChars;
+  }
 
   if (!normalized.stt) {
     normalized.stt = defaults.stt;
@@ -266,10 +407,72 @@ export function normalizeConfig(cfg: CognalConfig, projectRoot = cfg.projectId):
   if (!normalized.timeouts.failoverRetrySec || normalized.timeouts.failoverRetrySec <= 0) {
     normalized.timeouts.failoverRetrySec = defaults.timeouts.failoverRetrySec;
   }
+  if (!normalized.timeouts.approvalSec || normalized.timeouts.approvalSec <= 0) {
+    normalized.timeouts.approvalSec = defaults.timeouts.approvalSec;
+  }
+  if (!normalized.limits) {
+    normalized.limits = defaults.limits;
+  }
+  // 0 means unlimited; anything unreadable falls back to that rather than blocking every user.
+  for (const key of ["runsPerHour", "runsPerDay"] as const) {
+    if (!Number.isInteger(normalized.limits[key]) || normalized.limits[key] < 0) {
+      normalized.limits[key] = defaults.limits[key];
+    }
+  }
+  for (const key of ["dailyUsd", "monthlyUsd"] as const) {
+    if (typeof normalized.limits[key] !== "number" || !Number.isFinite(normalized.limits[key]) || normalized.limits[key] < 0) {
+      normalized.limits[key] = defaults.limits[key];
+    }
+  }
+  if (!normalized.git) {
+    normalized.git = { ...defaults.git };
+  }
+  if (typeof normalized.git.checkpoints !== "boolean") {
+    normalized.git.checkpoints = defaults.git.checkpoints;
+  }
+  if (!["off", "user", "session"].includes(normalized.git.isolation)) {
+    normalized.git.isolation = defaults.git.isolation;
+  }
 
   return normalized;
 }
 
+const CUSTOM_AGENT_NAME = /^[a-z][a-z0-9_]{0,31}$/;
+
+// Entries that cannot be run or would shadow a built-in command are dropped rather than failing the daemon.
+function normalizeCustomAgents(raw: unknown): Record<string, CustomAgentConfig> {
+  const out: Record<string, CustomAgentConfig> = {};
+  if (!raw || typeof raw !== "object") {
+    return out;
+  }
+  for (const [name, value] of Object.entries(raw as Record<string, Partial<CustomAgentConfig>>)) {
+    if (!CUSTOM_AGENT_NAME.test(name) || name === "claude" || name === "codex" || RESERVED_COMMANDS.includes(name)) {
+      continue;
+    }
+    if (!value || typeof value.command !== "string" || !value.command.trim()) {
+      continue;
+    }
+    let sessionIdPattern = typeof value.sessionIdPattern === "string" ? value.sessionIdPattern : "";
+    try {
+      new RegExp(sessionIdPattern);
+    } catch {
+      sessionIdPattern = "";
+    }
+    out[name] = {
+      enabled: typeof value.enabled === "boolean" ? value.enabled : true,
+      command: value.command.trim(),
+      args: stringList(value.args, ["{prompt}"]),
+      resumeArgs: stringList(value.resumeArgs, []),
+      sessionIdPattern
+    };
+  }
+  return out;
+}
+
+function stringList(list: unknown, fallback: string[]): string[] {
+  return Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : fallback;
+}
+
 export function enabledFromProviderSelection(selection: ProviderSelection): EnabledAgents {
   if (selection === "claude") {
     return { claude: true, codex: false };
@@ -298,11 +501,29 @@ export function getEnabledAgents(cfg: CognalConfig): AgentType[] {
   if (cfg.agents.enabled.codex) {
     out.push("codex");
   }
+  for (const [name, custom] of Object.entries(cfg.agents.custom)) {
+    if (custom.enabled) {
+      out.push(name);
+    }
+  }
   return out;
 }
 
+// Every agent that has a switch command, enabled or not.
+export function getAgentNames(cfg: CognalConfig): AgentType[] {
+  return ["claude", "codex", ...Object.keys(cfg.agents.custom)];
+}
+
+// Custom CLI agents cannot be sandboxed per role, so only owners may use them.
+export function isCustomAgent(agent: AgentType): boolean {
+  return agent !== "claude" && agent !== "codex";
+}
+
 export function isAgentEnabled(cfg: CognalConfig, agent: AgentType): boolean {
-  return cfg.agents.enabled[agent];
+  if (agent === "claude" || agent === "codex") {
+    return cfg.agents.enabled[agent];
+  }
+  return cfg.agents.custom[agent]?.enabled ?? false;
 }
 
 export function attachmentLimitBytes(cfg: CognalConfig, type: "audio" | "image" | "document"): number {
@@ -0,0 +1,167 @@
+import { getDefaultAgent } from "../config.js";
+import type { CognalConfig } from "../config.js";
+import type { ChatAdapter, InboundChatEvent, InlineKeyboardButton } from "../adapters/chatAdapter.js";
+import type { SessionScope, UserRecord } from "../types.js";
+import type { Db } from "./db.js";
+import type { Logger } from "./logger.js";
+import type { AdminCommand } from "./router.js";
+
+const TELEGRAM_USER_ID = /^\d{5,20}$/;
+
+function describeUser(user: { telegramUserId: string | null; telegramUsername: string | null; displayName: string | null }): string {
+  const name = user.displayName ?? (user.telegramUsername ? `@${user.telegramUsername}` : null);
+  return name ? `${name} (${user.telegramUserId ?? "-"})` : (user.telegramUserId ?? "-");
+}
+
+export function buildAccessRequestKeyboard(telegramUserId: string): InlineKeyboardButton[][] {
+  return [
+    [
+      { text: "Approve", callbackData: `ar:y:${telegramUserId}` },
+      { text: "Reject", callbackData: `ar:n:${telegramUserId}` }
+    ]
+  ];
+}
+
+export function parseAccessCallback(data: string): { telegramUserId: string; approve: boolean } | null {
+  const match = data.match(/^ar:([yn]):(\d{5,20})$/);
+  return match ? { telegramUserId: match[2], approve: match[1] === "y" } : null;
+}
+
+// Admins who never opened a private chat with the bot cannot be messaged, so a failed DM is logged and skipped.
+export async function notifyAdminsOfAccessRequest(args: { db: Db; chat: ChatAdapter; event: InboundChatEvent; logger: Logger }): Promise<void> {
+  const { db, chat, event, logger } = args;
+  const requester = describeUser({ telegramUserId: event.fromUserId, telegramUsername: event.fromUsername, displayName: event.displayName });
+  const lines = [`Access request from ${requester}.`];
+  if (event.chatType !== "private") {
+    lines.push(`Sent in ${event.chatTitle ? `'${event.chatTitle}' ` : ""}(chat ${event.chatId}).`);
+  }
+  for (const admin of await db.listAdmins()) {
+    if (!admin.telegramUserId) {
+      continue;
+    }
+    try {
+      await chat.sendMessage(admin.telegramUserId, lines.join("\n"), { inlineKeyboard: buildAccessRequestKeyboard(event.fromUserId) });
+    } catch (err) {
+      logger.warn("failed notifying admin of access request", { admin: admin.telegramUserId, error: String(err) });
+    }
+  }
+}
+
+// Blocked users stay out until someone with host access unblocks them.
+async function approveUser(db: Db, chat: ChatAdapter, cfg: CognalConfig, telegramUserId: string, logger: Logger): Promise<boolean> {
+  if (await db.isTelegramUserBlocked(telegramUserId)) {
+    return false;
+  }
+  await db.approveAccessRequest(telegramUserId, getDefaultAgent(cfg));
+  try {
+    await chat.sendMessage(telegramUserId, "Your access has been approved. Send a message to get started.");
+  } catch (err) {
+    logger.warn("failed notifying approved user", { telegramUserId, error: String(err) });
+  }
+  return true;
+}
+
+async function listUsersReply(db: Db): Promise<string> {
+  const users = await db.listUsers();
+  const lines = ["Users:"];
+  for (const user of users) {
+    lines.push(`- ${describeUser(user)}: ${user.status}${user.isAdmin ? ", admin" : ""}`);
+  }
+  if (users.length === 0) {
+    lines.push("- none");
+  }
+  const requests = await db.listAccessRequests("pending");
+  const pending = [...new Map(requests.map((request) => [request.telegramUserId, request])).values()];
+  if (pending.length > 0) {
+    lines.push("Pending requests:");
+    for (const request of pending) {
+      lines.push(`- ${describeUser({ telegramUserId: request.telegramUserId, telegramUsername: request.username, displayName: request.displayName })}`);
+    }
+    lines.push("Use /approve <telegram user id> to let someone in.");
+  }
+  return lines.join("\n");
+}
+
+// Handles /approve, /revoke, /users and /allowchat. Returns the reply for the chat.
+export async function handleAdminCommand(args: {
+  db: Db;
+  chat: ChatAdapter;
+  cfg: CognalConfig;
+  event: InboundChatEvent;
+  user: UserRecord;
+  command: AdminCommand;
+  args: string | null;
+  logger: Logger;
+}): Promise<string> {
+  const { db, chat, cfg, event, user, command, logger } = args;
+  if (!user.isAdmin) {
+    return `Only admins can use /${command}.`;
+  }
+
+  if (command === "users") {
+    return listUsersReply(db);
+  }
+
+  if (command === "allowchat") {
+    if (event.chatType === "private") {
+      return "Send /allowchat in the group you want to allow.";
+    }
+    if (args.args !== null && args.args !== "user" && args.args !== "chat") {
+      return "Use /allowchat, or /allowchat chat to share one session between all members.";
+    }
+    await db.allowChat(event.chatId, event.chatType, event.chatTitle ?? null, args.args as SessionScope | null);
+    return `Allowed this chat (${await db.getChatSessionScope(event.chatId)} sessions).`;
+  }
+
+  const target = args.args ?? "";
+  if (!TELEGRAM_USER_ID.test(target)) {
+    return `Use /${command} <telegram user id>.`;
+  }
+  if (command === "approve") {
+    if (!(await approveUser(db, chat, cfg, target, logger))) {
+      return `Telegram user ${target} is blocked. Unblock them on the host with cognal user unblock first.`;
+    }
+    return `Approved Telegram user ${target}.`;
+  }
+  if (target === user.telegramUserId) {
+    return "You cannot revoke yourself.";
+  }
+  return (await db.revokeByTelegramUserId(target)) ? `Revoked Telegram user ${target}.` : `Unknown Telegram user ID: ${target}.`;
+}
+
+export async function handleAccessCallback(args: {
+  event: InboundChatEvent;
+  db: Db;
+  chat: ChatAdapter;
+  cfg: CognalConfig;
+  logger: Logger;
+  decision: { telegramUserId: string; approve: boolean };
+  callbackQueryId: string;
+  messageId: string | null;
+}): Promise<void> {
+  const { event, db, chat, cfg, logger, decision, callbackQueryId, messageId } = args;
+  const admin = await db.getUserByTelegramUserId(event.fromUserId);
+  if (!admin || admin.status !== "active" || !admin.isAdmin) {
+    await chat.answerCallbackQuery(callbackQueryId, "Only admins can answer access requests.");
+    return;
+  }
+  const existing = await db.getUserByTelegramUserId(decision.telegramUserId);
+  let outcome: string;
+  if (existing?.status === "active") {
+    outcome = "already approved";
+  } else if (decision.approve) {
+    outcome = (await approveUser(db, chat, cfg, decision.telegramUserId, logger)) ? "approved" : "still blocked";
+  } else {
+    await db.rejectAccessRequest(decision.telegramUserId);
+    outcome = "rejected";
+  }
+  await chat.answerCallbackQuery(callbackQueryId, `User ${outcome}`);
+  const by = outcome === "approved" || outcome === "rejected" ? ` by ${describeUser(admin)}` : "";
+  if (messageId) {
+    try {
+      await chat.editMessageText(event.chatId, messageId, `Access request from ${decision.telegramUserId}: ${outcome}${by}.`);
+    } catch (err) {
+      logger.warn("failed updating access request message", { chatId: event.chatId, error: String(err) });
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { ChatAdapter, InboundChatEvent } from "../adapters/chatAdapter.js";
+import type { ToolApprovalRequest } from "../agents/agentAdapter.js";
+import { Logger } from "./logger.js";
+
+const CALLBACK_PREFIX = "ap";
+const FILE_WRITE_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+const NETWORK_TOOLS = new Set(["WebFetch", "WebSearch"]);
+const MAX_PREVIEW_LENGTH = 600;
+
+interface PendingApproval {
+  requesterTelegramUserId: string;
+  chatId: string;
+  messageId: string | null;
+  summary: string;
+  timer: NodeJS.Timeout;
+  resolve: (approved: boolean) => void;
+}
+
+function isInsideRoot(targetPath: string, projectRoot: string): boolean {
+  const relative = path.relative(path.resolve(projectRoot), path.resolve(projectRoot, targetPath));
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+// Writes are safe inside the project root and inside any extra writable directory, such as the run's outbox.
+export function isRiskyToolCall(toolName: string, input: Record<string, unknown>, projectRoot: string, writableDirs: string[] = []): boolean {
+  if (toolName === "Bash" || NETWORK_TOOLS.has(toolName)) {
+    return true;
+  }
+  if (FILE_WRITE_TOOLS.has(toolName)) {
+    const target = input.file_path ?? input.notebook_path;
+    if (typeof target !== "string") {
+      return true;
+    }
+    return !isInsideRoot(target, projectRoot) && !writableDirs.some((dir) => isInsideRoot(path.resolve(projectRoot, target), dir));
+  }
+  return false;
+}
+
+export function describeToolCall(toolName: string, input: Record<string, unknown>): string {
+  const detail = [input.command, input.file_path, input.notebook_path, input.url, input.query].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  const body = detail ?? JSON.stringify(input);
+  return body.length > MAX_PREVIEW_LENGTH ? `${body.slice(0, MAX_PREVIEW_LENGTH - 3)}...` : body;
+}
+
+export class ApprovalBroker {
+  private readonly logger = new Logger("approvals");
+  private readonly pending = new Map<string, PendingApproval>();
+
+  constructor(private readonly chat: ChatAdapter) {}
+
+  async request(args: {
+    chatId: string;
+    threadId?: string | null;
+    requesterTelegramUserId: string;
+    request: ToolApprovalRequest;
+    timeoutMs: number;
+  }): Promise<boolean> {
+    const id = randomUUID().split("-")[0];
+    const summary = `${args.request.toolName}: ${describeToolCall(args.request.toolName, args.request.input)}`;
+    const timeoutSec = Math.round(args.timeoutMs / 1000);
+
+    return await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        void this.settle(id, false, `Denied (no answer within ${timeoutSec}s)`);
+      }, args.timeoutMs);
+      this.pending.set(id, {
+        requesterTelegramUserId: args.requesterTelegramUserId,
+        chatId: args.chatId,
+        messageId: null,
+        summary,
+        timer,
+        resolve
+      });
+
+      void this.chat
+        .sendMessage(args.chatId, `Approval needed\n${summary}\n\nDenied automatically after ${timeoutSec}s.`, {
+          threadId: args.threadId ?? null,
+          inlineKeyboard: [
+            [
+              { text: "Approve", callbackData: `${CALLBACK_PREFIX}:${id}:y` },
+              { text: "Deny", callbackData: `${CALLBACK_PREFIX}:${id}:n` }
+            ]
+          ]
+        })
+        .then((messageId) => {
+          const entry = this.pending.get(id);
+          if (entry) {
+            entry.messageId = messageId;
+          }
+        })
+        .catch((err) => {
+          this.logger.warn("failed posting approval request", { chatId: args.chatId, error: String(err) });
+          void this.settle(id, false, null);
+        });
+    });
+  }
+
+  async handleCallback(event: InboundChatEvent): Promise<boolean> {
+    const query = event.callbackQuery;
+    const match = query?.data.match(/^ap:([a-f0-9]+):([yn])$/);
+    if (!query || !match) {
+      return false;
+    }
+    const entry = this.pending.get(match[1]);
+    if (!entry) {
+      await this.chat.answerCallbackQuery(query.id, "This approval request has expired.");
+      return true;
+    }
+    if (entry.requesterTelegramUserId !== event.fromUserId) {
+      await this.chat.answerCallbackQuery(query.id, "Only the user who started this run can answer.");
+      return true;
+    }
+    const approved = match[2] === "y";
+    await this.chat.answerCallbackQuery(query.id, approved ? "Approved" : "Denied");
+    await this.settle(match[1], approved, approved ? "Approved" : "Denied");
+    return true;
+  }
+
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private async settle(id: string, approved: boolean, label: string | null): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.resolve(approved);
+    this.logger.info("tool approval settled", { id, approved, chatId: entry.chatId });
+    if (label && entry.messageId) {
+      try {
+        await this.chat.editMessageText(entry.chatId, entry.messageId, `${label}\n${entry.summary}`);
+      } catch (err) {
+        this.logger.warn("failed updating approval message", { chatId: entry.chatId, error: String(err) });
+      }
+    }
+  }
+}
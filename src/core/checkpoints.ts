@@ -0,0 +1,296 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { ChatAdapter } from "../adapters/chatAdapter.js";
+import type { AgentManager } from "../agents/manager.js";
+import type { BindingScope, CheckpointedRun, UserRole } from "../types.js";
+import type { Db } from "./db.js";
+import type { Logger } from "./logger.js";
+import { runGit } from "./utils.js";
+
+const CHECKPOINT_REF_PREFIX = "refs/cognal/checkpoints";
+// /diff and /undo reach this many runs back per session; older checkpoint refs are deleted.
+export const CHECKPOINTS_KEPT_PER_SCOPE = 20;
+// A run's snapshots are only on its agent_runs row once it ends, so recent ones are kept regardless.
+const RECENT_SNAPSHOT_MS = 6 * 3600 * 1000;
+const PRUNE_INTERVAL_MS = 3600 * 1000;
+
+// Fixed identity and dates make an unchanged tree on the same HEAD hash to the same commit,
+// so a run that touched nothing records identical before and after checkpoints.
+const CHECKPOINT_ENV = {
+  GIT_AUTHOR_NAME: "Cognal",
+  GIT_AUTHOR_EMAIL: "cognal@localhost",
+  GIT_AUTHOR_DATE: "1970-01-01T00:00:00Z",
+  GIT_COMMITTER_NAME: "Cognal",
+  GIT_COMMITTER_EMAIL: "cognal@localhost",
+  GIT_COMMITTER_DATE: "1970-01-01T00:00:00Z"
+};
+
+export interface CheckpointPaths {
+  projectRoot: string;
+  cognalDir: string;
+  tempDir: string;
+}
+
+export interface UndoResult {
+  restored: string[];
+  // Files the run changed that were edited again afterwards; when set, nothing was restored.
+  conflicts: string[];
+  // Files that changed during the run without the agent reporting an edit; when set, nothing was restored.
+  unreported: string[];
+}
+
+function splitNul(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+// Snapshots go through a throwaway index, so the user's staging area and HEAD are never touched.
+export class GitCheckpoints {
+  private readonly recent = new Map<string, number>();
+  private lastPruneAt = 0;
+
+  constructor(private readonly paths: CheckpointPaths) {}
+
+  // Returns null when the directory is not inside a git work tree. Defaults to the project root.
+  async snapshot(root = this.paths.projectRoot): Promise<string | null> {
+    const top = await this.topLevel(root);
+    if (!top) {
+      return null;
+    }
+    const tree = await this.writeWorkTree(top);
+    const head = (await runGit(top, ["rev-parse", "--verify", "-q", "HEAD"], { allowFailure: true })).trim();
+    const commit = (
+      await runGit(top, ["commit-tree", tree, ...(head ? ["-p", head] : []), "-m", "cognal checkpoint"], { env: CHECKPOINT_ENV })
+    ).trim();
+    // A ref per checkpoint keeps the objects safe from git gc.
+    await runGit(top, ["update-ref", `${CHECKPOINT_REF_PREFIX}/${commit}`, commit]);
+    this.recent.set(commit, Date.now());
+    return commit;
+  }
+
+  // Deletes checkpoint refs except `keep` and recent snapshots, so their objects can be collected. Returns the count.
+  async prune(keep: Iterable<string>): Promise<number> {
+    const top = await this.topLevel(this.paths.projectRoot);
+    if (!top) {
+      return 0;
+    }
+    const cutoff = Date.now() - RECENT_SNAPSHOT_MS;
+    for (const [commit, takenAt] of this.recent) {
+      if (takenAt < cutoff) {
+        this.recent.delete(commit);
+      }
+    }
+    const kept = new Set([...keep, ...this.recent.keys()]);
+    const refs = (await runGit(top, ["for-each-ref", "--format=%(refname)", CHECKPOINT_REF_PREFIX])).split("\n").filter(Boolean);
+    const stale = refs.filter((ref) => !kept.has(ref.slice(CHECKPOINT_REF_PREFIX.length + 1)));
+    if (stale.length > 0) {
+      await runGit(top, ["update-ref", "--stdin"], { stdin: stale.map((ref) => `delete ${ref}\n`).join("") });
+    }
+    return stale.length;
+  }
+
+  // Prunes at most once an hour; called from the daemon loop like the inbox cleanup.
+  async pruneIfDue(db: Db, logger: Logger): Promise<void> {
+    if (Date.now() - this.lastPruneAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPruneAt = Date.now();
+    try {
+      const removed = await this.prune(await db.listUndoableCheckpoints(CHECKPOINTS_KEPT_PER_SCOPE));
+      if (removed > 0) {
+        logger.info("pruned checkpoint refs", { removed });
+      }
+    } catch (err) {
+      logger.warn("failed pruning checkpoint refs", { error: String(err) });
+    }
+  }
+
+  async diff(before: string, after: string): Promise<string> {
+    const top = await this.requireTopLevel();
+    return await runGit(top, ["diff", "--no-color", "--no-ext-diff", before, after]);
+  }
+
+  async changedFiles(before: string, after: string): Promise<string[]> {
+    const top = await this.requireTopLevel();
+    return splitNul(await runGit(top, ["diff", "--name-only", "--no-renames", "-z", before, after]));
+  }
+
+  // Puts the files a run changed back to their state before it, leaving every other file alone.
+  // With `editedFiles`, changes to any other file are taken as someone else's and block the undo.
+  async undo(before: string, after: string, root = this.paths.projectRoot, editedFiles: string[] | null = null): Promise<UndoResult> {
+    const top = await this.requireTopLevel(root);
+    const changed = await this.changedFiles(before, after);
+    if (changed.length === 0) {
+      return { restored: [], conflicts: [], unreported: [] };
+    }
+    const current = await this.writeWorkTree(top);
+    const conflicts = splitNul(
+      await runGit(top, ["--literal-pathspecs", "diff", "--name-only", "--no-renames", "-z", after, current, "--", ...changed])
+    );
+    if (conflicts.length > 0) {
+      return { restored: [], conflicts, unreported: [] };
+    }
+    if (editedFiles) {
+      const reported = new Set(await Promise.all(editedFiles.map((file) => this.relativeToTop(top, file))));
+      const unreported = changed.filter((file) => !reported.has(file));
+      if (unreported.length > 0) {
+        return { restored: [], conflicts: [], unreported };
+      }
+    }
+
+    const added = new Set(splitNul(await runGit(top, ["diff", "--name-only", "--no-renames", "--diff-filter=A", "-z", before, after])));
+    for (const file of added) {
+      await fs.rm(path.join(top, file), { force: true });
+    }
+    const previous = changed.filter((file) => !added.has(file));
+    if (previous.length > 0) {
+      await this.withTempIndex(top, async (env) => {
+        await runGit(top, ["read-tree", before], { env });
+        await runGit(top, ["checkout-index", "-f", "--", ...previous], { env });
+      });
+    }
+    return { restored: changed, conflicts: [], unreported: [] };
+  }
+
+  // git paths are relative to the resolved top level, so the file's directory is resolved the same way.
+  private async relativeToTop(top: string, file: string): Promise<string> {
+    const dir = await fs.realpath(path.dirname(file)).catch(() => path.dirname(file));
+    return path.relative(top, path.join(dir, path.basename(file))).split(path.sep).join("/");
+  }
+
+  // Starts from a copy of the real index so unchanged files are not rehashed and tracked files stay tracked.
+  private async writeWorkTree(top: string): Promise<string> {
+    const realIndex = path.resolve(top, (await runGit(top, ["rev-parse", "--git-path", "index"])).trim());
+    return await this.withTempIndex(top, async (env) => {
+      try {
+        await fs.copyFile(realIndex, env.GIT_INDEX_FILE);
+        // Keeping the original mtime keeps git's racy-entry check working for files edited in the same second.
+        const { atime, mtime } = await fs.stat(realIndex);
+        await fs.utimes(env.GIT_INDEX_FILE, atime, mtime);
+      } catch {
+        // no index yet in a fresh repository
+      }
+      await runGit(top, ["add", "-A", "--", ".", ...this.excludeCognalDir(top)], { env });
+      return (await runGit(top, ["write-tree"], { env })).trim();
+    });
+  }
+
+  private excludeCognalDir(top: string): string[] {
+    const relative = path.relative(top, this.paths.cognalDir);
+    return relative && !relative.startsWith("..") ? [`:(exclude)${relative.split(path.sep).join("/")}`] : [];
+  }
+
+  private async topLevel(root: string): Promise<string | null> {
+    const top = (await runGit(root, ["rev-parse", "--show-toplevel"], { allowFailure: true })).trim();
+    return top || null;
+  }
+
+  private async requireTopLevel(root = this.paths.projectRoot): Promise<string> {
+    const top = await this.topLevel(root);
+    if (!top) {
+      throw new Error(`${root} is not inside a git work tree`);
+    }
+    return top;
+  }
+
+  private async withTempIndex<T>(top: string, task: (env: Record<string, string>) => Promise<T>): Promise<T> {
+    await fs.mkdir(this.paths.tempDir, { recursive: true });
+    const indexPath = path.join(this.paths.tempDir, `checkpoint-${randomUUID()}.index`);
+    try {
+      return await task({ GIT_INDEX_FILE: indexPath });
+    } finally {
+      await fs.rm(indexPath, { force: true });
+    }
+  }
+}
+
+function describeRun(run: CheckpointedRun): string {
+  return `the ${run.agent} run at ${run.startedAt.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export function formatFileList(files: string[]): string {
+  const shown = files.slice(0, 10).map((file) => `- ${file}`);
+  if (files.length > shown.length) {
+    shown.push(`- and ${files.length - shown.length} more`);
+  }
+  return shown.join("\n");
+}
+
+// Handles /diff and /undo for the scope's last run that changed files.
+export async function handleCheckpointCommand(args: {
+  db: Db;
+  chat: ChatAdapter;
+  manager: AgentManager;
+  checkpoints: GitCheckpoints | null;
+  scope: BindingScope;
+  chatId: string;
+  threadId: string | null;
+  role: UserRole;
+  // The scope's worktree when isolation is on; /undo restores files there.
+  workdir: string | null;
+  tempDir: string;
+  command: "diff" | "undo";
+  // `/undo all` also restores files the agent did not report editing.
+  all?: boolean;
+}): Promise<void> {
+  const { db, chat, manager, checkpoints, scope, chatId, threadId, command } = args;
+  const reply = async (text: string): Promise<void> => {
+    await chat.sendMessage(chatId, text, { threadId });
+  };
+  if (!checkpoints) {
+    await reply(`/${command} needs checkpoints. Set git.checkpoints = true in .cognal/config.toml and restart Cognal.`);
+    return;
+  }
+  const run = await db.getLastCheckpointedRun(scope.key);
+  if (!run) {
+    await reply(command === "diff" ? "No recorded run changed any files here." : "There is no run left to undo here.");
+    return;
+  }
+
+  if (command === "diff") {
+    const files = await checkpoints.changedFiles(run.checkpointBefore, run.checkpointAfter);
+    await fs.mkdir(args.tempDir, { recursive: true });
+    const diffPath = path.join(args.tempDir, `cognal-run-${run.startedAt.slice(0, 19).replace(/[:T]/g, "-")}.diff`);
+    try {
+      await fs.writeFile(diffPath, await checkpoints.diff(run.checkpointBefore, run.checkpointAfter), "utf8");
+      const caption = `Changes from ${describeRun(run)}: ${files.length} ${files.length === 1 ? "file" : "files"}.`;
+      await chat.sendDocument(chatId, diffPath, { threadId, caption });
+    } finally {
+      await fs.rm(diffPath, { force: true });
+    }
+    return;
+  }
+
+  if (args.role === "viewer") {
+    await reply("Viewers cannot use /undo.");
+    return;
+  }
+  if (manager.isRunning(scope.key)) {
+    await reply("An agent task is still running. Wait for it or /cancel it before using /undo.");
+    return;
+  }
+  // Without isolation every session snapshots the same work tree, so a run from another session
+  // that overlapped this one left its edits in these checkpoints too.
+  if (!args.workdir && (await db.countOverlappingRuns(scope.key, run)) > 0) {
+    await reply(
+      `Not undoing ${describeRun(run)}: another session's run was working in this project at the same time, so /undo could revert its edits too. Use /diff to see the changes and revert them by hand.`
+    );
+    return;
+  }
+  const result = await checkpoints.undo(run.checkpointBefore, run.checkpointAfter, args.workdir ?? undefined, args.all ? null : run.editedFiles);
+  if (result.conflicts.length > 0) {
+    await reply(
+      `Not undoing ${describeRun(run)}: these files changed after it, and /undo would lose those changes.\n${formatFileList(result.conflicts)}`
+    );
+    return;
+  }
+  if (result.unreported.length > 0) {
+    await reply(
+      `Not undoing ${describeRun(run)}: these files changed while it ran, but the agent did not report editing them, so the changes may not be its own.\n${formatFileList(result.unreported)}\nSend /undo all to restore them anyway.`
+    );
+    return;
+  }
+  await db.markAgentRunUndone(run.id);
+  const count = `${result.restored.length} ${result.restored.length === 1 ? "file" : "files"}`;
+  await reply(`Undid ${describeRun(run)}, restoring ${count}:\n${formatFileList(result.restored)}\nThe agent's session still remembers those edits.`);
+}
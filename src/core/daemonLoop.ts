@@ -0,0 +1,163 @@
+import { getAgentNames, getDefaultAgent, getEnabledAgents, isAgentEnabled } from "../config.js";
+import type { CognalConfig, RuntimePaths } from "../config.js";
+import type { ChatAdapter } from "../adapters/chatAdapter.js";
+import type { SttAdapter } from "../adapters/sttAdapter.js";
+import type { AgentAdapter } from "../agents/agentAdapter.js";
+import { AgentManager } from "../agents/manager.js";
+import type { AgentType } from "../types.js";
+import { ApprovalBroker } from "./approvals.js";
+import { GitCheckpoints } from "./checkpoints.js";
+import { GitWorktrees } from "./worktrees.js";
+import type { Db } from "./db.js";
+import { InboundDispatcher, dispatchKeyForEvent } from "./dispatcher.js";
+import { classifyTelegramError, createDiagnosticId } from "./errors.js";
+import { processCallbackQuery, processInboundEvent, runAttachmentCleanup } from "./inbound.js";
+import { loadUnfinishedInbox, persistInboundEvents, runInboxCleanup, runInboxItem, type InboxItem } from "./inbox.js";
+import type { Logger } from "./logger.js";
+import { routeTextInput } from "./router.js";
+
+const LOOP_ERROR_BACKOFF_BASE_MS = 1_000;
+const LOOP_ERROR_BACKOFF_MAX_MS = 30_000;
+
+export interface DaemonLoopDeps {
+  cfg: CognalConfig;
+  paths: RuntimePaths;
+  db: Db;
+  chat: ChatAdapter;
+  stt: SttAdapter | null;
+  adapters: Partial<Record<AgentType, AgentAdapter>>;
+  botUsername: string;
+  logger: Logger;
+}
+
+export interface DaemonLoop {
+  // Resolves once the receive loop has exited and every dispatched event has finished.
+  done: Promise<void>;
+  // Stops receiving and shuts agents down; a receive call in flight still runs to its timeout.
+  stop(): Promise<void>;
+}
+
+export function startDaemonLoop(deps: DaemonLoopDeps): DaemonLoop {
+  const { cfg, paths, db, chat, stt, adapters, botUsername, logger } = deps;
+  const checkpoints = cfg.git.checkpoints ? new GitCheckpoints(paths) : null;
+  const worktrees = cfg.git.isolation === "off" ? null : new GitWorktrees(paths, cfg.git.isolation);
+  const manager = new AgentManager(db, adapters, {
+    failoverEnabled: cfg.routing.failoverEnabled && getEnabledAgents(cfg).length > 1,
+    agentResponseSec: cfg.timeouts.agentResponseSec,
+    agentIdleMs: cfg.timeouts.agentIdleMs,
+    defaultAgent: getDefaultAgent(cfg),
+    defaultRole: cfg.agents.defaultRole,
+    handoff: { mode: cfg.routing.handoff, messages: cfg.routing.handoffMessages, maxChars: cfg.routing.handoffMaxChars },
+    checkpoints: checkpoints ?? undefined,
+    worktrees: worktrees ?? undefined
+  });
+
+  const approvals = new ApprovalBroker(chat);
+  const dispatcher = new InboundDispatcher({
+    maxConcurrency: cfg.routing.maxConcurrentRuns,
+    onError: (key, err) => {
+      const classified = classifyTelegramError(err);
+      logger.error("event processing failed", {
+        key,
+        error: String(err),
+        category: classified.category,
+        diagnosticId: createDiagnosticId()
+      });
+    }
+  });
+
+  const dispatch = (item: InboxItem): void => {
+    const task = async (): Promise<void> => {
+      await runInboxItem(db, item, async (event) => {
+        await processInboundEvent({
+          event,
+          db,
+          manager,
+          chat,
+          stt,
+          cfg,
+          paths,
+          botUsername,
+          logger,
+          isAgentEnabled,
+          approvals,
+          checkpoints,
+          worktrees
+        });
+      });
+    };
+    const key = dispatchKeyForEvent(item.event);
+    if (routeTextInput(item.event.text || "", botUsername, getAgentNames(cfg)).type === "cancel") {
+      void dispatcher.runImmediately(key, task);
+      return;
+    }
+    void dispatcher.enqueue(key, task);
+  };
+
+  let running = true;
+
+  const loop = async (): Promise<void> => {
+    const interrupted = await db.failUnfinishedAgentRuns();
+    if (interrupted > 0) {
+      logger.warn("marked interrupted agent runs as failed", { count: interrupted });
+    }
+    const resumed = await loadUnfinishedInbox(db, logger);
+    if (resumed.length > 0) {
+      logger.info("resuming unfinished inbox items", { count: resumed.length });
+    }
+    for (const item of resumed) {
+      dispatch(item);
+    }
+
+    let consecutiveLoopErrors = 0;
+
+    while (running) {
+      try {
+        const events = await chat.receive(cfg.telegram.receiveTimeoutSec);
+        // Button presses answer a run that is already waiting, so they skip the inbox and the per-user queue.
+        const callbacks = events.filter((event) => event.callbackQuery);
+        const items = await persistInboundEvents(
+          db,
+          events.filter((event) => !event.callbackQuery)
+        );
+        await chat.commitReceived();
+        for (const event of callbacks) {
+          void dispatcher.runImmediately(dispatchKeyForEvent(event), () =>
+            processCallbackQuery({ event, db, manager, chat, cfg, approvals, logger, isAgentEnabled }));
+        }
+        for (const item of items) {
+          dispatch(item);
+        }
+        await runAttachmentCleanup(db);
+        await runInboxCleanup(db);
+        await checkpoints?.pruneIfDue(db, logger);
+        consecutiveLoopErrors = 0;
+      } catch (err) {
+        if (!running) {
+          break;
+        }
+        consecutiveLoopErrors += 1;
+        const backoffMs = Math.min(LOOP_ERROR_BACKOFF_BASE_MS * 2 ** Math.min(consecutiveLoopErrors - 1, 5), LOOP_ERROR_BACKOFF_MAX_MS);
+        const classified = classifyTelegramError(err);
+        const diagnosticId = createDiagnosticId();
+        logger.error("loop error", {
+          error: String(err),
+          category: classified.category,
+          diagnosticId,
+          consecutiveLoopErrors,
+          backoffMs
+        });
+        await new Promise((resolve) => setTimeout(resolve, backoffMs));
+      }
+    }
+    await dispatcher.onIdle();
+  };
+
+  return {
+    done: loop(),
+    stop: async () => {
+      running = false;
+      await manager.shutdownAll();
+    }
+  };
+}
@@ -1,7 +1,31 @@
 import sqlite3 from "sqlite3";
 import { promisify } from "node:util";
 import { randomUUID } from "node:crypto";
-import type { AccessRequestRecord, AgentType, AllowedChatRecord, SessionBinding, UserRecord, UserStatus } from "../types.js";
+import type {
+  AccessRequestRecord,
+  AccessRequestStatus,
+  AgentRunRecord,
+  AgentType,
+  AllowedChatRecord,
+  BindingScope,
+  CheckpointedRun,
+  InboxItemRecord,
+  InboxStatus,
+  InviteRecord,
+  ModelPreference,
+  NamedSessionRecord,
+  SessionBinding,
+  SessionScope,
+  TranscriptMessage,
+  UsageGrouping,
+  UsageTotals,
+  UserLimits,
+  UserRecord,
+  UserRole,
+  UserStatus
+} from "../types.js";
+import { isUserRole } from "./roles.js";
+import { privateChatScope } from "./scope.js";
 
 sqlite3.verbose();
 
@@ -10,6 +34,27 @@ interface RunResult {
   changes: number;
 }
 
+interface NamedSessionRow {
+  id: string;
+  scope_key: string;
+  name: string;
+  agent: AgentType;
+  session_ref: string | null;
+  created_at: string;
+  last_used_at: string;
+}
+
+interface InviteRow {
+  id: string;
+  code_hash: string;
+  agent: AgentType | null;
+  max_uses: number;
+  uses: number;
+  expires_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
 export class Db {
   private readonly db: sqlite3.Database;
 
@@ -69,12 +114,38 @@ export class Db {
     await this.run(`ALTER TABLE ${tableName} ADD COLUMN ${columnSql}`);
   }
 
+  private mapNamedSession(row: NamedSessionRow): NamedSessionRecord {
+    return {
+      id: row.id,
+      scopeKey: row.scope_key,
+      name: row.name,
+      agent: row.agent,
+      sessionRef: row.session_ref,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at
+    };
+  }
+
+  private mapInvite(row: InviteRow): InviteRecord {
+    return {
+      id: row.id,
+      agent: row.agent,
+      maxUses: row.max_uses,
+      uses: row.uses,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      revokedAt: row.revoked_at
+    };
+  }
+
   private mapUser(row: {
     id: string;
     telegram_user_id: string | null;
     telegram_username: string | null;
     display_name: string | null;
     status: UserStatus;
+    is_admin: number;
+    role: string | null;
     last_seen_at: string | null;
     created_at: string;
   }): UserRecord {
@@ -84,6 +155,8 @@ export class Db {
       telegramUsername: row.telegram_username,
       displayName: row.display_name,
       status: row.status,
+      isAdmin: row.is_admin === 1,
+      role: isUserRole(row.role) ? row.role : null,
       lastSeenAt: row.last_seen_at,
       createdAt: row.created_at
     };
@@ -110,12 +183,22 @@ export class Db {
     await this.addColumnIfMissing("users", "telegram_username", "telegram_username TEXT");
     await this.addColumnIfMissing("users", "display_name", "display_name TEXT");
     await this.addColumnIfMissing("users", "last_seen_at", "last_seen_at TEXT");
+    await this.addColumnIfMissing("users", "is_admin", "is_admin INTEGER NOT NULL DEFAULT 0");
+    await this.addColumnIfMissing("users", "role", "role TEXT");
 
     await this.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_users_telegram_user_id ON users(telegram_user_id)`);
 
+    // Bindings used to be keyed by user alone; keep the old rows as each user's private-chat binding.
+    const legacyBindings = (await this.columnExists("bindings", "user_id")) && !(await this.columnExists("bindings", "scope_key"));
+    if (legacyBindings) {
+      await this.run(`ALTER TABLE bindings RENAME TO bindings_legacy`);
+    }
     await this.run(`
       CREATE TABLE IF NOT EXISTS bindings (
-        user_id TEXT PRIMARY KEY,
+        scope_key TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        chat_id TEXT,
+        thread_id TEXT,
         active_agent TEXT NOT NULL,
         claude_session_ref TEXT,
         codex_session_ref TEXT,
@@ -123,6 +206,112 @@ export class Db {
         FOREIGN KEY(user_id) REFERENCES users(id)
       )
     `);
+    if (legacyBindings) {
+      await this.run(`
+        INSERT INTO bindings (scope_key, user_id, chat_id, thread_id, active_agent, claude_session_ref, codex_session_ref, updated_at)
+        SELECT
+          CASE WHEN u.telegram_user_id IS NULL THEN b.user_id ELSE b.user_id || ':' || u.telegram_user_id END,
+          b.user_id,
+          u.telegram_user_id,
+          NULL,
+          b.active_agent,
+          b.claude_session_ref,
+          b.codex_session_ref,
+          b.updated_at
+        FROM bindings_legacy b
+        LEFT JOIN users u ON u.id = b.user_id
+      `);
+      await this.run(`DROP TABLE bindings_legacy`);
+    }
+    await this.run(`CREATE INDEX IF NOT EXISTS idx_bindings_user ON bindings(user_id)`);
+
+    // One row per binding scope and agent, so custom agents need no schema change.
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS session_refs (
+        scope_key TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        session_ref TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY(scope_key, agent),
+        FOREIGN KEY(scope_key) REFERENCES bindings(scope_key)
+      )
+    `);
+    await this.addColumnIfMissing("bindings", "active_session_id", "active_session_id TEXT");
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        scope_key TEXT NOT NULL,
+        name TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        session_ref TEXT,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        UNIQUE(scope_key, name)
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS agent_runs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        chat_id TEXT,
+        scope_key TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL,
+        outcome TEXT NOT NULL,
+        diagnostic_id TEXT
+      )
+    `);
+    await this.addColumnIfMissing("agent_runs", "checkpoint_before", "checkpoint_before TEXT");
+    await this.addColumnIfMissing("agent_runs", "checkpoint_after", "checkpoint_after TEXT");
+    await this.addColumnIfMissing("agent_runs", "undone_at", "undone_at TEXT");
+    await this.addColumnIfMissing("agent_runs", "edited_files", "edited_files TEXT");
+    await this.run(`CREATE INDEX IF NOT EXISTS idx_agent_runs_started_at ON agent_runs(started_at)`);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS model_preferences (
+        scope_key TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        model TEXT,
+        reasoning_effort TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY(scope_key, agent)
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS invites (
+        id TEXT PRIMARY KEY,
+        code_hash TEXT NOT NULL UNIQUE,
+        agent TEXT,
+        max_uses INTEGER NOT NULL,
+        uses INTEGER NOT NULL DEFAULT 0,
+        expires_at TEXT,
+        created_at TEXT NOT NULL,
+        revoked_at TEXT
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS user_limits (
+        user_id TEXT PRIMARY KEY,
+        runs_per_hour INTEGER,
+        runs_per_day INTEGER,
+        daily_usd REAL,
+        monthly_usd REAL,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      )
+    `);
+    // The per-agent columns in bindings are legacy; move any refs still stored there and clear them so this runs once.
+    for (const agent of ["claude", "codex"]) {
+      await this.run(
+        `INSERT OR IGNORE INTO session_refs (scope_key, agent, session_ref, updated_at)
+         SELECT scope_key, ?, ${agent}_session_ref, updated_at FROM bindings WHERE ${agent}_session_ref IS NOT NULL`,
+        [agent]
+      );
+      await this.run(`UPDATE bindings SET ${agent}_session_ref = NULL WHERE ${agent}_session_ref IS NOT NULL`);
+    }
 
     await this.run(`
       CREATE TABLE IF NOT EXISTS messages (
@@ -186,9 +375,11 @@ export class Db {
         chat_id TEXT PRIMARY KEY,
         chat_type TEXT NOT NULL,
         title TEXT,
+        session_scope TEXT NOT NULL DEFAULT 'user',
         created_at TEXT NOT NULL
       )
     `);
+    await this.addColumnIfMissing("allowed_chats", "session_scope", "session_scope TEXT NOT NULL DEFAULT 'user'");
 
     await this.run(`
       CREATE TABLE IF NOT EXISTS access_requests (
@@ -202,6 +393,29 @@ export class Db {
         PRIMARY KEY (telegram_user_id, chat_id)
       )
     `);
+    await this.addColumnIfMissing("access_requests", "denied_at", "denied_at TEXT");
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS blocked_users (
+        telegram_user_id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS inbox (
+        id TEXT PRIMARY KEY,
+        chat_id TEXT NOT NULL,
+        transport_message_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        received_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (chat_id, transport_message_id)
+      )
+    `);
+    await this.run(`CREATE INDEX IF NOT EXISTS idx_inbox_status ON inbox(status, received_at)`);
   }
 
   async addOrUpdateTelegramUser(
@@ -231,7 +445,7 @@ export class Db {
       if (!updated) {
         throw new Error(`failed to reload user ${telegramUserId}`);
       }
-      await this.getBinding(updated.id, options.defaultActiveAgent ?? "codex");
+      await this.getBinding(privateChatScope(updated.id, telegramUserId), options.defaultActiveAgent ?? "codex");
       return updated;
     }
 
@@ -256,11 +470,7 @@ export class Db {
         now
       ]
     );
-    await this.run(
-      `INSERT INTO bindings (user_id, active_agent, claude_session_ref, codex_session_ref, updated_at)
-       VALUES (?, ?, NULL, NULL, ?)`,
-      [id, options.defaultActiveAgent ?? "codex", now]
-    );
+    await this.getBinding(privateChatScope(id, telegramUserId), options.defaultActiveAgent ?? "codex");
 
     const created = await this.getUserByTelegramUserId(telegramUserId);
     if (!created) {
@@ -291,6 +501,8 @@ export class Db {
       telegram_username: string | null;
       display_name: string | null;
       status: UserStatus;
+      is_admin: number;
+      role: string | null;
       last_seen_at: string | null;
       created_at: string;
     }>(`SELECT * FROM users WHERE telegram_user_id = ?`, [telegramUserId]);
@@ -304,6 +516,8 @@ export class Db {
       telegram_username: string | null;
       display_name: string | null;
       status: UserStatus;
+      is_admin: number;
+      role: string | null;
       last_seen_at: string | null;
       created_at: string;
     }>(`SELECT * FROM users WHERE id = ?`, [id]);
@@ -317,6 +531,8 @@ export class Db {
       telegram_username: string | null;
       display_name: string | null;
       status: UserStatus;
+      is_admin: number;
+      role: string | null;
       last_seen_at: string | null;
       created_at: string;
     }>(`SELECT * FROM users ORDER BY created_at ASC`);
@@ -328,18 +544,46 @@ export class Db {
     return result.changes > 0;
   }
 
+  // A null role falls back to agents.defaultRole.
+  // Active agents across every binding the user owns, private chats and topics alike.
+  async listActiveAgentsByTelegramUserId(telegramUserId: string): Promise<AgentType[]> {
+    const rows = await this.all<{ active_agent: AgentType }>(
+      `SELECT DISTINCT b.active_agent FROM bindings b JOIN users u ON u.id = b.user_id WHERE u.telegram_user_id = ?`,
+      [telegramUserId]
+    );
+    return rows.map((row) => row.active_agent);
+  }
+
+  async setRoleByTelegramUserId(telegramUserId: string, role: UserRole | null): Promise<boolean> {
+    const result = await this.run(`UPDATE users SET role = ? WHERE telegram_user_id = ?`, [role, telegramUserId]);
+    return result.changes > 0;
+  }
+
   async setUserStatus(userId: string, status: UserStatus): Promise<void> {
     await this.run(`UPDATE users SET status = ? WHERE id = ?`, [status, userId]);
   }
 
+  async setAdminByTelegramUserId(telegramUserId: string, isAdmin: boolean): Promise<boolean> {
+    const result = await this.run(`UPDATE users SET is_admin = ? WHERE telegram_user_id = ?`, [isAdmin ? 1 : 0, telegramUserId]);
+    return result.changes > 0;
+  }
+
+  async listAdmins(): Promise<UserRecord[]> {
+    return (await this.listUsers()).filter((user) => user.isAdmin && user.status === "active");
+  }
+
   async recordAccessRequest(
     telegramUserId: string,
     chatId: string,
     username: string | null,
     displayName: string | null,
-    status: "pending" | "approved" | "rejected" = "pending"
-  ): Promise<void> {
+    status: AccessRequestStatus = "pending"
+  ): Promise<boolean> {
     const now = new Date().toISOString();
+    const open = await this.get<{ telegram_user_id: string }>(
+      `SELECT telegram_user_id FROM access_requests WHERE telegram_user_id = ? AND status = ? LIMIT 1`,
+      [telegramUserId, status]
+    );
     await this.run(
       `INSERT INTO access_requests (telegram_user_id, chat_id, username, display_name, first_seen_at, last_seen_at, status)
        VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -350,9 +594,11 @@ export class Db {
          status=excluded.status`,
       [telegramUserId, chatId, username, displayName, now, now, status]
     );
+    // True when the user had no request in this status yet, so callers can notify once rather than per message.
+    return !open;
   }
 
-  async listAccessRequests(status: "pending" | "approved" | "rejected" = "pending"): Promise<AccessRequestRecord[]> {
+  async listAccessRequests(status: AccessRequestStatus | "all" = "pending"): Promise<AccessRequestRecord[]> {
     const rows = await this.all<{
       telegram_user_id: string;
       chat_id: string;
@@ -360,8 +606,13 @@ export class Db {
       display_name: string | null;
       first_seen_at: string;
       last_seen_at: string;
-      status: "pending" | "approved" | "rejected";
-    }>(`SELECT * FROM access_requests WHERE status = ? ORDER BY last_seen_at DESC`, [status]);
+      status: AccessRequestStatus;
+    }>(
+      status === "all"
+        ? `SELECT * FROM access_requests ORDER BY last_seen_at DESC`
+        : `SELECT * FROM access_requests WHERE status = ? ORDER BY last_seen_at DESC`,
+      status === "all" ? [] : [status]
+    );
 
     return rows.map((row) => ({
       telegramUserId: row.telegram_user_id,
@@ -399,15 +650,114 @@ export class Db {
     return user;
   }
 
-  async allowChat(chatId: string, chatType: AllowedChatRecord["chatType"], title: string | null = null): Promise<void> {
+  async rejectAccessRequest(telegramUserId: string): Promise<boolean> {
+    const result = await this.run(`UPDATE access_requests SET status = 'rejected' WHERE telegram_user_id = ?`, [telegramUserId]);
+    return result.changes > 0;
+  }
+
+  // Rejected and blocked requesters get no reply, no new access request and no admin notification.
+  async isRequesterIgnored(telegramUserId: string): Promise<boolean> {
+    const row = await this.get<{ found: number }>(
+      `SELECT 1 AS found FROM blocked_users WHERE telegram_user_id = ?
+       UNION ALL
+       SELECT 1 AS found FROM access_requests WHERE telegram_user_id = ? AND status = 'rejected'
+       LIMIT 1`,
+      [telegramUserId, telegramUserId]
+    );
+    return Boolean(row);
+  }
+
+  // Marks a denial reply as sent unless one already went out after notBefore, so repeat messages do not each get an answer.
+  async claimDenialReply(telegramUserId: string, notBefore: string, now: string): Promise<boolean> {
+    const result = await this.run(
+      `UPDATE access_requests SET denied_at = ?
+       WHERE telegram_user_id = ?
+         AND NOT EXISTS (SELECT 1 FROM access_requests WHERE telegram_user_id = ? AND denied_at > ?)`,
+      [now, telegramUserId, telegramUserId, notBefore]
+    );
+    return result.changes > 0;
+  }
+
+  async blockTelegramUser(telegramUserId: string): Promise<void> {
+    await this.run(`INSERT OR IGNORE INTO blocked_users (telegram_user_id, created_at) VALUES (?, ?)`, [
+      telegramUserId,
+      new Date().toISOString()
+    ]);
+    await this.run(`UPDATE users SET status = 'revoked' WHERE telegram_user_id = ?`, [telegramUserId]);
+    await this.run(`UPDATE access_requests SET status = 'rejected' WHERE telegram_user_id = ?`, [telegramUserId]);
+  }
+
+  async unblockTelegramUser(telegramUserId: string): Promise<boolean> {
+    const result = await this.run(`DELETE FROM blocked_users WHERE telegram_user_id = ?`, [telegramUserId]);
+    return result.changes > 0;
+  }
+
+  async isTelegramUserBlocked(telegramUserId: string): Promise<boolean> {
+    const row = await this.get<{ telegram_user_id: string }>(`SELECT telegram_user_id FROM blocked_users WHERE telegram_user_id = ?`, [
+      telegramUserId
+    ]);
+    return Boolean(row);
+  }
+
+  async listBlockedUsers(): Promise<Array<{ telegramUserId: string; createdAt: string }>> {
+    const rows = await this.all<{ telegram_user_id: string; created_at: string }>(`SELECT * FROM blocked_users ORDER BY created_at ASC`);
+    return rows.map((row) => ({ telegramUserId: row.telegram_user_id, createdAt: row.created_at }));
+  }
+
+  async createInvite(codeHash: string, options: { agent: AgentType | null; maxUses: number; expiresAt: string | null }): Promise<InviteRecord> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await this.run(
+      `INSERT INTO invites (id, code_hash, agent, max_uses, uses, expires_at, created_at) VALUES (?, ?, ?, ?, 0, ?, ?)`,
+      [id, codeHash, options.agent, options.maxUses, options.expiresAt, now]
+    );
+    return { id, agent: options.agent, maxUses: options.maxUses, uses: 0, expiresAt: options.expiresAt, createdAt: now, revokedAt: null };
+  }
+
+  // Counts one use if the invite is still valid; the check and the increment are one statement so two redeemers cannot share the last use.
+  async redeemInvite(codeHash: string, now: string): Promise<InviteRecord | null> {
+    const result = await this.run(
+      `UPDATE invites SET uses = uses + 1
+       WHERE code_hash = ? AND revoked_at IS NULL AND uses < max_uses AND (expires_at IS NULL OR expires_at > ?)`,
+      [codeHash, now]
+    );
+    if (result.changes === 0) {
+      return null;
+    }
+    const row = await this.get<InviteRow>(`SELECT * FROM invites WHERE code_hash = ?`, [codeHash]);
+    return row ? this.mapInvite(row) : null;
+  }
+
+  async listInvites(): Promise<InviteRecord[]> {
+    const rows = await this.all<InviteRow>(`SELECT * FROM invites ORDER BY created_at DESC`);
+    return rows.map((row) => this.mapInvite(row));
+  }
+
+  async revokeInvite(id: string): Promise<boolean> {
+    const result = await this.run(`UPDATE invites SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`, [new Date().toISOString(), id]);
+    return result.changes > 0;
+  }
+
+  async allowChat(
+    chatId: string,
+    chatType: AllowedChatRecord["chatType"],
+    title: string | null = null,
+    sessionScope: SessionScope | null = null
+  ): Promise<void> {
+    // Re-allowing a chat without a scope keeps the scope it already has.
     await this.run(
-      `INSERT INTO allowed_chats (chat_id, chat_type, title, created_at)
-       VALUES (?, ?, ?, ?)
-       ON CONFLICT(chat_id) DO UPDATE SET chat_type=excluded.chat_type, title=excluded.title`,
-      [chatId, chatType, title, new Date().toISOString()]
+      `INSERT INTO allowed_chats (chat_id, chat_type, title, session_scope, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(chat_id) DO UPDATE SET chat_type=excluded.chat_type, title=excluded.title, session_scope=COALESCE(?, session_scope)`,
+      [chatId, chatType, title, sessionScope ?? "user", new Date().toISOString(), sessionScope]
     );
   }
 
+  async getChatSessionScope(chatId: string): Promise<SessionScope> {
+    const row = await this.get<{ session_scope: SessionScope }>(`SELECT session_scope FROM allowed_chats WHERE chat_id = ?`, [chatId]);
+    return row?.session_scope === "chat" ? "chat" : "user";
+  }
+
   async revokeChat(chatId: string): Promise<boolean> {
     const result = await this.run(`DELETE FROM allowed_chats WHERE chat_id = ?`, [chatId]);
     return result.changes > 0;
@@ -423,6 +773,7 @@ export class Db {
       chat_id: string;
       chat_type: "private" | "group" | "supergroup" | "channel";
       title: string | null;
+      session_scope: SessionScope;
       created_at: string;
     }>(`SELECT * FROM allowed_chats ORDER BY created_at ASC`);
 
@@ -430,6 +781,7 @@ export class Db {
       chatId: row.chat_id,
       chatType: row.chat_type,
       title: row.title,
+      sessionScope: row.session_scope === "chat" ? "chat" : "user",
       createdAt: row.created_at
     }));
   }
@@ -440,52 +792,335 @@ export class Db {
     await this.run(`UPDATE users SET status = 'revoked' WHERE telegram_user_id IS NOT NULL`);
   }
 
-  async getBinding(userId: string, defaultActiveAgent: AgentType = "codex"): Promise<SessionBinding> {
+  async getBinding(scope: BindingScope, defaultActiveAgent: AgentType = "codex"): Promise<SessionBinding> {
     const row = await this.get<{
+      scope_key: string;
       user_id: string;
+      chat_id: string | null;
+      thread_id: string | null;
       active_agent: AgentType;
-      claude_session_ref: string | null;
-      codex_session_ref: string | null;
+      active_session_id: string | null;
       updated_at: string;
-    }>(`SELECT * FROM bindings WHERE user_id = ?`, [userId]);
+    }>(`SELECT * FROM bindings WHERE scope_key = ?`, [scope.key]);
 
     if (!row) {
       const now = new Date().toISOString();
       await this.run(
-        `INSERT INTO bindings (user_id, active_agent, claude_session_ref, codex_session_ref, updated_at)
-         VALUES (?, ?, NULL, NULL, ?)`,
-        [userId, defaultActiveAgent, now]
+        `INSERT INTO bindings (scope_key, user_id, chat_id, thread_id, active_agent, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [scope.key, scope.userId, scope.chatId, scope.threadId, defaultActiveAgent, now]
       );
       return {
-        userId,
+        scopeKey: scope.key,
+        userId: scope.userId,
+        chatId: scope.chatId,
+        threadId: scope.threadId,
         activeAgent: defaultActiveAgent,
-        claudeSessionRef: null,
-        codexSessionRef: null,
+        sessionRefs: {},
+        activeSessionId: null,
         updatedAt: now
       };
     }
 
+    const refs = await this.all<{ agent: AgentType; session_ref: string }>(
+      `SELECT agent, session_ref FROM session_refs WHERE scope_key = ?`,
+      [scope.key]
+    );
     return {
+      scopeKey: row.scope_key,
       userId: row.user_id,
+      chatId: row.chat_id,
+      threadId: row.thread_id,
       activeAgent: row.active_agent,
-      claudeSessionRef: row.claude_session_ref,
-      codexSessionRef: row.codex_session_ref,
+      sessionRefs: Object.fromEntries(refs.map((ref) => [ref.agent, ref.session_ref])),
+      activeSessionId: row.active_session_id,
       updatedAt: row.updated_at
     };
   }
 
-  async setActiveAgent(userId: string, activeAgent: AgentType): Promise<void> {
+  async setActiveAgent(scopeKey: string, activeAgent: AgentType): Promise<void> {
     const now = new Date().toISOString();
-    await this.run(`UPDATE bindings SET active_agent = ?, updated_at = ? WHERE user_id = ?`, [activeAgent, now, userId]);
+    await this.run(`UPDATE bindings SET active_agent = ?, updated_at = ? WHERE scope_key = ?`, [activeAgent, now, scopeKey]);
   }
 
-  async updateSessionRef(userId: string, agent: AgentType, sessionRef: string | null): Promise<void> {
+  async updateSessionRef(scopeKey: string, agent: AgentType, sessionRef: string | null): Promise<void> {
     const now = new Date().toISOString();
-    if (agent === "claude") {
-      await this.run(`UPDATE bindings SET claude_session_ref = ?, updated_at = ? WHERE user_id = ?`, [sessionRef, now, userId]);
+    if (sessionRef === null) {
+      await this.run(`DELETE FROM session_refs WHERE scope_key = ? AND agent = ?`, [scopeKey, agent]);
+    } else {
+      await this.run(
+        `INSERT INTO session_refs (scope_key, agent, session_ref, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(scope_key, agent) DO UPDATE SET session_ref = excluded.session_ref, updated_at = excluded.updated_at`,
+        [scopeKey, agent, sessionRef, now]
+      );
+      // Keep the active named session pointing at the latest ref of its agent.
+      await this.run(
+        `UPDATE sessions SET session_ref = ?, last_used_at = ?
+         WHERE id = (SELECT active_session_id FROM bindings WHERE scope_key = ?) AND agent = ?`,
+        [sessionRef, now, scopeKey, agent]
+      );
+    }
+    await this.run(`UPDATE bindings SET updated_at = ? WHERE scope_key = ?`, [now, scopeKey]);
+  }
+
+  async getModelPreference(scopeKey: string, agent: AgentType): Promise<ModelPreference> {
+    const row = await this.get<{ model: string | null; reasoning_effort: string | null }>(
+      `SELECT model, reasoning_effort FROM model_preferences WHERE scope_key = ? AND agent = ?`,
+      [scopeKey, agent]
+    );
+    return { model: row?.model ?? null, reasoningEffort: row?.reasoning_effort ?? null };
+  }
+
+  async setModelPreference(scopeKey: string, agent: AgentType, preference: ModelPreference): Promise<void> {
+    if (!preference.model && !preference.reasoningEffort) {
+      await this.run(`DELETE FROM model_preferences WHERE scope_key = ? AND agent = ?`, [scopeKey, agent]);
       return;
     }
-    await this.run(`UPDATE bindings SET codex_session_ref = ?, updated_at = ? WHERE user_id = ?`, [sessionRef, now, userId]);
+    await this.run(
+      `INSERT INTO model_preferences (scope_key, agent, model, reasoning_effort, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(scope_key, agent) DO UPDATE SET model = excluded.model, reasoning_effort = excluded.reasoning_effort, updated_at = excluded.updated_at`,
+      [scopeKey, agent, preference.model, preference.reasoningEffort, new Date().toISOString()]
+    );
+  }
+
+  async insertAgentRun(run: AgentRunRecord): Promise<string> {
+    const id = randomUUID();
+    await this.run(
+      `INSERT INTO agent_runs (id, user_id, chat_id, scope_key, agent, started_at, duration_ms, input_tokens, output_tokens, cost_usd, outcome, diagnostic_id,
+         checkpoint_before, checkpoint_after, edited_files)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        run.userId,
+        run.chatId,
+        run.scopeKey,
+        run.agent,
+        run.startedAt,
+        run.durationMs,
+        run.inputTokens,
+        run.outputTokens,
+        run.costUsd,
+        run.outcome,
+        run.diagnosticId,
+        run.checkpointBefore,
+        run.checkpointAfter,
+        JSON.stringify(run.editedFiles)
+      ]
+    );
+    return id;
+  }
+
+  // Completes a row written with outcome "running" when its run started.
+  async finishAgentRun(id: string, run: AgentRunRecord): Promise<void> {
+    await this.run(
+      `UPDATE agent_runs SET agent = ?, duration_ms = ?, input_tokens = ?, output_tokens = ?, cost_usd = ?, outcome = ?, diagnostic_id = ?,
+         checkpoint_before = ?, checkpoint_after = ?, edited_files = ?
+       WHERE id = ?`,
+      [
+        run.agent,
+        run.durationMs,
+        run.inputTokens,
+        run.outputTokens,
+        run.costUsd,
+        run.outcome,
+        run.diagnosticId,
+        run.checkpointBefore,
+        run.checkpointAfter,
+        JSON.stringify(run.editedFiles),
+        id
+      ]
+    );
+  }
+
+  // Runs still marked running when the daemon starts were cut off by a crash or restart.
+  async failUnfinishedAgentRuns(): Promise<number> {
+    const result = await this.run(`UPDATE agent_runs SET outcome = 'error' WHERE outcome = 'running'`);
+    return result.changes;
+  }
+
+  // The newest run in the scope that changed files and has not been undone.
+  async getLastCheckpointedRun(scopeKey: string): Promise<CheckpointedRun | null> {
+    const row = await this.get<{
+      id: string;
+      agent: string;
+      started_at: string;
+      duration_ms: number;
+      checkpoint_before: string;
+      checkpoint_after: string;
+      edited_files: string | null;
+    }>(
+      `SELECT id, agent, started_at, duration_ms, checkpoint_before, checkpoint_after, edited_files
+       FROM agent_runs
+       WHERE scope_key = ? AND checkpoint_before IS NOT NULL AND checkpoint_after IS NOT NULL
+         AND checkpoint_before != checkpoint_after AND undone_at IS NULL
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      [scopeKey]
+    );
+    if (!row) {
+      return null;
+    }
+    return {
+      id: row.id,
+      agent: row.agent,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms,
+      checkpointBefore: row.checkpoint_before,
+      checkpointAfter: row.checkpoint_after,
+      editedFiles: row.edited_files ? (JSON.parse(row.edited_files) as string[]) : []
+    };
+  }
+
+  // Runs in other scopes that were in progress at some point while the given run was.
+  async countOverlappingRuns(scopeKey: string, run: Pick<CheckpointedRun, "id" | "startedAt" | "durationMs">): Promise<number> {
+    const endedAt = new Date(Date.parse(run.startedAt) + run.durationMs).toISOString();
+    const row = await this.get<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM agent_runs
+       WHERE scope_key != ? AND id != ? AND started_at < ?
+         AND (outcome = 'running' OR (julianday(started_at) - julianday(?)) * 86400000 + duration_ms > 0)`,
+      [scopeKey, run.id, endedAt, run.startedAt]
+    );
+    return row?.count ?? 0;
+  }
+
+  // Checkpoints of the newest runs per scope that /diff and /undo can still reach.
+  async listUndoableCheckpoints(perScope: number): Promise<string[]> {
+    const rows = await this.all<{ checkpoint_before: string; checkpoint_after: string }>(
+      `SELECT checkpoint_before, checkpoint_after FROM (
+         SELECT checkpoint_before, checkpoint_after, ROW_NUMBER() OVER (PARTITION BY scope_key ORDER BY started_at DESC) AS position
+         FROM agent_runs
+         WHERE checkpoint_before IS NOT NULL AND checkpoint_after IS NOT NULL
+           AND checkpoint_before != checkpoint_after AND undone_at IS NULL
+       )
+       WHERE position <= ?`,
+      [perScope]
+    );
+    return rows.flatMap((row) => [row.checkpoint_before, row.checkpoint_after]);
+  }
+
+  async markAgentRunUndone(id: string): Promise<void> {
+    await this.run(`UPDATE agent_runs SET undone_at = ? WHERE id = ?`, [new Date().toISOString(), id]);
+  }
+
+  async summarizeAgentRuns(options: { by: UsageGrouping; since?: string; userId?: string }): Promise<UsageTotals[]> {
+    const column = { user: "r.user_id", chat: "r.chat_id", agent: "r.agent" }[options.by];
+    const label =
+      options.by === "user" ? "COALESCE(u.telegram_username, u.telegram_user_id, r.user_id)" : options.by === "chat" ? "COALESCE(c.title, r.chat_id)" : "r.agent";
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (options.since) {
+      where.push("r.started_at >= ?");
+      params.push(options.since);
+    }
+    if (options.userId) {
+      where.push("r.user_id = ?");
+      params.push(options.userId);
+    }
+    const rows = await this.all<{
+      key: string | null;
+      label: string | null;
+      runs: number;
+      failed_runs: number;
+      input_tokens: number;
+      output_tokens: number;
+      cost_usd: number | null;
+      duration_ms: number;
+    }>(
+      `SELECT ${column} AS key, ${label} AS label, COUNT(*) AS runs,
+              SUM(CASE WHEN r.outcome = 'error' THEN 1 ELSE 0 END) AS failed_runs,
+              SUM(r.input_tokens) AS input_tokens, SUM(r.output_tokens) AS output_tokens,
+              SUM(r.cost_usd) AS cost_usd, SUM(r.duration_ms) AS duration_ms
+       FROM agent_runs r
+       LEFT JOIN users u ON u.id = r.user_id
+       LEFT JOIN allowed_chats c ON c.chat_id = r.chat_id
+       ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+       GROUP BY ${column}
+       ORDER BY cost_usd DESC, SUM(r.input_tokens + r.output_tokens) DESC`,
+      params
+    );
+    return rows.map((row) => ({
+      key: row.key ?? "-",
+      label: row.label ?? row.key ?? "-",
+      runs: row.runs,
+      failedRuns: row.failed_runs,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd,
+      durationMs: row.duration_ms
+    }));
+  }
+
+  // Oldest first, for working out when a rolling run limit frees up.
+  async listAgentRunStarts(userId: string, since: string): Promise<string[]> {
+    const rows = await this.all<{ started_at: string }>(
+      `SELECT started_at FROM agent_runs WHERE user_id = ? AND started_at >= ? ORDER BY started_at`,
+      [userId, since]
+    );
+    return rows.map((row) => row.started_at);
+  }
+
+  // Only the fields overridden for this user; the rest come from [limits] in config.
+  async getUserLimits(userId: string): Promise<Partial<UserLimits>> {
+    const row = await this.get<{ runs_per_hour: number | null; runs_per_day: number | null; daily_usd: number | null; monthly_usd: number | null }>(
+      `SELECT runs_per_hour, runs_per_day, daily_usd, monthly_usd FROM user_limits WHERE user_id = ?`,
+      [userId]
+    );
+    if (!row) {
+      return {};
+    }
+    const limits = { runsPerHour: row.runs_per_hour, runsPerDay: row.runs_per_day, dailyUsd: row.daily_usd, monthlyUsd: row.monthly_usd };
+    return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== null)) as Partial<UserLimits>;
+  }
+
+  // Replaces the user's overrides; fields left out go back to the config defaults.
+  async setUserLimits(userId: string, overrides: Partial<UserLimits>): Promise<void> {
+    if (Object.values(overrides).every((value) => value === undefined)) {
+      await this.run(`DELETE FROM user_limits WHERE user_id = ?`, [userId]);
+      return;
+    }
+    await this.run(
+      `INSERT INTO user_limits (user_id, runs_per_hour, runs_per_day, daily_usd, monthly_usd, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET runs_per_hour = excluded.runs_per_hour, runs_per_day = excluded.runs_per_day,
+         daily_usd = excluded.daily_usd, monthly_usd = excluded.monthly_usd, updated_at = excluded.updated_at`,
+      [
+        userId,
+        overrides.runsPerHour ?? null,
+        overrides.runsPerDay ?? null,
+        overrides.dailyUsd ?? null,
+        overrides.monthlyUsd ?? null,
+        new Date().toISOString()
+      ]
+    );
+  }
+
+  async setActiveSession(scopeKey: string, sessionId: string | null): Promise<void> {
+    const now = new Date().toISOString();
+    await this.run(`UPDATE bindings SET active_session_id = ?, updated_at = ? WHERE scope_key = ?`, [sessionId, now, scopeKey]);
+    if (sessionId) {
+      await this.run(`UPDATE sessions SET last_used_at = ? WHERE id = ?`, [now, sessionId]);
+    }
+  }
+
+  async createNamedSession(scopeKey: string, name: string, agent: AgentType, sessionRef: string | null): Promise<NamedSessionRecord> {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    await this.run(
+      `INSERT INTO sessions (id, scope_key, name, agent, session_ref, created_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, scopeKey, name, agent, sessionRef, now, now]
+    );
+    return { id, scopeKey, name, agent, sessionRef, createdAt: now, lastUsedAt: now };
+  }
+
+  async getNamedSession(scopeKey: string, lookup: { id?: string; name?: string }): Promise<NamedSessionRecord | null> {
+    const row = lookup.id
+      ? await this.get<NamedSessionRow>(`SELECT * FROM sessions WHERE scope_key = ? AND id = ?`, [scopeKey, lookup.id])
+      : await this.get<NamedSessionRow>(`SELECT * FROM sessions WHERE scope_key = ? AND name = ?`, [scopeKey, lookup.name ?? ""]);
+    return row ? this.mapNamedSession(row) : null;
+  }
+
+  async listNamedSessions(scopeKey: string): Promise<NamedSessionRecord[]> {
+    const rows = await this.all<NamedSessionRow>(`SELECT * FROM sessions WHERE scope_key = ? ORDER BY last_used_at DESC, name`, [scopeKey]);
+    return rows.map((row) => this.mapNamedSession(row));
   }
 
   async insertMessage(
@@ -505,6 +1140,24 @@ export class Db {
     return id;
   }
 
+  // Oldest first. Without a userId every member's messages in the chat are included.
+  async listRecentMessages(filter: { chatId: string; userId?: string }, limit: number): Promise<TranscriptMessage[]> {
+    const rows = await this.all<{ direction: "in" | "out"; body: string | null; display_name: string | null; telegram_username: string | null; created_at: string }>(
+      `SELECT m.direction, m.body, u.display_name, u.telegram_username, m.created_at
+       FROM messages m LEFT JOIN users u ON u.id = m.user_id
+       WHERE m.chat_id = ?${filter.userId ? " AND m.user_id = ?" : ""}
+       ORDER BY m.created_at DESC, m.rowid DESC
+       LIMIT ?`,
+      filter.userId ? [filter.chatId, filter.userId, limit] : [filter.chatId, limit]
+    );
+    return rows.reverse().map((row) => ({
+      direction: row.direction,
+      body: row.body ?? "",
+      senderName: row.display_name ?? row.telegram_username,
+      createdAt: row.created_at
+    }));
+  }
+
   async insertAttachment(
     messageId: string,
     data: {
@@ -533,6 +1186,74 @@ export class Db {
     await this.run(`UPDATE attachments SET deleted_at = ? WHERE path = ?`, [new Date().toISOString(), filePath]);
   }
 
+  async enqueueInboxItem(chatId: string, transportMessageId: string, payload: string): Promise<string | null> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const result = await this.run(
+      `INSERT INTO inbox (id, chat_id, transport_message_id, payload, status, attempts, last_error, received_at, updated_at)
+       VALUES (?, ?, ?, ?, 'pending', 0, NULL, ?, ?)
+       ON CONFLICT(chat_id, transport_message_id) DO NOTHING`,
+      [id, chatId, transportMessageId, payload, now, now]
+    );
+    return result.changes > 0 ? id : null;
+  }
+
+  async listUnfinishedInboxItems(): Promise<InboxItemRecord[]> {
+    const rows = await this.all<{
+      id: string;
+      chat_id: string;
+      transport_message_id: string;
+      payload: string;
+      status: InboxStatus;
+      attempts: number;
+      last_error: string | null;
+      received_at: string;
+      updated_at: string;
+    }>(`SELECT * FROM inbox WHERE status IN ('pending', 'processing') ORDER BY received_at ASC, rowid ASC`);
+
+    return rows.map((row) => ({
+      id: row.id,
+      chatId: row.chat_id,
+      transportMessageId: row.transport_message_id,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      receivedAt: row.received_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  async markInboxProcessing(id: string): Promise<void> {
+    await this.run(`UPDATE inbox SET status = 'processing', attempts = attempts + 1, updated_at = ? WHERE id = ?`, [
+      new Date().toISOString(),
+      id
+    ]);
+  }
+
+  async completeInboxItem(id: string, status: "done" | "failed", error: string | null = null): Promise<void> {
+    await this.run(`UPDATE inbox SET status = ?, last_error = ?, updated_at = ? WHERE id = ?`, [
+      status,
+      error,
+      new Date().toISOString(),
+      id
+    ]);
+  }
+
+  async countInboxByStatus(): Promise<Record<InboxStatus, number>> {
+    const rows = await this.all<{ status: InboxStatus; count: number }>(`SELECT status, COUNT(*) AS count FROM inbox GROUP BY status`);
+    const counts: Record<InboxStatus, number> = { pending: 0, processing: 0, done: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  async pruneInbox(beforeIso: string): Promise<number> {
+    const result = await this.run(`DELETE FROM inbox WHERE status IN ('done', 'failed') AND updated_at <= ?`, [beforeIso]);
+    return result.changes;
+  }
+
   async setRuntimePid(userId: string, agent: AgentType, pid: number | null): Promise<void> {
     await this.run(
       `INSERT INTO agent_runtime (user_id, agent, pid, started_at, stopped_at, last_error)
@@ -0,0 +1,119 @@
+export type DispatchTask = () => Promise<void>;
+
+interface DispatcherOptions {
+  maxConcurrency: number;
+  onError?: (key: string, error: unknown) => void | Promise<void>;
+}
+
+export class InboundDispatcher {
+  private readonly tails = new Map<string, Promise<void>>();
+  private readonly slotWaiters: Array<() => void> = [];
+  private active = 0;
+  private pending = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(private readonly options: DispatcherOptions) {}
+
+  // Tasks sharing a key run strictly in enqueue order; different keys run in parallel up to maxConcurrency.
+  enqueue(key: string, task: DispatchTask): Promise<void> {
+    this.pending += 1;
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      await this.acquireSlot();
+      try {
+        await task();
+      } catch (err) {
+        await this.reportError(key, err);
+      } finally {
+        this.releaseSlot();
+      }
+    });
+    const tail = next.finally(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+      this.settle();
+    });
+    this.tails.set(key, tail);
+    return tail;
+  }
+
+  // Control messages such as /cancel must not wait behind the run they are meant to interrupt.
+  runImmediately(key: string, task: DispatchTask): Promise<void> {
+    this.pending += 1;
+    return (async () => {
+      try {
+        await task();
+      } catch (err) {
+        await this.reportError(key, err);
+      }
+    })().finally(() => {
+      this.settle();
+    });
+  }
+
+  pendingCount(): number {
+    return this.pending;
+  }
+
+  activeCount(): number {
+    return this.active;
+  }
+
+  async onIdle(): Promise<void> {
+    if (this.pending === 0) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.idleWaiters.push(resolve);
+    });
+  }
+
+  private settle(): void {
+    this.pending -= 1;
+    if (this.pending > 0) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < Math.max(1, this.options.maxConcurrency)) {
+      this.active += 1;
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.slotWaiters.push(resolve);
+    });
+  }
+
+  private releaseSlot(): void {
+    const nextWaiter = this.slotWaiters.shift();
+    if (nextWaiter) {
+      // Hand the slot over directly so the active count stays accurate.
+      nextWaiter();
+      return;
+    }
+    this.active -= 1;
+  }
+
+  private async reportError(key: string, error: unknown): Promise<void> {
+    try {
+      await this.options.onError?.(key, error);
+    } catch {
+      // never let error reporting break the queue
+    }
+  }
+}
+
+export function dispatchKeyForEvent(event: { fromUserId: string; chatId?: string; threadId?: string | null }): string {
+  // Each forum topic has its own session, so a user's topics can run side by side.
+  if (event.threadId && event.chatId) {
+    return `user:${event.fromUserId}:${event.chatId}:${event.threadId}`;
+  }
+  return `user:${event.fromUserId}`;
+}
@@ -1,4 +1,5 @@
 import { randomUUID } from "node:crypto";
+import type { LimitRefusal } from "./limits.js";
 
 export type ErrorCategory =
   | "generic"
@@ -12,6 +13,20 @@ export type ErrorCategory =
   | "stt_transient"
   | "stt_auth";
 
+export class AgentCancelledError extends Error {
+  constructor(message = "Agent run cancelled") {
+    super(message);
+    this.name = "AgentCancelledError";
+  }
+}
+
+export class RunLimitError extends Error {
+  constructor(readonly refusal: LimitRefusal) {
+    super(`Run limit reached: ${refusal.limit}`);
+    this.name = "RunLimitError";
+  }
+}
+
 export interface ClassifiedError {
   category: ErrorCategory;
   retryable: boolean;
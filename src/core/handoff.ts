@@ -0,0 +1,46 @@
+import type { AgentType, TranscriptMessage } from "../types.js";
+
+export const HANDOFF_SUMMARY_PROMPT = [
+  "Another coding agent is taking over this conversation.",
+  "Summarize it for them: the user's goal, decisions made, files touched, and open next steps.",
+  "Reply with the summary only."
+].join(" ");
+
+const MAX_MESSAGE_SHARE = 4;
+
+function clip(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text;
+}
+
+// Keeps the newest messages that fit in maxChars. Slash commands are control traffic, not conversation.
+export function buildHandoffDigest(
+  messages: TranscriptMessage[],
+  options: { fromAgent: AgentType; maxChars: number; shared: boolean }
+): string | null {
+  const perMessage = Math.floor(options.maxChars / MAX_MESSAGE_SHARE);
+  const lines: string[] = [];
+  let used = 0;
+  for (const message of [...messages].reverse()) {
+    const body = message.body.trim();
+    if (!body || (message.direction === "in" && body.startsWith("/"))) {
+      continue;
+    }
+    const speaker = message.direction === "out" ? "Assistant" : options.shared ? (message.senderName ?? "User") : "User";
+    const line = `${speaker}: ${clip(body, perMessage)}`;
+    if (used + line.length > options.maxChars) {
+      break;
+    }
+    lines.unshift(line);
+    used += line.length + 2;
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+  return [`[Handoff from ${options.fromAgent}. Recent conversation in this chat, oldest first:]`, ...lines, "[End of handoff.]"].join("\n\n");
+}
+
+export function formatHandoffSummary(fromAgent: AgentType, summary: string, maxChars: number): string {
+  return [`[Handoff from ${fromAgent}. Its summary of the conversation so far:]`, clip(summary.trim(), maxChars), "[End of handoff.]"].join(
+    "\n\n"
+  );
+}
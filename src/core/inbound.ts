@@ -1,21 +1,39 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
-import { attachmentLimitBytes } from "../config.js";
+import { attachmentLimitBytes, getAgentNames, getDefaultAgent, isCustomAgent } from "../config.js";
 import type { CognalConfig } from "../config.js";
 import type { ChatAdapter, InboundChatEvent } from "../adapters/chatAdapter.js";
 import type { SttAdapter } from "../adapters/sttAdapter.js";
+import type { AgentSendOptions } from "../agents/agentAdapter.js";
 import type { AgentManager } from "../agents/manager.js";
-import type { InboundAttachment } from "../types.js";
+import type { AgentType, InboundAttachment, SessionScope } from "../types.js";
 import type { Db } from "./db.js";
-import { createDiagnosticId, formatProviderUserError } from "./errors.js";
+import { AgentCancelledError, createDiagnosticId, formatProviderUserError, RunLimitError } from "./errors.js";
 import { routeTextInput } from "./router.js";
 import { safeFileName } from "./utils.js";
 import { stageIncomingAttachment, buildAttachmentSummary } from "./attachments.js";
 import { Logger } from "./logger.js";
-import { chunkTelegramHtml, formatTelegramHtml } from "./telegramFormat.js";
+import { buildReplyPreview, chunkTelegramHtml, formatTelegramHtml, htmlToPlainText } from "./telegramFormat.js";
+import { ProgressReporter } from "./progress.js";
+import type { ApprovalBroker } from "./approvals.js";
+import { handleCheckpointCommand, type GitCheckpoints } from "./checkpoints.js";
+import { handleWorktreeCommand, type GitWorktrees } from "./worktrees.js";
+import { bindingScopeForEvent } from "./scope.js";
+import { buildOutboxInstructions, createRunOutbox, deliverOutbox, removeRunOutbox } from "./outbox.js";
+import { handleAccessCallback, handleAdminCommand, notifyAdminsOfAccessRequest, parseAccessCallback } from "./admin.js";
+import { redeemInvite } from "./invites.js";
+import { checkUserLimits, formatLimitRefusal } from "./limits.js";
+import { resolveUserRole } from "./roles.js";
+import { handleModelCommand } from "./models.js";
+import { buildUsageReply } from "./usage.js";
+import { buildSessionsKeyboard, parseSessionCallback, resumeNamedSession, startNamedSession } from "./sessions.js";
+
+const REPLY_PREVIEW_CHARS = 800;
+const DENIAL_REPLY_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
 interface RuntimePathsLike {
   tempDir: string;
+  outboxDir: string;
 }
 
 export async function processInboundEvent(args: {
@@ -28,38 +46,74 @@ export async function processInboundEvent(args: {
   paths: RuntimePathsLike;
   botUsername: string;
   logger: Logger;
-  isAgentEnabled: (cfg: CognalConfig, agent: "claude" | "codex") => boolean;
+  isAgentEnabled: (cfg: CognalConfig, agent: AgentType) => boolean;
+  approvals?: ApprovalBroker;
+  checkpoints?: GitCheckpoints | null;
+  worktrees?: GitWorktrees | null;
 }): Promise<void> {
-  const { event, db, manager, chat, stt, cfg, paths, botUsername, logger, isAgentEnabled } = args;
+  const { event, db, manager, chat, stt, cfg, paths, botUsername, logger, isAgentEnabled, approvals } = args;
+  const threadId = event.threadId ?? null;
 
   if ((event.chatType === "group" || event.chatType === "supergroup" || event.chatType === "channel") && !cfg.telegram.allowGroups) {
     return;
   }
 
+  const route = routeTextInput(event.text || "", botUsername, getAgentNames(cfg));
   const user = await db.getUserByTelegramUserId(event.fromUserId);
+  if (user?.status !== "active" && (await db.isRequesterIgnored(event.fromUserId))) {
+    return;
+  }
+  // An invite lets a new user in, but never overrides a revocation.
+  if (route.type === "invite" && user?.status !== "active" && user?.status !== "revoked") {
+    await chat.sendMessage(event.chatId, await redeemInvite({ db, cfg, event, code: route.code }), { threadId });
+    return;
+  }
   if (!user || user.status !== "active") {
-    await db.recordAccessRequest(event.fromUserId, event.chatId, event.fromUsername, event.displayName, "pending");
-    await chat.sendMessage(
-      event.chatId,
-      `Access denied. Your Telegram user ID is ${event.fromUserId}. Ask the host admin to run: cognal user approve --telegram-user-id ${event.fromUserId}`
+    if (await db.recordAccessRequest(event.fromUserId, event.chatId, event.fromUsername, event.displayName, "pending")) {
+      await notifyAdminsOfAccessRequest({ db, chat, event, logger });
+    }
+    const now = Date.now();
+    const replyDue = await db.claimDenialReply(
+      event.fromUserId,
+      new Date(now - DENIAL_REPLY_INTERVAL_MS).toISOString(),
+      new Date(now).toISOString()
     );
+    if (replyDue) {
+      await chat.sendMessage(
+        event.chatId,
+        `Access denied. Your Telegram user ID is ${event.fromUserId}. Ask the host admin to run: cognal user approve --telegram-user-id ${event.fromUserId}`,
+        { threadId }
+      );
+    }
     return;
   }
 
   await db.touchTelegramUserSeen(event.fromUserId, event.fromUsername, event.displayName);
 
+  // Admin commands run before the chat allow-list check so /allowchat works in a chat that is not allowed yet.
+  if (route.type === "admin") {
+    const reply = await handleAdminCommand({ db, chat, cfg, event, user, command: route.command, args: route.args, logger });
+    await chat.sendMessage(event.chatId, reply, { threadId });
+    return;
+  }
+
   const isGroup = event.chatType === "group" || event.chatType === "supergroup" || event.chatType === "channel";
+  let sessionScope: SessionScope = "user";
   if (isGroup) {
     const chatAllowed = await db.isChatAllowed(event.chatId);
     if (!chatAllowed) {
-      await chat.sendMessage(event.chatId, `This chat is not allowed. Ask admin to run: cognal chat allow --chat-id ${event.chatId}`);
+      await chat.sendMessage(event.chatId, `This chat is not allowed. Ask admin to run: cognal chat allow --chat-id ${event.chatId}`, {
+        threadId
+      });
       return;
     }
     if (cfg.telegram.groupMode === "mentions_only" && !event.isCommand && !event.isMentioned && !event.isReplyToBot) {
       return;
     }
+    sessionScope = await db.getChatSessionScope(event.chatId);
   }
 
+  const scope = bindingScopeForEvent(user.id, event, sessionScope);
   const inboundMessageId = await db.insertMessage(user.id, event.transportMessageId, event.chatId, "in", event.text || "");
 
   const stagedAttachments: InboundAttachment[] = [];
@@ -71,7 +125,8 @@ export async function processInboundEvent(args: {
         event.chatId,
         `Attachment rejected: '${att.fileName}' is too large for type '${att.type}'. Limit is ${Math.round(
           limitBytes / (1024 * 1024)
-        )} MB.`
+        )} MB.`,
+        { threadId }
       );
       continue;
     }
@@ -99,28 +154,131 @@ export async function processInboundEvent(args: {
     }
   }
 
-  const route = routeTextInput(event.text || "", botUsername);
+  if (route.type === "invite") {
+    await chat.sendMessage(event.chatId, "You already have access. Send a message to get started.", { threadId });
+    return;
+  }
 
   if (route.type === "switch_agent") {
     if (!isAgentEnabled(cfg, route.agent)) {
-      await chat.sendMessage(event.chatId, `Agent '${route.agent}' is disabled on this host.`);
+      await chat.sendMessage(event.chatId, `Agent '${route.agent}' is disabled on this host.`, { threadId });
+      return;
+    }
+    if (isCustomAgent(route.agent) && resolveUserRole(user, cfg.agents.defaultRole) !== "owner") {
+      await chat.sendMessage(event.chatId, `Agent '${route.agent}' is only available to owners.`, { threadId });
+      return;
+    }
+    // A summary handoff is a paid run of the outgoing agent, so it is held to the same limits as a prompt.
+    const handedOff = await manager.switchAgent(scope, route.agent, {
+      requestApproval: approvalCallback(cfg, approvals, event),
+      checkLimits: () => checkUserLimits(db, cfg, user.id)
+    });
+    const note = handedOff ? " Recent context will be handed over with your next message." : "";
+    await chat.sendMessage(event.chatId, `Switched active agent to ${route.agent}.${note}`, { threadId });
+    return;
+  }
+
+  if (route.type === "cancel") {
+    const cancelled = manager.cancelActive(scope.key);
+    await chat.sendMessage(event.chatId, cancelled ? "Cancelled the running agent task. Your session is kept." : "No agent task is running.", {
+      threadId
+    });
+    return;
+  }
+
+  if (route.type === "new_session") {
+    const reply = await startNamedSession({ db, manager, scope, defaultAgent: getDefaultAgent(cfg), name: route.name });
+    await chat.sendMessage(event.chatId, reply, { threadId });
+    return;
+  }
+
+  if (route.type === "resume_session" && route.name) {
+    const session = await db.getNamedSession(scope.key, { name: route.name });
+    if (!session) {
+      await chat.sendMessage(event.chatId, `No session named '${route.name}'. Use /sessions to list them.`, { threadId });
+      return;
+    }
+    if (!isAgentEnabled(cfg, session.agent)) {
+      await chat.sendMessage(event.chatId, `Agent '${session.agent}' is disabled on this host.`, { threadId });
       return;
     }
-    await manager.switchAgent(user.id, route.agent);
-    await chat.sendMessage(event.chatId, `Switched active agent to ${route.agent}.`);
+    await chat.sendMessage(event.chatId, await resumeNamedSession({ manager, scope, session }), { threadId });
+    return;
+  }
+
+  if (route.type === "list_sessions" || route.type === "resume_session") {
+    const binding = await db.getBinding(scope, getDefaultAgent(cfg));
+    const sessions = await db.listNamedSessions(scope.key);
+    if (sessions.length === 0) {
+      await chat.sendMessage(event.chatId, "No named sessions yet. Start one with /new <name>.", { threadId });
+      return;
+    }
+    await chat.sendMessage(event.chatId, "Sessions (tap one to resume):", {
+      threadId,
+      inlineKeyboard: buildSessionsKeyboard(sessions, binding.activeSessionId)
+    });
+    return;
+  }
+
+  if (route.type === "usage") {
+    await chat.sendMessage(event.chatId, await buildUsageReply(db, user.id), { threadId });
+    return;
+  }
+
+  if (route.type === "checkpoint") {
+    await handleCheckpointCommand({
+      db,
+      chat,
+      manager,
+      checkpoints: args.checkpoints ?? null,
+      scope,
+      chatId: event.chatId,
+      threadId,
+      role: resolveUserRole(user, cfg.agents.defaultRole),
+      workdir: args.worktrees ? await args.worktrees.workdirFor(scope) : null,
+      tempDir: paths.tempDir,
+      command: route.command,
+      all: route.all ?? false
+    });
+    return;
+  }
+
+  if (route.type === "worktree") {
+    const reply = await handleWorktreeCommand({
+      worktrees: args.worktrees ?? null,
+      manager,
+      scope,
+      role: resolveUserRole(user, cfg.agents.defaultRole),
+      command: route.command
+    });
+    await chat.sendMessage(event.chatId, reply, { threadId });
+    return;
+  }
+
+  if (route.type === "model") {
+    const reply = await handleModelCommand({ db, manager, cfg, scope, defaultAgent: getDefaultAgent(cfg), args: route.args });
+    await chat.sendMessage(event.chatId, reply, { threadId });
     return;
   }
 
   if (route.type === "passthrough" && route.payload.trim() === "/clear") {
-    const defaultAgent = cfg.agents.enabled.codex ? "codex" : "claude";
-    const binding = await db.getBinding(user.id, defaultAgent);
-    if (binding.activeAgent === "claude") {
-      await manager.clearAgentSession(user.id, "claude");
-      await chat.sendMessage(event.chatId, "Cleared active Claude session.");
+    const binding = await db.getBinding(scope, getDefaultAgent(cfg));
+    // Codex handles /clear itself; Claude and custom CLIs have no session reset, so drop the stored session instead.
+    if (binding.activeAgent !== "codex") {
+      await manager.clearAgentSession(scope, binding.activeAgent);
+      const label = binding.activeAgent === "claude" ? "Claude" : binding.activeAgent;
+      await chat.sendMessage(event.chatId, `Cleared active ${label} session.`, { threadId });
       return;
     }
   }
 
+  // Checked before transcription too, since that is also paid for. The manager checks again as the run starts.
+  const refusal = await checkUserLimits(db, cfg, user.id);
+  if (refusal) {
+    await chat.sendMessage(event.chatId, formatLimitRefusal(refusal), { threadId });
+    return;
+  }
+
   const parts: string[] = [];
   const inboundText = route.payload.trim();
   if (inboundText) {
@@ -146,30 +304,66 @@ export async function processInboundEvent(args: {
     }
   }
 
-  const finalPrompt = parts.join("\n\n").trim();
+  let finalPrompt = parts.join("\n\n").trim();
   if (!finalPrompt) {
     return;
   }
+  if (sessionScope === "chat" && !finalPrompt.startsWith("/")) {
+    // Several members talk to one shared session, so tell the agent who is asking.
+    finalPrompt = `From ${senderName(event)}:\n${finalPrompt}`;
+  }
+
+  // Slash commands are passed to the provider verbatim, so only plain prompts get an outbox.
+  const outboxDir = finalPrompt.startsWith("/") ? null : await createRunOutbox(paths.outboxDir);
+  const agentPrompt = outboxDir ? `${finalPrompt}\n\n${buildOutboxInstructions(outboxDir)}` : finalPrompt;
 
   let responseText: string;
+  let succeeded = false;
   let typingTimer: NodeJS.Timeout | null = null;
+  const progress = cfg.routing.progressUpdates
+    ? new ProgressReporter(chat, event.chatId, threadId, cfg.routing.progressEditIntervalMs, logger)
+    : null;
+  // Created up front so a failed run's record and the reply to the user carry the same ID.
+  const diagnosticId = createDiagnosticId();
   try {
-    await chat.sendTyping(event.chatId);
+    await chat.sendTyping(event.chatId, threadId);
     typingTimer = setInterval(() => {
-      void chat.sendTyping(event.chatId).catch(() => {
+      void chat.sendTyping(event.chatId, threadId).catch(() => {
         // ignore transient typing update failures
       });
     }, 4000);
-    const output = await manager.sendToActive(user.id, finalPrompt);
-    responseText = output.text || "(No textual response from agent.)";
-  } catch (err) {
-    const diagnosticId = createDiagnosticId();
-    logger.error("agent send failed", {
-      userId: user.id,
-      error: String(err),
+    await progress?.start();
+    const output = await manager.sendToActive(scope, agentPrompt, {
+      onProgress: progress ? (progressEvent) => progress.push(progressEvent) : undefined,
+      requestApproval: approvalCallback(cfg, approvals, event),
+      outboxDir,
+      checkLimits: () => checkUserLimits(db, cfg, user.id),
       diagnosticId
     });
-    responseText = formatProviderUserError(err, diagnosticId);
+    responseText = output.text || "(No textual response from agent.)";
+    succeeded = true;
+    await progress?.finish("done");
+  } catch (err) {
+    if (err instanceof AgentCancelledError) {
+      if (outboxDir) {
+        await removeRunOutbox(outboxDir);
+      }
+      await progress?.finish("cancelled");
+      logger.info("agent run cancelled", { userId: user.id });
+      return;
+    }
+    await progress?.finish("failed");
+    if (err instanceof RunLimitError) {
+      // Another of the user's runs started while this message was being prepared.
+      responseText = formatLimitRefusal(err.refusal);
+    } else {
+      logger.error("agent send failed", {
+        userId: user.id,
+        error: String(err),
+        diagnosticId
+      });
+      responseText = formatProviderUserError(err, diagnosticId);
+    }
   } finally {
     if (typingTimer) {
       clearInterval(typingTimer);
@@ -179,9 +373,160 @@ export async function processInboundEvent(args: {
   await db.insertMessage(user.id, null, event.chatId, "out", responseText);
   const formatted = formatTelegramHtml(responseText);
   const chunks = chunkTelegramHtml(formatted, cfg.routing.responseChunkSize);
-  for (const chunk of chunks) {
-    await chat.sendMessage(event.chatId, chunk, { parseMode: "HTML", disableWebPagePreview: true });
+  const sentAsDocument =
+    cfg.routing.maxReplyChunks > 0 &&
+    chunks.length > cfg.routing.maxReplyChunks &&
+    (await sendReplyAsDocument(chat, event.chatId, threadId, responseText, paths.tempDir, logger));
+  if (!sentAsDocument) {
+    for (const chunk of chunks) {
+      await sendHtmlMessage(chat, event.chatId, threadId, chunk, logger);
+    }
+  }
+
+  if (outboxDir) {
+    try {
+      if (succeeded) {
+        await deliverOutbox({ chat, chatId: event.chatId, threadId, dir: outboxDir, cfg, logger });
+      }
+    } finally {
+      await removeRunOutbox(outboxDir);
+    }
+  }
+}
+
+function approvalCallback(
+  cfg: CognalConfig,
+  approvals: ApprovalBroker | undefined,
+  event: InboundChatEvent
+): AgentSendOptions["requestApproval"] {
+  if (cfg.agents.approvalMode !== "interactive") {
+    return undefined;
+  }
+  return (request) =>
+    approvals
+      ? approvals.request({
+          chatId: event.chatId,
+          threadId: event.threadId ?? null,
+          requesterTelegramUserId: event.fromUserId,
+          request,
+          timeoutMs: cfg.timeouts.approvalSec * 1000
+        })
+      : Promise.resolve(false);
+}
+
+function senderName(event: InboundChatEvent): string {
+  return event.displayName ?? (event.fromUsername ? `@${event.fromUsername}` : `user ${event.fromUserId}`);
+}
+
+async function sendHtmlMessage(chat: ChatAdapter, chatId: string, threadId: string | null, html: string, logger: Logger): Promise<void> {
+  try {
+    await chat.sendMessage(chatId, html, { threadId, parseMode: "HTML", disableWebPagePreview: true });
+  } catch (err) {
+    if (!String(err).includes("can't parse entities")) {
+      throw err;
+    }
+    // A reply Telegram cannot parse is still worth delivering, just without formatting.
+    logger.warn("telegram rejected HTML, resending as plain text", { chatId, error: String(err) });
+    await chat.sendMessage(chatId, htmlToPlainText(html), { threadId, disableWebPagePreview: true });
+  }
+}
+
+async function sendReplyAsDocument(
+  chat: ChatAdapter,
+  chatId: string,
+  threadId: string | null,
+  markdown: string,
+  tempDir: string,
+  logger: Logger
+): Promise<boolean> {
+  const filePath = path.join(tempDir, `reply-${Date.now()}.md`);
+  try {
+    await fs.mkdir(tempDir, { recursive: true });
+    await fs.writeFile(filePath, markdown, "utf8");
+    // The attachment goes first: if it fails, nothing has been sent yet and the chunks carry the whole reply.
+    await chat.sendDocument(chatId, filePath, { threadId });
+  } catch (err) {
+    logger.warn("failed sending reply as document, falling back to chunks", { chatId, error: String(err) });
+    return false;
+  } finally {
+    try {
+      await fs.unlink(filePath);
+    } catch {
+      // ignore
+    }
+  }
+  try {
+    const note = `<i>Full reply (${markdown.length} characters) attached above as ${path.basename(filePath)}.</i>`;
+    await sendHtmlMessage(chat, chatId, threadId, `${buildReplyPreview(markdown, REPLY_PREVIEW_CHARS)}\n\n${note}`, logger);
+  } catch (err) {
+    logger.warn("failed sending reply preview", { chatId, error: String(err) });
+  }
+  return true;
+}
+
+export async function processCallbackQuery(args: {
+  event: InboundChatEvent;
+  db: Db;
+  manager: AgentManager;
+  chat: ChatAdapter;
+  cfg: CognalConfig;
+  approvals: ApprovalBroker;
+  logger: Logger;
+  isAgentEnabled: (cfg: CognalConfig, agent: AgentType) => boolean;
+}): Promise<void> {
+  const { event, db, manager, chat, cfg, approvals, logger, isAgentEnabled } = args;
+  const query = event.callbackQuery;
+  if (!query) {
+    return;
+  }
+  if (await approvals.handleCallback(event)) {
+    return;
+  }
+  const accessDecision = parseAccessCallback(query.data);
+  if (accessDecision) {
+    await handleAccessCallback({ event, db, chat, cfg, logger, decision: accessDecision, callbackQueryId: query.id, messageId: query.messageId });
+    return;
+  }
+  const sessionId = parseSessionCallback(query.data);
+  if (sessionId) {
+    await resumeSessionFromButton({ event, db, manager, chat, cfg, isAgentEnabled, sessionId, callbackQueryId: query.id });
+    return;
+  }
+  logger.info("ignoring unknown callback query", { chatId: event.chatId, data: query.data });
+  await chat.answerCallbackQuery(query.id, "This button is no longer active.");
+}
+
+async function resumeSessionFromButton(args: {
+  event: InboundChatEvent;
+  db: Db;
+  manager: AgentManager;
+  chat: ChatAdapter;
+  cfg: CognalConfig;
+  isAgentEnabled: (cfg: CognalConfig, agent: AgentType) => boolean;
+  sessionId: string;
+  callbackQueryId: string;
+}): Promise<void> {
+  const { event, db, manager, chat, cfg, isAgentEnabled, sessionId, callbackQueryId } = args;
+  const user = await db.getUserByTelegramUserId(event.fromUserId);
+  if (!user || user.status !== "active") {
+    await chat.answerCallbackQuery(callbackQueryId, "You are not allowed to use this bot.");
+    return;
+  }
+  const isGroup = event.chatType === "group" || event.chatType === "supergroup" || event.chatType === "channel";
+  const sessionScope: SessionScope = isGroup ? await db.getChatSessionScope(event.chatId) : "user";
+  const scope = bindingScopeForEvent(user.id, event, sessionScope);
+  // Lookups are limited to the presser's own scope, so a list posted in a group only works for its owner.
+  const session = await db.getNamedSession(scope.key, { id: sessionId });
+  if (!session) {
+    await chat.answerCallbackQuery(callbackQueryId, "This session is not available here.");
+    return;
+  }
+  if (!isAgentEnabled(cfg, session.agent)) {
+    await chat.answerCallbackQuery(callbackQueryId, `Agent '${session.agent}' is disabled on this host.`);
+    return;
   }
+  await chat.answerCallbackQuery(callbackQueryId, `Resuming '${session.name}'`);
+  await chat.sendMessage(event.chatId, await resumeNamedSession({ manager, scope, session }), { threadId: event.threadId ?? null });
 }
 
 export async function runAttachmentCleanup(db: Db): Promise<void> {
@@ -0,0 +1,56 @@
+import type { InboundChatEvent } from "../adapters/chatAdapter.js";
+import type { Db } from "./db.js";
+import { Logger } from "./logger.js";
+
+export const INBOX_MAX_ATTEMPTS = 3;
+const INBOX_RETENTION_MS = 7 * 24 * 3600 * 1000;
+
+export interface InboxItem {
+  id: string;
+  event: InboundChatEvent;
+}
+
+export async function persistInboundEvents(db: Db, events: InboundChatEvent[]): Promise<InboxItem[]> {
+  const items: InboxItem[] = [];
+  for (const event of events) {
+    const id = await db.enqueueInboxItem(event.chatId, event.transportMessageId, JSON.stringify(event));
+    if (id) {
+      items.push({ id, event });
+    }
+  }
+  return items;
+}
+
+export async function loadUnfinishedInbox(db: Db, logger: Logger, maxAttempts = INBOX_MAX_ATTEMPTS): Promise<InboxItem[]> {
+  const records = await db.listUnfinishedInboxItems();
+  const items: InboxItem[] = [];
+  for (const record of records) {
+    if (record.attempts >= maxAttempts) {
+      // An item that keeps crashing the daemon must not block every restart.
+      await db.completeInboxItem(record.id, "failed", `gave up after ${record.attempts} attempts`);
+      logger.warn("dropping inbox item after repeated attempts", { inboxId: record.id, attempts: record.attempts });
+      continue;
+    }
+    try {
+      items.push({ id: record.id, event: JSON.parse(record.payload) as InboundChatEvent });
+    } catch (err) {
+      await db.completeInboxItem(record.id, "failed", `invalid payload: ${String(err)}`);
+    }
+  }
+  return items;
+}
+
+export async function runInboxItem(db: Db, item: InboxItem, handler: (event: InboundChatEvent) => Promise<void>): Promise<void> {
+  await db.markInboxProcessing(item.id);
+  try {
+    await handler(item.event);
+  } catch (err) {
+    await db.completeInboxItem(item.id, "failed", String(err));
+    throw err;
+  }
+  await db.completeInboxItem(item.id, "done");
+}
+
+export async function runInboxCleanup(db: Db): Promise<void> {
+  await db.pruneInbox(new Date(Date.now() - INBOX_RETENTION_MS).toISOString());
+}
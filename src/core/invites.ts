@@ -0,0 +1,40 @@
+import { createHash, randomBytes } from "node:crypto";
+import { getDefaultAgent, isAgentEnabled, isCustomAgent } from "../config.js";
+import type { CognalConfig } from "../config.js";
+import type { InboundChatEvent } from "../adapters/chatAdapter.js";
+import type { Db } from "./db.js";
+import { resolveUserRole } from "./roles.js";
+import { privateChatScope } from "./scope.js";
+
+export function generateInviteCode(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+// Only the hash is stored, so a leaked database does not hand out working invites.
+export function hashInviteCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+export function buildInviteLink(botUsername: string | undefined, code: string): string {
+  return botUsername ? `https://t.me/${botUsername}?start=${code}` : `/start ${code}`;
+}
+
+// Approves the sender when the code is valid. Returns the reply for the chat.
+export async function redeemInvite(args: { db: Db; cfg: CognalConfig; event: InboundChatEvent; code: string }): Promise<string> {
+  const { db, cfg, event } = args;
+  const invite = await db.redeemInvite(hashInviteCode(args.code), new Date().toISOString());
+  if (!invite) {
+    return "This invite link is invalid, expired or already used up. Ask an admin for a new one.";
+  }
+  const existing = await db.getUserByTelegramUserId(event.fromUserId);
+  const role = resolveUserRole(existing, cfg.agents.defaultRole);
+  const agent =
+    invite.agent && isAgentEnabled(cfg, invite.agent) && (!isCustomAgent(invite.agent) || role === "owner") ? invite.agent : getDefaultAgent(cfg);
+  const user = await db.approveAccessRequest(event.fromUserId, agent);
+  if (user) {
+    // approveAccessRequest only seeds a new binding; a returning user's private chat may still name another agent.
+    await db.setActiveAgent(privateChatScope(user.id, event.fromUserId).key, agent);
+  }
+  await db.touchTelegramUserSeen(event.fromUserId, event.fromUsername, event.displayName);
+  return `Welcome! Your invite was accepted and ${agent} is your active agent. Send a message to get started.`;
+}
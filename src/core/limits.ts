@@ -0,0 +1,77 @@
+import type { CognalConfig } from "../config.js";
+import type { UserLimits } from "../types.js";
+import type { Db } from "./db.js";
+import { formatCost } from "./usage.js";
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+export interface LimitRefusal {
+  limit: string;
+  resetsAt: Date;
+}
+
+export function effectiveLimits(cfg: CognalConfig, overrides: Partial<UserLimits>): UserLimits {
+  return { ...cfg.limits, ...overrides };
+}
+
+async function checkRunWindow(db: Db, userId: string, limit: number, windowMs: number, unit: string, now: Date): Promise<LimitRefusal | null> {
+  if (limit <= 0) {
+    return null;
+  }
+  const starts = await db.listAgentRunStarts(userId, new Date(now.getTime() - windowMs).toISOString());
+  if (starts.length < limit) {
+    return null;
+  }
+  // A slot frees up once enough of the oldest runs have aged out of the window.
+  const freeing = starts[starts.length - limit];
+  return { limit: `${limit} ${limit === 1 ? "run" : "runs"} per ${unit}`, resetsAt: new Date(Date.parse(freeing) + windowMs) };
+}
+
+async function checkSpend(db: Db, userId: string, limit: number, since: Date, resetsAt: Date, unit: string): Promise<LimitRefusal | null> {
+  if (limit <= 0) {
+    return null;
+  }
+  const [totals] = await db.summarizeAgentRuns({ by: "user", userId, since: since.toISOString() });
+  // Runs from CLIs that do not report cost count as free here; the run limits still apply to them.
+  if ((totals?.costUsd ?? 0) < limit) {
+    return null;
+  }
+  return { limit: `${formatCost(limit)} per ${unit}`, resetsAt };
+}
+
+// Returns the binding limit that blocks a new run, or null. When several are hit, the one that lasts longest wins.
+export async function checkUserLimits(db: Db, cfg: CognalConfig, userId: string, now = new Date()): Promise<LimitRefusal | null> {
+  const limits = effectiveLimits(cfg, await db.getUserLimits(userId));
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const refusals = [
+    await checkRunWindow(db, userId, limits.runsPerHour, HOUR_MS, "hour", now),
+    await checkRunWindow(db, userId, limits.runsPerDay, DAY_MS, "day", now),
+    await checkSpend(db, userId, limits.dailyUsd, dayStart, new Date(dayStart.getTime() + DAY_MS), "day"),
+    await checkSpend(db, userId, limits.monthlyUsd, monthStart, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)), "month")
+  ].filter((refusal): refusal is LimitRefusal => refusal !== null);
+  if (refusals.length === 0) {
+    return null;
+  }
+  return refusals.reduce((latest, refusal) => (refusal.resetsAt > latest.resetsAt ? refusal : latest));
+}
+
+function describeWait(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60_000));
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) {
+    return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
+
+export function formatLimitRefusal(refusal: LimitRefusal, now = new Date()): string {
+  const iso = refusal.resetsAt.toISOString();
+  const time = `${iso.slice(11, 16)} UTC`;
+  const when = iso.slice(0, 10) === now.toISOString().slice(0, 10) ? `at ${time}` : `on ${iso.slice(0, 10)} at ${time}`;
+  return `You've reached your limit of ${refusal.limit}. It resets ${when} (in ${describeWait(refusal.resetsAt.getTime() - now.getTime())}).`;
+}
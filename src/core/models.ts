@@ -0,0 +1,79 @@
+import type { CognalConfig } from "../config.js";
+import type { AgentManager } from "../agents/manager.js";
+import type { AgentType, BindingScope, ModelPreference } from "../types.js";
+import type { Db } from "./db.js";
+
+const USAGE = "Use /model <name>, /model effort <level>, or /model default.";
+
+function choicesFor(cfg: CognalConfig, agent: AgentType): { models: string[]; efforts: string[] } | null {
+  if (agent !== "claude" && agent !== "codex") {
+    return null;
+  }
+  return { models: cfg.agents[agent].models, efforts: cfg.agents[agent].reasoningEfforts };
+}
+
+function pick(options: string[], wanted: string): string | null {
+  return options.find((option) => option.toLowerCase() === wanted.toLowerCase()) ?? null;
+}
+
+function describe(agent: AgentType, preference: ModelPreference, choices: { models: string[]; efforts: string[] }): string {
+  const lines = [
+    `Model for ${agent}: ${preference.model ?? "CLI default"}`,
+    `Reasoning effort: ${preference.reasoningEffort ?? "CLI default"}`,
+    `Available models: ${choices.models.join(", ") || "none configured"}`
+  ];
+  if (choices.efforts.length > 0) {
+    lines.push(`Available efforts: ${choices.efforts.join(", ")}`);
+  }
+  lines.push(USAGE);
+  return lines.join("\n");
+}
+
+// Handles /model for the scope's active agent. Returns the reply for the chat.
+export async function handleModelCommand(args: {
+  db: Db;
+  manager: AgentManager;
+  cfg: CognalConfig;
+  scope: BindingScope;
+  defaultAgent: AgentType;
+  args: string | null;
+}): Promise<string> {
+  const { db, manager, cfg, scope } = args;
+  const agent = (await db.getBinding(scope, args.defaultAgent)).activeAgent;
+  const choices = choicesFor(cfg, agent);
+  if (!choices) {
+    return `Model selection is not available for ${agent}.`;
+  }
+  const current = await db.getModelPreference(scope.key, agent);
+  if (!args.args) {
+    return describe(agent, current, choices);
+  }
+
+  const [first, ...rest] = args.args.split(/\s+/);
+  if (first.toLowerCase() === "default") {
+    await manager.setModelPreference(scope, agent, { model: null, reasoningEffort: null });
+    return `Reset ${agent} to the CLI default model and reasoning effort.`;
+  }
+
+  if (first.toLowerCase() === "effort") {
+    const wanted = rest.join(" ");
+    if (wanted.toLowerCase() === "default") {
+      await manager.setModelPreference(scope, agent, { ...current, reasoningEffort: null });
+      return `Reset ${agent} reasoning effort to the CLI default.`;
+    }
+    const effort = pick(choices.efforts, wanted);
+    if (!effort) {
+      const available = choices.efforts.join(", ") || "none configured";
+      return `Unknown reasoning effort '${wanted}' for ${agent}. Available: ${available}.`;
+    }
+    await manager.setModelPreference(scope, agent, { ...current, reasoningEffort: effort });
+    return `Set ${agent} reasoning effort to ${effort}.`;
+  }
+
+  const model = rest.length === 0 ? pick(choices.models, first) : null;
+  if (!model) {
+    return `Unknown model '${args.args}' for ${agent}. Available: ${choices.models.join(", ") || "none configured"}.`;
+  }
+  await manager.setModelPreference(scope, agent, { ...current, model });
+  return `Set ${agent} model to ${model}.`;
+}
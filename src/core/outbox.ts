@@ -0,0 +1,98 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import mime from "mime-types";
+import { attachmentLimitBytes } from "../config.js";
+import type { CognalConfig } from "../config.js";
+import type { ChatAdapter } from "../adapters/chatAdapter.js";
+import { classifyAttachment } from "./attachments.js";
+import { Logger } from "./logger.js";
+
+// Telegram rejects photos above 10 MB; larger images still go out as documents.
+const TELEGRAM_PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+const PHOTO_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".webp"]);
+
+export async function createRunOutbox(outboxDir: string): Promise<string> {
+  const dir = path.join(outboxDir, `${Date.now()}-${randomUUID().split("-")[0]}`);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+export function buildOutboxInstructions(dir: string): string {
+  return [
+    `Outbox: to send files back to the user (images, patches, reports, build artifacts), write or copy them into ${dir}.`,
+    "Every file placed there is uploaded to this chat after your reply. Do not put anything else in that directory."
+  ].join("\n");
+}
+
+export async function deliverOutbox(args: {
+  chat: ChatAdapter;
+  chatId: string;
+  threadId?: string | null;
+  dir: string;
+  cfg: CognalConfig;
+  logger: Logger;
+}): Promise<number> {
+  const { chat, chatId, dir, cfg, logger } = args;
+  const threadId = args.threadId ?? null;
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).sort();
+  } catch {
+    return 0;
+  }
+
+  let delivered = 0;
+  for (const name of entries) {
+    if (name.startsWith(".")) {
+      continue;
+    }
+    const filePath = path.join(dir, name);
+    let stat: Awaited<ReturnType<typeof fs.lstat>>;
+    try {
+      stat = await fs.lstat(filePath);
+    } catch (err) {
+      logger.warn("failed reading outbox file", { chatId, file: name, error: String(err) });
+      continue;
+    }
+    // lstat, so a symlink planted in the outbox cannot upload a file from elsewhere on the host.
+    if (!stat.isFile()) {
+      if (stat.isSymbolicLink()) {
+        logger.warn("skipped symlink in outbox", { chatId, file: name });
+      }
+      continue;
+    }
+
+    const type = classifyAttachment(String(mime.lookup(name) || "application/octet-stream"), name);
+    const limitBytes = attachmentLimitBytes(cfg, type);
+    if (stat.size > limitBytes) {
+      await chat.sendMessage(
+        chatId,
+        `File not sent: '${name}' is too large for type '${type}'. Limit is ${Math.round(limitBytes / (1024 * 1024))} MB.`,
+        { threadId }
+      );
+      continue;
+    }
+
+    try {
+      if (type === "image" && PHOTO_EXTENSIONS.has(path.extname(name).toLowerCase()) && stat.size <= TELEGRAM_PHOTO_MAX_BYTES) {
+        await chat.sendPhoto(chatId, filePath, { threadId });
+      } else {
+        await chat.sendDocument(chatId, filePath, { threadId });
+      }
+      delivered += 1;
+    } catch (err) {
+      logger.warn("failed sending outbox file", { chatId, file: name, error: String(err) });
+      await chat.sendMessage(chatId, `File not sent: '${name}' could not be uploaded.`, { threadId });
+    }
+  }
+  return delivered;
+}
+
+export async function removeRunOutbox(dir: string): Promise<void> {
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+  } catch {
+    // ignore cleanup misses
+  }
+}
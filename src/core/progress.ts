@@ -0,0 +1,121 @@
+import type { ChatAdapter } from "../adapters/chatAdapter.js";
+import type { AgentProgressEvent } from "../agents/agentAdapter.js";
+import { Logger } from "./logger.js";
+
+const MAX_VISIBLE_STEPS = 8;
+const MAX_STEP_LENGTH = 160;
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > max ? `${singleLine.slice(0, max - 3)}...` : singleLine;
+}
+
+function formatElapsed(ms: number): string {
+  const totalSec = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSec / 60);
+  const seconds = totalSec % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function formatStep(event: AgentProgressEvent): string {
+  switch (event.kind) {
+    case "file_edit":
+      return `• Edited: ${truncate(event.detail, MAX_STEP_LENGTH)}`;
+    case "tool":
+      return `• ${truncate(event.detail, MAX_STEP_LENGTH)}`;
+    default:
+      return `> ${truncate(event.detail, MAX_STEP_LENGTH)}`;
+  }
+}
+
+export class ProgressReporter {
+  private messageId: string | null = null;
+  private readonly steps: string[] = [];
+  private stepCount = 0;
+  private readonly startedAt = Date.now();
+  private lastEditAt = 0;
+  private editTimer: NodeJS.Timeout | null = null;
+  private editChain: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(
+    private readonly chat: ChatAdapter,
+    private readonly chatId: string,
+    private readonly threadId: string | null,
+    private readonly minEditIntervalMs: number,
+    private readonly logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    try {
+      this.messageId = await this.chat.sendMessage(this.chatId, "Working...", { threadId: this.threadId });
+      this.lastEditAt = Date.now();
+    } catch (err) {
+      this.logger.warn("failed posting progress message", { chatId: this.chatId, error: String(err) });
+    }
+  }
+
+  push(event: AgentProgressEvent): void {
+    if (this.finished) {
+      return;
+    }
+    this.stepCount += 1;
+    this.steps.push(formatStep(event));
+    if (this.steps.length > MAX_VISIBLE_STEPS) {
+      this.steps.splice(0, this.steps.length - MAX_VISIBLE_STEPS);
+    }
+    this.scheduleEdit();
+  }
+
+  async finish(outcome: "done" | "failed" | "cancelled"): Promise<void> {
+    this.finished = true;
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = null;
+    }
+    const label = outcome === "done" ? "Finished" : outcome === "cancelled" ? "Cancelled" : "Failed";
+    const stepsLabel = this.stepCount === 1 ? "1 step" : `${this.stepCount} steps`;
+    this.enqueueEdit(`${label} after ${formatElapsed(Date.now() - this.startedAt)} (${stepsLabel}).`);
+    await this.editChain;
+  }
+
+  private scheduleEdit(): void {
+    if (this.editTimer) {
+      return;
+    }
+    // Telegram throttles edits per chat, so coalesce bursts of tool calls into one edit per interval.
+    const waitMs = Math.max(0, this.lastEditAt + this.minEditIntervalMs - Date.now());
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      if (!this.finished) {
+        this.enqueueEdit(this.render());
+      }
+    }, waitMs);
+  }
+
+  private render(): string {
+    const hidden = this.stepCount - this.steps.length;
+    const lines = [`Working... (${formatElapsed(Date.now() - this.startedAt)})`];
+    if (hidden > 0) {
+      lines.push(`(${hidden} earlier steps)`);
+    }
+    lines.push(...this.steps);
+    return lines.join("\n");
+  }
+
+  private enqueueEdit(text: string): void {
+    const messageId = this.messageId;
+    if (!messageId) {
+      return;
+    }
+    this.editChain = this.editChain.then(async () => {
+      try {
+        await this.chat.editMessageText(this.chatId, messageId, text);
+      } catch (err) {
+        this.logger.warn("failed updating progress message", { chatId: this.chatId, error: String(err) });
+      } finally {
+        this.lastEditAt = Date.now();
+      }
+    });
+  }
+}
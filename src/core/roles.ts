@@ -0,0 +1,46 @@
+import type { UserRole } from "../types.js";
+
+export const USER_ROLES: readonly UserRole[] = ["viewer", "developer", "owner"];
+
+const READ_TOOLS = ["Read", "Glob", "Grep", "LS", "TodoWrite"];
+const EDIT_TOOLS = ["Edit", "MultiEdit", "Write", "NotebookEdit"];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function resolveUserRole(user: { role: UserRole | null } | null, defaultRole: UserRole): UserRole {
+  return user?.role ?? defaultRole;
+}
+
+export interface ClaudeRolePolicy {
+  permissionMode: "default" | "bypassPermissions";
+  // Tools the permission handler may allow; they are never passed to the SDK as allowedTools.
+  permittedTools: string[];
+  disallowedTools: string[];
+}
+
+// Non-owners are held to permittedTools: any other tool, and any write outside the workspace, is denied without asking.
+// Nothing is pre-approved for them (no allowedTools, no acceptEdits), so every such call reaches canUseTool.
+export function claudeRolePolicy(role: UserRole): ClaudeRolePolicy {
+  switch (role) {
+    case "viewer":
+      return { permissionMode: "default", permittedTools: READ_TOOLS, disallowedTools: [...EDIT_TOOLS, "Bash", "WebFetch", "WebSearch"] };
+    case "developer":
+      return { permissionMode: "default", permittedTools: [...READ_TOOLS, ...EDIT_TOOLS], disallowedTools: [] };
+    case "owner":
+      return { permissionMode: "bypassPermissions", permittedTools: [], disallowedTools: [] };
+  }
+}
+
+// codex exec cannot ask for per-call approval, so only owners outside approval mode leave the sandbox.
+// writableDirs are added to a workspace-write sandbox next to the working directory.
+export function codexSandboxArgs(role: UserRole, approvals: boolean, writableDirs: string[] = []): string[] {
+  if (role === "viewer") {
+    return ["--sandbox", "read-only"];
+  }
+  if (role === "developer" || approvals) {
+    return ["--sandbox", "workspace-write", ...writableDirs.flatMap((dir) => ["--add-dir", dir])];
+  }
+  return ["--dangerously-bypass-approvals-and-sandbox"];
+}
@@ -1,22 +1,80 @@
 import type { AgentType } from "../types.js";
+import type { WorktreeCommand } from "./worktrees.js";
+
+const BUILTIN_AGENTS: readonly AgentType[] = ["claude", "codex"];
+
+// Commands Cognal handles itself; custom agents may not use these names.
+export const RESERVED_COMMANDS: readonly string[] = [
+  "cancel",
+  "clear",
+  "start",
+  "help",
+  "new",
+  "sessions",
+  "resume",
+  "model",
+  "usage",
+  "diff",
+  "undo",
+  "branch",
+  "merge",
+  "sync",
+  "approve",
+  "revoke",
+  "users",
+  "allowchat"
+];
+
+const ADMIN_COMMANDS = ["approve", "revoke", "users", "allowchat"] as const;
+
+export type AdminCommand = (typeof ADMIN_COMMANDS)[number];
+
+const CONTROL_COMMANDS: readonly string[] = [
+  "cancel",
+  "start",
+  "new",
+  "sessions",
+  "resume",
+  "model",
+  "usage",
+  "diff",
+  "undo",
+  "branch",
+  "merge",
+  "sync",
+  ...ADMIN_COMMANDS
+];
 
 export type RouteDecision =
   | { type: "switch_agent"; agent: AgentType }
+  | { type: "cancel" }
+  | { type: "new_session"; name: string | null }
+  | { type: "list_sessions" }
+  | { type: "resume_session"; name: string | null }
+  | { type: "model"; args: string | null }
+  | { type: "usage" }
+  | { type: "checkpoint"; command: "diff" | "undo"; all?: true }
+  | { type: "worktree"; command: WorktreeCommand }
+  | { type: "admin"; command: AdminCommand; args: string | null }
+  | { type: "invite"; code: string }
   | { type: "passthrough"; payload: string }
   | { type: "message"; payload: string };
 
-function normalizeSwitchCommand(rawText: string, botUsername?: string): string {
+function normalizeSwitchCommand(rawText: string, botUsername: string | undefined, agents: readonly AgentType[]): string {
   const trimmed = rawText.trim();
   const firstSpace = trimmed.indexOf(" ");
   const firstToken = firstSpace === -1 ? trimmed : trimmed.slice(0, firstSpace);
   const rest = firstSpace === -1 ? "" : trimmed.slice(firstSpace);
 
-  const match = firstToken.match(/^\/(claude|codex)(?:@([A-Za-z0-9_]+))?$/i);
+  const match = firstToken.match(/^\/([A-Za-z0-9_]+)(?:@([A-Za-z0-9_]+))?$/);
   if (!match) {
     return rawText;
   }
 
   const target = match[1].toLowerCase();
+  if (!CONTROL_COMMANDS.includes(target) && !agents.includes(target)) {
+    return rawText;
+  }
   const mention = match[2];
   if (mention && botUsername && mention.toLowerCase() !== botUsername.toLowerCase()) {
     return rawText;
@@ -24,21 +82,56 @@ function normalizeSwitchCommand(rawText: string, botUsername?: string): string {
   return `/${target}${rest}`;
 }
 
-export function routeTextInput(rawText: string, botUsername?: string): RouteDecision {
-  const normalized = normalizeSwitchCommand(rawText, botUsername);
+export function routeTextInput(rawText: string, botUsername?: string, agents: readonly AgentType[] = BUILTIN_AGENTS): RouteDecision {
+  const normalized = normalizeSwitchCommand(rawText, botUsername, agents);
   const text = normalized.trim();
-  if (text === "/claude") {
-    return { type: "switch_agent", agent: "claude" };
+  const agent = text.startsWith("/") ? text.slice(1) : "";
+  if (agent && agents.includes(agent)) {
+    return { type: "switch_agent", agent };
+  }
+  if (text === "/cancel") {
+    return { type: "cancel" };
+  }
+  if (text === "/usage") {
+    return { type: "usage" };
   }
-  if (text === "/codex") {
-    return { type: "switch_agent", agent: "codex" };
+  if (text === "/diff" || text === "/undo") {
+    return { type: "checkpoint", command: text === "/diff" ? "diff" : "undo" };
+  }
+  if (/^\/undo\s+all$/.test(text)) {
+    return { type: "checkpoint", command: "undo", all: true };
+  }
+  if (text === "/branch" || text === "/merge" || text === "/sync") {
+    return { type: "worktree", command: text.slice(1) as WorktreeCommand };
+  }
+  const sessionCommand = text.match(/^\/(new|sessions|resume)(?:\s+(.*))?$/s);
+  if (sessionCommand) {
+    const arg = sessionCommand[2]?.trim() || null;
+    if (sessionCommand[1] === "new") {
+      return { type: "new_session", name: arg };
+    }
+    if (sessionCommand[1] === "resume") {
+      return { type: "resume_session", name: arg };
+    }
+    if (!arg) {
+      return { type: "list_sessions" };
+    }
+  }
+  const modelCommand = text.match(/^\/model(?:\s+(.*))?$/s);
+  if (modelCommand) {
+    return { type: "model", args: modelCommand[1]?.trim() || null };
+  }
+  // Deep links (t.me/<bot>?start=<code>) arrive as "/start <code>"; a bare /start is left alone.
+  const startCommand = text.match(/^\/start\s+([A-Za-z0-9_-]{1,64})$/);
+  if (startCommand) {
+    return { type: "invite", code: startCommand[1] };
+  }
+  const adminCommand = text.match(/^\/(approve|revoke|users|allowchat)(?:\s+(.*))?$/s);
+  if (adminCommand) {
+    return { type: "admin", command: adminCommand[1] as AdminCommand, args: adminCommand[2]?.trim() || null };
   }
   if (text.startsWith("/")) {
     return { type: "passthrough", payload: normalized };
   }
   return { type: "message", payload: normalized };
 }
-
-export function otherAgent(agent: AgentType): AgentType {
-  return agent === "claude" ? "codex" : "claude";
-}
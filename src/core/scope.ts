@@ -0,0 +1,32 @@
+import type { BindingScope, SessionScope } from "../types.js";
+
+export function bindingScopeKey(userId: string, chatId: string | null, threadId: string | null = null): string {
+  if (!chatId) {
+    return userId;
+  }
+  return threadId ? `${userId}:${chatId}:${threadId}` : `${userId}:${chatId}`;
+}
+
+export function bindingScopeForEvent(
+  userId: string,
+  event: { chatId: string; threadId?: string | null },
+  sessionScope: SessionScope = "user"
+): BindingScope {
+  const threadId = event.threadId ?? null;
+  if (sessionScope === "chat") {
+    // Shared chat sessions belong to the chat; userId only records who opened the binding.
+    const key = threadId ? `chat:${event.chatId}:${threadId}` : `chat:${event.chatId}`;
+    return { key, userId, chatId: event.chatId, threadId };
+  }
+  return { key: bindingScopeKey(userId, event.chatId, threadId), userId, chatId: event.chatId, threadId };
+}
+
+// Telegram private chat IDs equal the user's Telegram ID, so this is the scope of a user's direct messages.
+export function privateChatScope(userId: string, telegramUserId: string | null): BindingScope {
+  return { key: bindingScopeKey(userId, telegramUserId), userId, chatId: telegramUserId, threadId: null };
+}
+
+// Shared scopes hold every member's messages, so transcripts for them are read chat-wide.
+export function isSharedScope(scope: BindingScope): boolean {
+  return scope.key.startsWith("chat:");
+}
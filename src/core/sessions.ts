@@ -0,0 +1,81 @@
+import type { InlineKeyboardButton } from "../adapters/chatAdapter.js";
+import type { AgentManager } from "../agents/manager.js";
+import type { AgentType, BindingScope, NamedSessionRecord } from "../types.js";
+import type { Db } from "./db.js";
+
+const SESSION_NAME = /^[A-Za-z0-9_.-]{1,32}$/;
+const CALLBACK_PREFIX = "rs";
+const MAX_LISTED_SESSIONS = 20;
+
+async function unusedName(db: Db, scopeKey: string, base: string): Promise<string> {
+  const taken = new Set((await db.listNamedSessions(scopeKey)).map((session) => session.name));
+  if (!taken.has(base)) {
+    return base;
+  }
+  let index = 2;
+  while (taken.has(`${base}-${index}`)) {
+    index += 1;
+  }
+  return `${base}-${index}`;
+}
+
+export function isValidSessionName(name: string): boolean {
+  return SESSION_NAME.test(name);
+}
+
+// Starts a fresh session for the active agent. Returns the reply for the chat.
+export async function startNamedSession(args: {
+  db: Db;
+  manager: AgentManager;
+  scope: BindingScope;
+  defaultAgent: AgentType;
+  name: string | null;
+}): Promise<string> {
+  const { db, manager, scope } = args;
+  if (args.name !== null && !isValidSessionName(args.name)) {
+    return "Session names may use letters, digits, '.', '_' and '-' (up to 32 characters).";
+  }
+  if (args.name !== null && (await db.getNamedSession(scope.key, { name: args.name }))) {
+    return `A session named '${args.name}' already exists. Use /resume ${args.name} to continue it.`;
+  }
+
+  const binding = await db.getBinding(scope, args.defaultAgent);
+  const agent = binding.activeAgent;
+  const lines: string[] = [];
+  // The conversation from before named sessions existed would otherwise be lost on the first /new.
+  const currentRef = binding.sessionRefs[agent];
+  if (!binding.activeSessionId && currentRef) {
+    const saved = await db.createNamedSession(scope.key, await unusedName(db, scope.key, "previous"), agent, currentRef);
+    lines.push(`The previous conversation is saved as '${saved.name}'.`);
+  }
+
+  const name = args.name ?? (await unusedName(db, scope.key, `session-${(await db.listNamedSessions(scope.key)).length + 1}`));
+  const session = await db.createNamedSession(scope.key, name, agent, null);
+  await manager.switchSession(scope, agent, null, session.id);
+  lines.unshift(`Started new ${agent} session '${name}'.`);
+  return lines.join("\n");
+}
+
+export async function resumeNamedSession(args: {
+  manager: AgentManager;
+  scope: BindingScope;
+  session: NamedSessionRecord;
+}): Promise<string> {
+  const { manager, scope, session } = args;
+  await manager.switchSession(scope, session.agent, session.sessionRef, session.id);
+  return `Resumed session '${session.name}' (${session.agent}).`;
+}
+
+export function buildSessionsKeyboard(sessions: NamedSessionRecord[], activeSessionId: string | null): InlineKeyboardButton[][] {
+  return sessions.slice(0, MAX_LISTED_SESSIONS).map((session) => [
+    {
+      text: `${session.id === activeSessionId ? "• " : ""}${session.name} (${session.agent})`,
+      callbackData: `${CALLBACK_PREFIX}:${session.id}`
+    }
+  ]);
+}
+
+export function parseSessionCallback(data: string): string | null {
+  const match = data.match(/^rs:([0-9a-f-]{36})$/);
+  return match ? match[1] : null;
+}
@@ -172,66 +172,130 @@ export function formatTelegramHtml(text: string): string {
   return output.join("\n").replace(/\n{3,}/g, "\n\n").trim();
 }
 
-export function chunkTelegramHtml(html: string, size: number): string[] {
-  if (html.length <= size) {
-    return [html];
+export function buildReplyPreview(markdown: string, maxChars: number): string {
+  const paragraphs = markdown.replace(/\r\n/g, "\n").trim().split(/\n{2,}/);
+  let preview = "";
+  for (const paragraph of paragraphs) {
+    const next = preview ? `${preview}\n\n${paragraph}` : paragraph;
+    if (next.length > maxChars) {
+      break;
+    }
+    preview = next;
   }
+  if (!preview) {
+    preview = `${paragraphs[0].slice(0, maxChars).trimEnd()}...`;
+  }
+  // Formatting the cut Markdown (instead of cutting formatted HTML) keeps every tag closed.
+  return formatTelegramHtml(preview);
+}
 
-  const paragraphs = html.split(/\n{2,}/);
-  const chunks: string[] = [];
-  let current = "";
+interface HtmlToken {
+  text: string;
+  kind: "open" | "close" | "text";
+  name?: string;
+}
 
-  const pushCurrent = (): void => {
-    if (current.trim()) {
-      chunks.push(current.trim());
-      current = "";
-    }
-  };
+interface OpenTag {
+  name: string;
+  open: string;
+}
 
-  for (const paragraph of paragraphs) {
-    const piece = paragraph.trim();
-    if (!piece) {
-      continue;
+function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  // Tags and entities are atomic so a chunk boundary can never fall inside them.
+  const pattern = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)[^>]*>|&#?[a-zA-Z0-9]+;|[\s\S]/g;
+  for (const match of html.matchAll(pattern)) {
+    if (match[2]) {
+      tokens.push({ text: match[0], kind: match[1] ? "close" : "open", name: match[2].toLowerCase() });
+    } else {
+      tokens.push({ text: match[0], kind: "text" });
     }
+  }
+  return tokens;
+}
 
-    const candidate = current ? `${current}\n\n${piece}` : piece;
-    if (candidate.length <= size) {
-      current = candidate;
-      continue;
-    }
+function applyToken(stack: OpenTag[], token: HtmlToken): OpenTag[] {
+  if (token.kind === "open" && token.name) {
+    return [...stack, { name: token.name, open: token.text }];
+  }
+  if (token.kind === "close") {
+    const idx = stack.map((tag) => tag.name).lastIndexOf(token.name ?? "");
+    return idx === -1 ? stack : stack.slice(0, idx);
+  }
+  return stack;
+}
 
-    pushCurrent();
+function closingTags(stack: OpenTag[]): string {
+  return [...stack]
+    .reverse()
+    .map((tag) => `</${tag.name}>`)
+    .join("");
+}
 
-    if (piece.length <= size) {
-      current = piece;
-      continue;
-    }
+function insidePre(stack: OpenTag[]): boolean {
+  return stack.some((tag) => tag.name === "pre");
+}
 
-    const lines = piece.split("\n");
-    let lineChunk = "";
-    for (const line of lines) {
-      const next = lineChunk ? `${lineChunk}\n${line}` : line;
-      if (next.length <= size) {
-        lineChunk = next;
-        continue;
-      }
-      if (lineChunk) {
-        chunks.push(lineChunk.trim());
+export function chunkTelegramHtml(html: string, size: number): string[] {
+  if (html.length <= size) {
+    return [html];
+  }
+
+  const tokens = tokenizeHtml(html);
+  const chunks: string[] = [];
+  let stack: OpenTag[] = [];
+  let index = 0;
+
+  while (index < tokens.length) {
+    const prefix = stack.map((tag) => tag.open).join("");
+    let content = "";
+    let localStack = stack;
+    let cursor = index;
+    // Prefer cutting at the last paragraph break, then the last line break, then wherever the budget runs out.
+    let best: { index: number; content: string; stack: OpenTag[]; rank: number } | null = null;
+
+    while (cursor < tokens.length) {
+      const token = tokens[cursor];
+      const nextStack = applyToken(localStack, token);
+      const length = prefix.length + content.length + token.text.length + closingTags(nextStack).length;
+      if (length > size && cursor > index) {
+        break;
       }
-      if (line.length <= size) {
-        lineChunk = line;
-      } else {
-        let index = 0;
-        while (index < line.length) {
-          chunks.push(line.slice(index, index + size).trim());
-          index += size;
+      content += token.text;
+      localStack = nextStack;
+      cursor += 1;
+      if (token.text === "\n") {
+        const rank = content.endsWith("\n\n") ? 2 : 1;
+        if (!best || rank >= best.rank) {
+          best = { index: cursor, content, stack: localStack, rank };
         }
-        lineChunk = "";
       }
     }
-    current = lineChunk;
+
+    if (cursor < tokens.length && best) {
+      cursor = best.index;
+      content = best.content;
+      localStack = best.stack;
+    }
+
+    // Inside <pre> only line breaks are trimmed, so code keeps its indentation across chunks.
+    const body = content.replace(insidePre(stack) ? /^\n+/ : /^\s+/, "").replace(insidePre(localStack) ? /\n+$/ : /\s+$/, "");
+    if (body.replace(/<[^>]*>/g, "").trim()) {
+      chunks.push(`${prefix}${body}${closingTags(localStack)}`);
+    }
+    stack = localStack;
+    index = cursor;
   }
 
-  pushCurrent();
   return chunks.length > 0 ? chunks : [html];
 }
+
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,41 @@
+import type { UsageTotals } from "../types.js";
+import type { Db } from "./db.js";
+import { parseDurationMs } from "./utils.js";
+
+// Accepts a relative window such as "24h", "7d" or "2w", or any date Date can parse.
+export function parseSince(value: string, now = new Date()): string {
+  const relativeMs = parseDurationMs(value);
+  if (relativeMs !== null) {
+    return new Date(now.getTime() - relativeMs).toISOString();
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error(`Invalid --since value: ${value} (use e.g. 7d, 24h or 2025-01-31)`);
+  }
+  return parsed.toISOString();
+}
+
+export function formatCost(costUsd: number | null): string {
+  return costUsd === null ? "-" : `$${costUsd.toFixed(2)}`;
+}
+
+function describeTotals(totals: UsageTotals | undefined): string {
+  if (!totals) {
+    return "no runs";
+  }
+  const runs = `${totals.runs} ${totals.runs === 1 ? "run" : "runs"}`;
+  const tokens = `${totals.inputTokens.toLocaleString("en-US")} input / ${totals.outputTokens.toLocaleString("en-US")} output tokens`;
+  return totals.costUsd === null ? `${runs}, ${tokens}` : `${runs}, ${tokens}, ${formatCost(totals.costUsd)}`;
+}
+
+// Reply for /usage: the caller's own runs only, never other members'.
+export async function buildUsageReply(db: Db, userId: string, now = new Date()): Promise<string> {
+  const day = await db.summarizeAgentRuns({ by: "user", userId, since: parseSince("24h", now) });
+  const month = await db.summarizeAgentRuns({ by: "user", userId, since: parseSince("30d", now) });
+  const byAgent = await db.summarizeAgentRuns({ by: "agent", userId, since: parseSince("30d", now) });
+  const lines = ["Your usage:", `Last 24 hours: ${describeTotals(day[0])}`, `Last 30 days: ${describeTotals(month[0])}`];
+  for (const agent of byAgent) {
+    lines.push(`- ${agent.key}: ${describeTotals(agent)}`);
+  }
+  return lines.join("\n");
+}
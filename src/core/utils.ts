@@ -36,6 +36,7 @@ export function runCommand(
     env?: NodeJS.ProcessEnv;
     timeoutMs?: number;
     stdin?: string;
+    signal?: AbortSignal;
   } = {}
 ): Promise<CommandResult> {
   return new Promise((resolve) => {
@@ -61,48 +62,88 @@ export function runCommand(
     }
 
     let timedOut = false;
+    let cancelled = false;
     let timeoutHandle: NodeJS.Timeout | null = null;
     let forceKillHandle: NodeJS.Timeout | null = null;
+    const terminate = (): void => {
+      if (forceKillHandle) {
+        return;
+      }
+      proc.kill("SIGTERM");
+      forceKillHandle = setTimeout(() => {
+        try {
+          proc.kill("SIGKILL");
+        } catch {
+          // ignore hard-kill errors
+        }
+      }, 3000);
+    };
+    const onAbort = (): void => {
+      cancelled = true;
+      terminate();
+    };
     if (options.timeoutMs && options.timeoutMs > 0) {
       timeoutHandle = setTimeout(() => {
         timedOut = true;
-        proc.kill("SIGTERM");
-        forceKillHandle = setTimeout(() => {
-          try {
-            proc.kill("SIGKILL");
-          } catch {
-            // ignore hard-kill errors
-          }
-        }, 3000);
+        terminate();
       }, options.timeoutMs);
     }
-
-    proc.on("close", (code) => {
+    if (options.signal) {
+      if (options.signal.aborted) {
+        onAbort();
+      } else {
+        options.signal.addEventListener("abort", onAbort, { once: true });
+      }
+    }
+    const cleanup = (): void => {
       if (timeoutHandle) {
         clearTimeout(timeoutHandle);
       }
       if (forceKillHandle) {
         clearTimeout(forceKillHandle);
       }
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+
+    proc.on("close", (code) => {
+      cleanup();
+      const suffix = timedOut ? "\nTimed out" : cancelled ? "\nCancelled" : "";
       resolve({
-        code: timedOut ? -1 : code ?? 0,
+        code: timedOut || cancelled ? -1 : code ?? 0,
         stdout,
-        stderr: timedOut ? `${stderr}\nTimed out` : stderr
+        stderr: `${stderr}${suffix}`
       });
     });
 
     proc.on("error", (err) => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-      }
-      if (forceKillHandle) {
-        clearTimeout(forceKillHandle);
-      }
+      cleanup();
       resolve({ code: -1, stdout, stderr: `${stderr}\n${err.message}` });
     });
   });
 }
 
+// Runs git and returns stdout, throwing with git's own message on failure unless allowFailure is set.
+export async function runGit(
+  cwd: string,
+  args: string[],
+  options: { env?: Record<string, string>; allowFailure?: boolean; timeoutMs?: number; stdin?: string } = {}
+): Promise<string> {
+  const result = await runCommand("git", args, {
+    cwd,
+    env: { ...process.env, ...options.env },
+    timeoutMs: options.timeoutMs ?? 60_000,
+    stdin: options.stdin
+  });
+  if (result.code !== 0) {
+    if (options.allowFailure) {
+      return "";
+    }
+    const subcommand = args.find((arg) => !arg.startsWith("-")) ?? "";
+    throw new Error(`git ${subcommand} failed: ${result.stderr.trim()}`);
+  }
+  return result.stdout;
+}
+
 export async function retryAsync<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
   const maxAttempts = Math.max(1, options.attempts);
   let attempt = 1;
@@ -188,6 +229,14 @@ export async function ensureDir(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
+const DURATION_UNIT_MS: Record<string, number> = { h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// Parses windows such as "24h", "7d" or "2w"; null for anything else.
+export function parseDurationMs(value: string): number | null {
+  const match = value.trim().match(/^(\d+)([hdw])$/i);
+  return match ? Number(match[1]) * DURATION_UNIT_MS[match[2].toLowerCase()] : null;
+}
+
 export function nowIso(): string {
   return new Date().toISOString();
 }
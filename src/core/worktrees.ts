@@ -0,0 +1,216 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AgentManager } from "../agents/manager.js";
+import type { BindingScope, UserRole } from "../types.js";
+import { formatFileList } from "./checkpoints.js";
+import { isSharedScope } from "./scope.js";
+import { runGit } from "./utils.js";
+
+export type WorktreeCommand = "branch" | "merge" | "sync";
+
+// Commits Cognal makes on a user's branch before merging, so pending agent edits are not left behind.
+const COMMIT_ENV = {
+  GIT_AUTHOR_NAME: "Cognal",
+  GIT_AUTHOR_EMAIL: "cognal@localhost",
+  GIT_COMMITTER_NAME: "Cognal",
+  GIT_COMMITTER_EMAIL: "cognal@localhost"
+};
+
+export interface WorktreePaths {
+  projectRoot: string;
+  cognalDir: string;
+}
+
+export interface WorktreeStatus {
+  branch: string;
+  dir: string;
+  base: string;
+  ahead: number;
+  behind: number;
+  changedFiles: number;
+}
+
+export type MergeResult =
+  | { kind: "merged"; commits: number }
+  | { kind: "up_to_date" }
+  | { kind: "dirty"; files: string[] }
+  | { kind: "conflict"; files: string[] }
+  | { kind: "failed"; detail: string };
+
+function lines(output: string): string[] {
+  return output.split("\n").map((line) => line.trimEnd()).filter(Boolean);
+}
+
+// One git worktree per user or per session under .cognal/worktrees, each on its own cognal/<key> branch.
+export class GitWorktrees {
+  private readonly creating = new Map<string, Promise<string>>();
+
+  constructor(
+    private readonly paths: WorktreePaths,
+    private readonly mode: "user" | "session"
+  ) {}
+
+  // A shared chat session always gets its own worktree: keyed by the sender, it would move between members' branches.
+  keyFor(scope: BindingScope): string {
+    const raw = this.mode === "user" && !isSharedScope(scope) ? scope.userId : scope.key;
+    return raw.toLowerCase().replace(/[^a-z0-9_-]+/g, "-").replace(/^-+|-+$/g, "") || "default";
+  }
+
+  branchFor(scope: BindingScope): string {
+    return `cognal/${this.keyFor(scope)}`;
+  }
+
+  // Creates the worktree on first use; concurrent callers for the same key share one creation.
+  async workdirFor(scope: BindingScope): Promise<string> {
+    const key = this.keyFor(scope);
+    const dir = path.join(this.paths.cognalDir, "worktrees", key);
+    try {
+      await fs.stat(path.join(dir, ".git"));
+      return dir;
+    } catch {
+      // not created yet, or removed by hand
+    }
+    let pending = this.creating.get(key);
+    if (!pending) {
+      pending = this.create(dir, `cognal/${key}`).finally(() => this.creating.delete(key));
+      this.creating.set(key, pending);
+    }
+    return await pending;
+  }
+
+  async status(scope: BindingScope): Promise<WorktreeStatus> {
+    const dir = await this.workdirFor(scope);
+    const branch = this.branchFor(scope);
+    const base = await this.baseBranch();
+    const [behind, ahead] = (await runGit(dir, ["rev-list", "--left-right", "--count", "--no-merges", `${base}...${branch}`])).trim().split(/\s+/).map(Number);
+    const changedFiles = lines(await runGit(dir, ["status", "--porcelain"])).length;
+    return { branch, dir, base, ahead, behind, changedFiles };
+  }
+
+  // Merges the user's branch into the branch checked out in the project root.
+  async merge(scope: BindingScope): Promise<MergeResult> {
+    const dir = await this.workdirFor(scope);
+    const branch = this.branchFor(scope);
+    const base = await this.baseBranch();
+    const dirty = lines(await runGit(this.paths.projectRoot, ["status", "--porcelain", "--untracked-files=no"])).map((line) => line.slice(3));
+    if (dirty.length > 0) {
+      return { kind: "dirty", files: dirty };
+    }
+    await this.commitPending(dir, `Cognal: changes on ${branch}`);
+    const commits = Number((await runGit(dir, ["rev-list", "--count", "--no-merges", `${base}..${branch}`])).trim());
+    if (commits === 0) {
+      return { kind: "up_to_date" };
+    }
+    const failure = await this.mergeInto(this.paths.projectRoot, branch, `Merge ${branch} into ${base}`);
+    return failure ?? { kind: "merged", commits };
+  }
+
+  // Brings the project root's branch into the user's branch.
+  async sync(scope: BindingScope): Promise<MergeResult> {
+    const dir = await this.workdirFor(scope);
+    const branch = this.branchFor(scope);
+    const base = await this.baseBranch();
+    await this.commitPending(dir, `Cognal: changes on ${branch}`);
+    const commits = Number((await runGit(dir, ["rev-list", "--count", "--no-merges", `${branch}..${base}`])).trim());
+    if (commits === 0) {
+      return { kind: "up_to_date" };
+    }
+    const failure = await this.mergeInto(dir, base, `Merge ${base} into ${branch}`);
+    return failure ?? { kind: "merged", commits };
+  }
+
+  private async create(dir: string, branch: string): Promise<string> {
+    const root = this.paths.projectRoot;
+    if (!(await runGit(root, ["rev-parse", "--verify", "-q", "HEAD"], { allowFailure: true })).trim()) {
+      throw new Error("Worktree isolation needs a git repository with at least one commit");
+    }
+    // Forgets worktrees whose directory was deleted, so the branch can be checked out again.
+    await runGit(root, ["worktree", "prune"]);
+    const branchExists = Boolean((await runGit(root, ["rev-parse", "--verify", "-q", `refs/heads/${branch}`], { allowFailure: true })).trim());
+    await fs.mkdir(path.dirname(dir), { recursive: true });
+    await runGit(root, ["worktree", "add", "-q", ...(branchExists ? [dir, branch] : ["-b", branch, dir, "HEAD"])]);
+    return dir;
+  }
+
+  private async baseBranch(): Promise<string> {
+    const base = (await runGit(this.paths.projectRoot, ["symbolic-ref", "-q", "--short", "HEAD"], { allowFailure: true })).trim();
+    if (!base) {
+      throw new Error("The project root is on a detached HEAD; check out a branch to merge with");
+    }
+    return base;
+  }
+
+  private async commitPending(dir: string, message: string): Promise<void> {
+    if (lines(await runGit(dir, ["status", "--porcelain"])).length === 0) {
+      return;
+    }
+    await runGit(dir, ["add", "-A"]);
+    await runGit(dir, ["commit", "-q", "--no-verify", "-m", message], { env: COMMIT_ENV });
+  }
+
+  // Leaves nothing half-merged: on conflicts the merge is aborted and the files are reported.
+  private async mergeInto(cwd: string, source: string, message: string): Promise<MergeResult | null> {
+    try {
+      await runGit(cwd, ["merge", "--no-ff", "--no-edit", "-m", message, source], { env: COMMIT_ENV });
+      return null;
+    } catch (err) {
+      const conflicts = lines(await runGit(cwd, ["diff", "--name-only", "--diff-filter=U"], { allowFailure: true }));
+      if (await runGit(cwd, ["rev-parse", "-q", "--verify", "MERGE_HEAD"], { allowFailure: true })) {
+        await runGit(cwd, ["merge", "--abort"]);
+      }
+      return conflicts.length > 0 ? { kind: "conflict", files: conflicts } : { kind: "failed", detail: String(err) };
+    }
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// Handles /branch, /merge and /sync. Returns the reply for the chat.
+export async function handleWorktreeCommand(args: {
+  worktrees: GitWorktrees | null;
+  manager: AgentManager;
+  scope: BindingScope;
+  role: UserRole;
+  command: WorktreeCommand;
+}): Promise<string> {
+  const { worktrees, manager, scope, command } = args;
+  if (!worktrees) {
+    return `/${command} needs worktree isolation. Set git.isolation = "user" or "session" in .cognal/config.toml and restart Cognal.`;
+  }
+
+  if (command === "branch") {
+    const status = await worktrees.status(scope);
+    return [
+      `Branch ${status.branch}, checked out in ${status.dir}.`,
+      `${plural(status.ahead, "commit")} ahead of ${status.base} and ${status.behind} behind, ${plural(status.changedFiles, "uncommitted file")}.`,
+      `Use /sync to bring in ${status.base}, or /merge to merge into it.`
+    ].join("\n");
+  }
+
+  if (args.role === "viewer") {
+    return `Viewers cannot use /${command}.`;
+  }
+  // In "user" mode the worktree is shared by the user's private chats and topics, and a run in any of them writes to it.
+  const key = worktrees.keyFor(scope);
+  if (manager.isAnyRunning((other) => worktrees.keyFor(other) === key)) {
+    return `An agent task is still running on this worktree. Wait for it or /cancel it before using /${command}.`;
+  }
+  const branch = worktrees.branchFor(scope);
+  const result = command === "merge" ? await worktrees.merge(scope) : await worktrees.sync(scope);
+  switch (result.kind) {
+    case "merged":
+      return command === "merge"
+        ? `Merged ${plural(result.commits, "commit")} from ${branch} into the project branch.`
+        : `Brought ${plural(result.commits, "commit")} from the project branch into ${branch}.`;
+    case "up_to_date":
+      return command === "merge" ? `Nothing to merge: ${branch} has no new commits.` : `${branch} is already up to date.`;
+    case "dirty":
+      return `The project directory has uncommitted changes, so nothing was merged. Commit or stash them first:\n${formatFileList(result.files)}`;
+    case "conflict":
+      return `That merge conflicts in these files, so nothing was changed:\n${formatFileList(result.files)}\nAsk the agent to merge and resolve the conflicts on ${branch}.`;
+    case "failed":
+      return `The merge failed and nothing was changed: ${result.detail}`;
+  }
+}
@@ -3,21 +3,21 @@ import { promises as fs, constants as fsConstants } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import process from "node:process";
-import { loadOrCreateConfig, getRuntimePaths, ensureRuntimeDirs, getDefaultAgent, getEnabledAgents, isAgentEnabled } from "./config.js";
+import { randomBytes } from "node:crypto";
+import { loadOrCreateConfig, getRuntimePaths, ensureRuntimeDirs, getEnabledAgents } from "./config.js";
 import { Db } from "./core/db.js";
-import { classifyTelegramError, createDiagnosticId } from "./core/errors.js";
 import { Logger } from "./core/logger.js";
-import { processInboundEvent, runAttachmentCleanup } from "./core/inbound.js";
+import { startDaemonLoop } from "./core/daemonLoop.js";
 import { TelegramBotAdapter } from "./adapters/telegramBotAdapter.js";
+import { TelegramWebhookReceiver } from "./adapters/telegramWebhook.js";
 import { SttAdapter } from "./adapters/sttAdapter.js";
 import { ClaudeAdapter } from "./agents/claudeAdapter.js";
 import { CodexAdapter } from "./agents/codexAdapter.js";
-import { AgentManager } from "./agents/manager.js";
+import { CustomCliAdapter } from "./agents/customCliAdapter.js";
+import type { AgentAdapter } from "./agents/agentAdapter.js";
 import type { AgentType } from "./types.js";
 
 const logger = new Logger("daemon");
-const LOOP_ERROR_BACKOFF_BASE_MS = 1_000;
-const LOOP_ERROR_BACKOFF_MAX_MS = 30_000;
 
 interface BotLock {
   lockPath: string;
@@ -130,9 +130,29 @@ async function main(): Promise<void> {
     throw new Error(`Missing Telegram bot token in env '${cfg.telegram.botTokenEnv}'`);
   }
 
-  const chat = new TelegramBotAdapter(telegramToken, paths.telegramOffsetPath, cfg.telegram.botUsername);
+  const chat = new TelegramBotAdapter(telegramToken, paths.telegramOffsetPath, cfg.telegram.botUsername, cfg.telegram.apiBaseUrl);
   const identity = await chat.getIdentity();
   const botLock = await acquireBotLock(identity.id, projectRoot);
+  let webhook: TelegramWebhookReceiver | null = null;
+  if (cfg.telegram.transport === "webhook") {
+    if (!cfg.telegram.webhookUrl) {
+      throw new Error("telegram.transport is 'webhook' but telegram.webhookUrl is not set in .cognal/config.toml.");
+    }
+    // A fresh secret per start means a leaked token stops working after the next restart.
+    const secretToken = randomBytes(32).toString("hex");
+    webhook = new TelegramWebhookReceiver({
+      host: cfg.telegram.webhookListenHost,
+      port: cfg.telegram.webhookListenPort,
+      path: new URL(cfg.telegram.webhookUrl).pathname,
+      secretToken
+    });
+    await webhook.start();
+    chat.attachWebhook(webhook);
+    await chat.setWebhook(cfg.telegram.webhookUrl, secretToken);
+  } else {
+    // getUpdates fails while a webhook is registered, e.g. after switching back from webhook mode.
+    await chat.deleteWebhook();
+  }
   const openAiKey = process.env[cfg.stt.apiKeyEnv];
   const stt = openAiKey ? new SttAdapter(openAiKey) : null;
 
@@ -141,7 +161,7 @@ async function main(): Promise<void> {
     throw new Error("No agent provider is enabled. Update .cognal/config.toml.");
   }
 
-  const adapters: Partial<Record<AgentType, ClaudeAdapter | CodexAdapter>> = {};
+  const adapters: Partial<Record<AgentType, AgentAdapter>> = {};
   if (cfg.agents.enabled.claude) {
     const command = await resolveAgentCommand(cfg.agents.claude.command);
     if (!command) {
@@ -160,19 +180,32 @@ async function main(): Promise<void> {
     }
     adapters.codex = new CodexAdapter(command, cfg.agents.codex.args);
   }
+  for (const [name, spec] of Object.entries(cfg.agents.custom)) {
+    if (!spec.enabled) {
+      continue;
+    }
+    const command = await resolveAgentCommand(spec.command);
+    if (!command) {
+      throw new Error(`Command for custom agent '${name}' not found ('${spec.command}'). Set an absolute path in .cognal/config.toml.`);
+    }
+    adapters[name] = new CustomCliAdapter(name, command, spec);
+  }
 
-  const manager = new AgentManager(db, adapters, {
-    failoverEnabled: cfg.routing.failoverEnabled && enabledAgents.length > 1,
-    agentResponseSec: cfg.timeouts.agentResponseSec,
-    agentIdleMs: cfg.timeouts.agentIdleMs,
-    defaultAgent: getDefaultAgent(cfg)
+  const loop = startDaemonLoop({
+    cfg,
+    paths,
+    db,
+    chat,
+    stt,
+    adapters,
+    botUsername: identity.username,
+    logger
   });
 
-  let running = true;
   const stop = async (): Promise<void> => {
-    running = false;
     logger.info("shutdown requested");
-    await manager.shutdownAll();
+    await webhook?.close();
+    await loop.stop();
     await releaseBotLock(botLock);
     await db.close();
     process.exit(0);
@@ -185,32 +218,13 @@ async function main(): Promise<void> {
     void stop();
   });
 
-  logger.info("cognald started", { projectRoot, botUsername: identity.username });
-  let consecutiveLoopErrors = 0;
-
-  while (running) {
-    try {
-      const events = await chat.receive(cfg.telegram.receiveTimeoutSec);
-      for (const event of events) {
-        await processInboundEvent({ event, db, manager, chat, stt, cfg, paths, botUsername: identity.username, logger, isAgentEnabled });
-      }
-      await runAttachmentCleanup(db);
-      consecutiveLoopErrors = 0;
-    } catch (err) {
-      consecutiveLoopErrors += 1;
-      const backoffMs = Math.min(LOOP_ERROR_BACKOFF_BASE_MS * 2 ** Math.min(consecutiveLoopErrors - 1, 5), LOOP_ERROR_BACKOFF_MAX_MS);
-      const classified = classifyTelegramError(err);
-      const diagnosticId = createDiagnosticId();
-      logger.error("loop error", {
-        error: String(err),
-        category: classified.category,
-        diagnosticId,
-        consecutiveLoopErrors,
-        backoffMs
-      });
-      await new Promise((resolve) => setTimeout(resolve, backoffMs));
-    }
-  }
+  logger.info("cognald started", {
+    projectRoot,
+    botUsername: identity.username,
+    transport: cfg.telegram.transport,
+    maxConcurrentRuns: cfg.routing.maxConcurrentRuns
+  });
+  await loop.done;
 }
 
 void main().catch((err) => {
@@ -1,22 +1,41 @@
-export type AgentType = "claude" | "codex";
+export type BuiltinAgentType = "claude" | "codex";
+// Built-in providers plus the names of configured [agents.custom.<name>] entries.
+export type AgentType = string;
 
 export type UserStatus = "pending" | "active" | "revoked";
 
+// viewer is read-only, developer may edit inside the workspace, owner runs without a sandbox.
+export type UserRole = "viewer" | "developer" | "owner";
+
 export interface UserRecord {
   id: string;
   telegramUserId: string | null;
   telegramUsername: string | null;
   displayName: string | null;
   status: UserStatus;
+  // Admins can approve and revoke users and allow chats from Telegram.
+  isAdmin: boolean;
+  // Null uses agents.defaultRole.
+  role: UserRole | null;
   lastSeenAt: string | null;
   createdAt: string;
 }
 
+export interface BindingScope {
+  key: string;
+  userId: string;
+  chatId: string | null;
+  threadId: string | null;
+}
+
 export interface SessionBinding {
+  scopeKey: string;
   userId: string;
+  chatId: string | null;
+  threadId: string | null;
   activeAgent: AgentType;
-  claudeSessionRef: string | null;
-  codexSessionRef: string | null;
+  sessionRefs: Partial<Record<AgentType, string>>;
+  activeSessionId: string | null;
   updatedAt: string;
 }
 
@@ -35,6 +54,8 @@ export interface InboundEnvelope {
   fromUsername: string | null;
   displayName: string | null;
   transportMessageId: string;
+  threadId?: string | null;
+  chatTitle?: string | null;
   text: string;
   isCommand: boolean;
   isMentioned: boolean;
@@ -43,9 +64,70 @@ export interface InboundEnvelope {
   receivedAt: string;
 }
 
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Null when the provider does not report a price (Codex).
+  costUsd: number | null;
+}
+
 export interface AgentOutput {
   text: string;
   sessionRef?: string | null;
+  usage?: AgentUsage;
+}
+
+// "running" marks a row written when the run starts; it is updated once the run ends.
+export type AgentRunOutcome = "running" | "success" | "failover" | "cancelled" | "error";
+
+export interface AgentRunRecord {
+  userId: string;
+  chatId: string | null;
+  scopeKey: string;
+  agent: AgentType;
+  startedAt: string;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  outcome: AgentRunOutcome;
+  diagnosticId: string | null;
+  // Checkpoint commits taken around the run when git.checkpoints is on; equal when it changed nothing.
+  checkpointBefore: string | null;
+  checkpointAfter: string | null;
+  // Absolute paths of the files the agent reported editing; /undo checks the checkpoint diff against them.
+  editedFiles: string[];
+}
+
+export interface CheckpointedRun {
+  id: string;
+  agent: AgentType;
+  startedAt: string;
+  durationMs: number;
+  checkpointBefore: string;
+  checkpointAfter: string;
+  editedFiles: string[];
+}
+
+export type UsageGrouping = "user" | "chat" | "agent";
+
+export interface UsageTotals {
+  key: string;
+  label: string;
+  runs: number;
+  failedRuns: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  durationMs: number;
+}
+
+// 0 means unlimited. Run limits use rolling windows; USD limits use UTC calendar days and months.
+export interface UserLimits {
+  runsPerHour: number;
+  runsPerDay: number;
+  dailyUsd: number;
+  monthlyUsd: number;
 }
 
 export interface AgentSessionRuntime {
@@ -65,6 +147,8 @@ export interface TranscriptionResult {
   language?: string;
 }
 
+export type AccessRequestStatus = "pending" | "approved" | "rejected";
+
 export interface AccessRequestRecord {
   telegramUserId: string;
   chatId: string;
@@ -72,13 +156,64 @@ export interface AccessRequestRecord {
   displayName: string | null;
   firstSeenAt: string;
   lastSeenAt: string;
-  status: "pending" | "approved" | "rejected";
+  status: AccessRequestStatus;
 }
 
+export interface InviteRecord {
+  id: string;
+  // Active agent for users who join with this invite; null means the configured default.
+  agent: AgentType | null;
+  maxUses: number;
+  uses: number;
+  expiresAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type InboxStatus = "pending" | "processing" | "done" | "failed";
+
+export interface InboxItemRecord {
+  id: string;
+  chatId: string;
+  transportMessageId: string;
+  payload: string;
+  status: InboxStatus;
+  attempts: number;
+  lastError: string | null;
+  receivedAt: string;
+  updatedAt: string;
+}
+
+export type SessionScope = "user" | "chat";
+
 export interface AllowedChatRecord {
   chatId: string;
   chatType: "private" | "group" | "supergroup" | "channel";
   title: string | null;
+  sessionScope: SessionScope;
+  createdAt: string;
+}
+
+export interface NamedSessionRecord {
+  id: string;
+  scopeKey: string;
+  name: string;
+  agent: AgentType;
+  sessionRef: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// Unset fields fall back to the provider CLI's defaults.
+export interface ModelPreference {
+  model: string | null;
+  reasoningEffort: string | null;
+}
+
+export interface TranscriptMessage {
+  direction: "in" | "out";
+  body: string;
+  senderName: string | null;
   createdAt: string;
 }
 
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { defaultConfig, isAgentEnabled } from "../src/config.js";
+import { Db } from "../src/core/db.js";
+import { processCallbackQuery, processInboundEvent } from "../src/core/inbound.js";
+import { Logger } from "../src/core/logger.js";
+import type { InboundChatEvent, SendMessageOptions } from "../src/adapters/chatAdapter.js";
+
+class FakeChat {
+  sent: Array<{ chatId: string; text: string; options?: SendMessageOptions }> = [];
+  edits: Array<{ chatId: string; messageId: string; text: string }> = [];
+  answers: string[] = [];
+  unreachable = new Set<string>();
+
+  async sendMessage(chatId: string, text: string, options?: SendMessageOptions): Promise<string> {
+    if (this.unreachable.has(chatId)) {
+      throw new Error("Forbidden: bot can't initiate conversation with a user");
+    }
+    this.sent.push({ chatId, text, options });
+    return String(this.sent.length);
+  }
+
+  async editMessageText(chatId: string, messageId: string, text: string): Promise<void> {
+    this.edits.push({ chatId, messageId, text });
+  }
+
+  async answerCallbackQuery(_id: string, text?: string): Promise<void> {
+    this.answers.push(text ?? "");
+  }
+
+  async sendTyping(): Promise<void> {}
+}
+
+function makeEvent(overrides: Partial<InboundChatEvent> = {}): InboundChatEvent {
+  return {
+    chatId: "200000002",
+    chatType: "private",
+    fromUserId: "200000002",
+    fromUsername: "bob",
+    displayName: "Bob",
+    transportMessageId: "m1",
+    text: "hello",
+    isCommand: false,
+    isMentioned: false,
+    isReplyToBot: false,
+    attachments: [],
+    receivedAt: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe("admin role", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  async function setup() {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-admin-"));
+    const db = new Db(path.join(dir, "state.sqlite"));
+    await db.migrate();
+    await db.addOrUpdateTelegramUser("100000001", { username: "ada", displayName: "Ada" });
+    await db.setAdminByTelegramUserId("100000001", true);
+    const chat = new FakeChat();
+    const cfg = defaultConfig(dir);
+    const send = (event: InboundChatEvent) =>
+      processInboundEvent({
+        event,
+        db,
+        manager: {} as any,
+        chat: chat as any,
+        stt: null,
+        cfg,
+        paths: { tempDir: dir!, outboxDir: path.join(dir!, "outbox") },
+        botUsername: "mybot",
+        logger: new Logger("test"),
+        isAgentEnabled
+      });
+    const press = (fromUserId: string, data: string) =>
+      processCallbackQuery({
+        event: makeEvent({ chatId: fromUserId, fromUserId, text: "", callbackQuery: { id: "q1", data, messageId: "7" } }),
+        db,
+        manager: {} as any,
+        chat: chat as any,
+        cfg,
+        approvals: { handleCallback: async () => false } as any,
+        logger: new Logger("test"),
+        isAgentEnabled
+      });
+    return { db, chat, send, press };
+  }
+
+  it("DMs admins once per request and approves from the button", async () => {
+    const { db, chat, send, press } = await setup();
+    await send(makeEvent());
+    await send(makeEvent({ text: "anyone there?" }));
+
+    const dms = chat.sent.filter((message) => message.chatId === "100000001");
+    expect(dms).toHaveLength(1);
+    expect(dms[0].text).toBe("Access request from Bob (200000002).");
+    expect(dms[0].options?.inlineKeyboard?.[0].map((button) => button.callbackData)).toEqual(["ar:y:200000002", "ar:n:200000002"]);
+
+    await press("200000002", "ar:y:200000002");
+    expect(chat.answers).toEqual(["Only admins can answer access requests."]);
+    expect((await db.getUserByTelegramUserId("200000002"))?.status).toBeUndefined();
+
+    await press("100000001", "ar:y:200000002");
+    expect((await db.getUserByTelegramUserId("200000002"))?.status).toBe("active");
+    expect(chat.answers[1]).toBe("User approved");
+    expect(chat.edits[0].text).toBe("Access request from 200000002: approved by Ada (100000001).");
+    expect(chat.sent.at(-1)).toMatchObject({ chatId: "200000002", text: expect.stringContaining("approved") });
+    await db.close();
+  });
+
+  it("answers unapproved users once a day and ignores rejected or blocked ones", async () => {
+    const { db, chat, send, press } = await setup();
+    await send(makeEvent());
+    await send(makeEvent({ text: "hello?" }));
+    expect(chat.sent.filter((message) => message.chatId === "200000002").map((message) => message.text)).toEqual([
+      expect.stringContaining("Access denied")
+    ]);
+
+    await press("100000001", "ar:n:200000002");
+    expect(chat.edits[0].text).toBe("Access request from 200000002: rejected by Ada (100000001).");
+    const before = chat.sent.length;
+    await send(makeEvent({ text: "please" }));
+    expect(chat.sent).toHaveLength(before);
+    expect(await db.listAccessRequests("pending")).toEqual([]);
+
+    await db.blockTelegramUser("300000003");
+    await send(makeEvent({ chatId: "300000003", fromUserId: "300000003", text: "hi" }));
+    expect(chat.sent).toHaveLength(before);
+    expect(await db.listAccessRequests("all")).toHaveLength(1);
+
+    await send(makeEvent({ chatId: "100000001", fromUserId: "100000001", isCommand: true, text: "/approve 300000003" }));
+    expect(chat.sent.at(-1)?.text).toContain("is blocked");
+    await db.close();
+  });
+
+  it("keeps working when an admin cannot be reached", async () => {
+    const { db, chat, send } = await setup();
+    chat.unreachable.add("100000001");
+    await send(makeEvent());
+    expect(chat.sent.map((message) => message.text)).toEqual([expect.stringContaining("Access denied")]);
+    await db.close();
+  });
+
+  it("runs admin commands from chat and refuses them for other users", async () => {
+    const { db, chat, send } = await setup();
+    await db.addOrUpdateTelegramUser("300000003", { username: "cy" });
+    const fromAda = { chatId: "100000001", fromUserId: "100000001", fromUsername: "ada", displayName: "Ada", isCommand: true };
+
+    await send(makeEvent({ ...fromAda, text: "/approve 200000002" }));
+    await send(makeEvent({ ...fromAda, text: "/revoke 300000003" }));
+    await send(makeEvent({ ...fromAda, text: "/revoke 100000001" }));
+    await send(makeEvent({ ...fromAda, text: "/users" }));
+    await send(makeEvent({ text: "/users", isCommand: true }));
+
+    const replies = chat.sent.filter((message) => message.chatId !== "200000002" || message.text.startsWith("Only")).map((m) => m.text);
+    expect(replies.slice(0, 3)).toEqual(["Approved Telegram user 200000002.", "Revoked Telegram user 300000003.", "You cannot revoke yourself."]);
+    expect(replies[3]).toContain("- Ada (100000001): active, admin");
+    expect(replies[3]).toContain("- @cy (300000003): revoked");
+    expect(replies[4]).toBe("Only admins can use /users.");
+    await db.close();
+  });
+
+  it("allows a group from inside it with /allowchat", async () => {
+    const { db, chat, send } = await setup();
+    const inGroup = { chatId: "-1001", chatType: "supergroup" as const, chatTitle: "Team", fromUserId: "100000001", isCommand: true };
+
+    await send(makeEvent({ ...inGroup, text: "hello" }));
+    await send(makeEvent({ ...inGroup, text: "/allowchat chat" }));
+
+    expect(chat.sent.map((message) => message.text)).toEqual([expect.stringContaining("This chat is not allowed"), "Allowed this chat (chat sessions)."]);
+    expect((await db.listAllowedChats()).map((allowed) => [allowed.chatId, allowed.title])).toEqual([["-1001", "Team"]]);
+    await db.close();
+  });
+});
@@ -1,37 +1,81 @@
 import { describe, expect, it } from "vitest";
-import type { AgentType } from "../src/types.js";
-import type { AgentAdapter, AgentStartOptions, RunningAgent } from "../src/agents/agentAdapter.js";
+import type { AgentRunRecord, AgentType, ModelPreference, TranscriptMessage, UserRole } from "../src/types.js";
+import type { AgentAdapter, AgentProgressEvent, AgentSendOptions, AgentStartOptions, RunningAgent } from "../src/agents/agentAdapter.js";
 import { AgentManager } from "../src/agents/manager.js";
+import { AgentCancelledError, RunLimitError } from "../src/core/errors.js";
 
 class FakeDb {
   binding = {
     userId: "u1",
     activeAgent: "codex" as AgentType,
-    claudeSessionRef: null as string | null,
-    codexSessionRef: null as string | null,
+    sessionRefs: {} as Partial<Record<AgentType, string>>,
     updatedAt: new Date().toISOString()
   };
 
   async getBinding(): Promise<typeof this.binding> {
-    return { ...this.binding };
+    return { ...this.binding, sessionRefs: { ...this.binding.sessionRefs } };
   }
 
   async setActiveAgent(_userId: string, agent: AgentType): Promise<void> {
     this.binding.activeAgent = agent;
   }
 
-  async updateSessionRef(_userId: string, agent: AgentType, ref: string): Promise<void> {
-    if (agent === "claude") {
-      this.binding.claudeSessionRef = ref;
+  async updateSessionRef(_scopeKey: string, agent: AgentType, ref: string | null): Promise<void> {
+    if (ref === null) {
+      delete this.binding.sessionRefs[agent];
     } else {
-      this.binding.codexSessionRef = ref;
+      this.binding.sessionRefs[agent] = ref;
     }
   }
 
+  messages: TranscriptMessage[] = [];
+  messageFilters: Array<{ chatId: string; userId?: string }> = [];
+
+  async listRecentMessages(filter: { chatId: string; userId?: string }, limit: number): Promise<TranscriptMessage[]> {
+    this.messageFilters.push(filter);
+    return this.messages.slice(-limit);
+  }
+
+  preferences = new Map<AgentType, ModelPreference>();
+
+  async getModelPreference(_scopeKey: string, agent: AgentType): Promise<ModelPreference> {
+    return this.preferences.get(agent) ?? { model: null, reasoningEffort: null };
+  }
+
+  async setModelPreference(_scopeKey: string, agent: AgentType, preference: ModelPreference): Promise<void> {
+    this.preferences.set(agent, preference);
+  }
+
+  runs: AgentRunRecord[] = [];
+
+  runIds: string[] = [];
+
+  async insertAgentRun(run: AgentRunRecord): Promise<string> {
+    this.runs.push(run);
+    this.runIds.push(`r${this.runIds.length + 1}`);
+    return this.runIds[this.runIds.length - 1];
+  }
+
+  async finishAgentRun(id: string, run: AgentRunRecord): Promise<void> {
+    this.runs[this.runIds.indexOf(id)] = run;
+  }
+
+  roles = new Map<string, UserRole | null>();
+
+  async getUserById(id: string): Promise<{ role: UserRole | null } | null> {
+    return this.roles.has(id) ? { role: this.roles.get(id) ?? null } : null;
+  }
+
   async setRuntimePid(): Promise<void> {}
   async clearRuntimePid(): Promise<void> {}
 }
 
+const scope = { key: "u1:123", userId: "u1", chatId: "123", threadId: null };
+
+function transcript(...entries: Array<["in" | "out", string]>): TranscriptMessage[] {
+  return entries.map(([direction, body]) => ({ direction, body, senderName: "Tester", createdAt: new Date().toISOString() }));
+}
+
 function fakeRuntime(agent: AgentType): RunningAgent {
   const proc: any = {
     pid: null,
@@ -58,6 +102,8 @@ class FakeAdapter implements AgentAdapter {
   starts = 0;
   stops = 0;
   sends = 0;
+  inputs: string[] = [];
+  sendOptions: AgentSendOptions[] = [];
   startOptions: AgentStartOptions[] = [];
   sendFailuresRemaining: number;
 
@@ -68,6 +114,10 @@ class FakeAdapter implements AgentAdapter {
     failSendMessage?: string;
     sendText?: string;
     sessionRef?: string | null;
+    usage?: { inputTokens: number; outputTokens: number; costUsd: number | null };
+    waitForAbort?: boolean;
+    progress?: AgentProgressEvent[];
+    gate?: Promise<void>;
   } = {}) {
     this.sendFailuresRemaining = behavior.failSendCount ?? 0;
   }
@@ -81,11 +131,30 @@ class FakeAdapter implements AgentAdapter {
     const runtime = fakeRuntime(this.type);
     runtime.sessionRef = options.fresh ? null : options.sessionRef;
     runtime.startMode = options.fresh || !options.sessionRef ? "fresh" : "resume";
+    runtime.role = options.role;
+    runtime.cwd = options.cwd;
     return runtime;
   }
 
-  async send(_runtime: RunningAgent, _input: string): Promise<{ text: string; sessionRef?: string | null }> {
+  async send(
+    runtime: RunningAgent,
+    input: string,
+    _idleMs?: number,
+    _timeoutMs?: number,
+    options: AgentSendOptions = {}
+  ): Promise<{ text: string; sessionRef?: string | null }> {
     this.sends += 1;
+    this.inputs.push(input);
+    this.sendOptions.push(options);
+    for (const event of this.behavior.progress ?? []) {
+      options.onProgress?.(event);
+    }
+    await this.behavior.gate;
+    if (this.behavior.waitForAbort) {
+      await new Promise<void>((resolve) => options.signal?.addEventListener("abort", () => resolve(), { once: true }));
+      runtime.sessionRef = `${this.type}-partial`;
+      throw new AgentCancelledError();
+    }
     if (this.sendFailuresRemaining > 0) {
       this.sendFailuresRemaining -= 1;
       throw new Error(this.behavior.failSendMessage ?? `fetch failed ${this.type}`);
@@ -95,7 +164,8 @@ class FakeAdapter implements AgentAdapter {
     }
     return {
       text: this.behavior.sendText ?? `${this.type}-ok`,
-      sessionRef: this.behavior.sessionRef ?? `${this.type}-session`
+      sessionRef: this.behavior.sessionRef ?? `${this.type}-session`,
+      usage: this.behavior.usage
     };
   }
 
@@ -117,8 +187,8 @@ describe("AgentManager", () => {
       { failoverEnabled: true, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
     );
 
-    await manager.switchAgent("u1", "codex");
-    await manager.switchAgent("u1", "claude");
+    await manager.switchAgent(scope, "codex");
+    await manager.switchAgent(scope, "claude");
 
     expect(codex.starts).toBe(1);
     expect(codex.stops).toBe(1);
@@ -139,7 +209,7 @@ describe("AgentManager", () => {
       { failoverEnabled: true, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
     );
 
-    const output = await manager.sendToActive("u1", "hello");
+    const output = await manager.sendToActive(scope, "hello");
 
     expect(output.text).toContain("Failover -> claude");
     expect(output.text).toContain("fallback-response");
@@ -156,7 +226,7 @@ describe("AgentManager", () => {
       { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
     );
 
-    const output = await manager.sendToActive("u1", "hello");
+    const output = await manager.sendToActive(scope, "hello");
 
     expect(output.text).toBe("codex-ok");
     expect(codex.sends).toBe(2);
@@ -164,8 +234,8 @@ describe("AgentManager", () => {
 
   it("starts with persisted session refs when switching back", async () => {
     const db = new FakeDb();
-    db.binding.codexSessionRef = "codex-prev";
-    db.binding.claudeSessionRef = "claude-prev";
+    db.binding.sessionRefs.codex = "codex-prev";
+    db.binding.sessionRefs.claude = "claude-prev";
 
     const codex = new FakeAdapter("codex");
     const claude = new FakeAdapter("claude");
@@ -176,16 +246,37 @@ describe("AgentManager", () => {
       { failoverEnabled: true, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
     );
 
-    await manager.switchAgent("u1", "claude");
-    await manager.switchAgent("u1", "codex");
+    await manager.switchAgent(scope, "claude");
+    await manager.switchAgent(scope, "codex");
 
     expect(claude.startOptions[0]).toMatchObject({ sessionRef: "claude-prev", fresh: false });
     expect(codex.startOptions[0]).toMatchObject({ sessionRef: "codex-prev", fresh: false });
   });
 
+  it("starts runtimes with the sender's role and restarts when it changes", async () => {
+    const db = new FakeDb();
+    db.roles.set("u1", "viewer");
+    db.roles.set("u2", null);
+    const codex = new FakeAdapter("codex");
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex", defaultRole: "developer" }
+    );
+    const shared = { key: "chat:-100", userId: "u1", chatId: "-100", threadId: null };
+
+    await manager.sendToActive(shared, "look");
+    await manager.sendToActive(shared, "look again");
+    await manager.sendToActive({ ...shared, userId: "u2" }, "edit");
+
+    expect(codex.startOptions.map((options) => options.role)).toEqual(["viewer", "developer"]);
+    expect(codex.startOptions[1]).toMatchObject({ sessionRef: "codex-session", fresh: false });
+    expect(codex.stops).toBe(1);
+  });
+
   it("retries fresh start when resume start fails", async () => {
     const db = new FakeDb();
-    db.binding.claudeSessionRef = "claude-prev";
+    db.binding.sessionRefs.claude = "claude-prev";
 
     const claude = new FakeAdapter("claude", { failStart: true });
     const manager = new AgentManager(
@@ -194,12 +285,68 @@ describe("AgentManager", () => {
       { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "claude" }
     );
 
-    await manager.switchAgent("u1", "claude");
+    await manager.switchAgent(scope, "claude");
 
     expect(claude.startOptions).toEqual([
-      { userId: "u1", sessionRef: "claude-prev", fresh: false },
-      { userId: "u1", sessionRef: null, fresh: true }
+      { userId: "u1", sessionRef: "claude-prev", fresh: false, model: null, reasoningEffort: null, role: "owner", cwd: null },
+      { userId: "u1", sessionRef: null, fresh: true, model: null, reasoningEffort: null, role: "owner", cwd: null }
+    ]);
+  });
+
+  it("cancels an in-flight send without failover and keeps the session", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex", { waitForAbort: true });
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      { failoverEnabled: true, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
+    );
+
+    const pending = manager.sendToActive(scope, "long task");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(manager.cancelActive(scope.key)).toBe(true);
+
+    await expect(pending).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(claude.sends).toBe(0);
+    expect(codex.sends).toBe(1);
+    expect(db.binding.activeAgent).toBe("codex");
+    expect(db.binding.sessionRefs.codex).toBe("codex-partial");
+    expect(manager.cancelActive(scope.key)).toBe(false);
+  });
+
+  it("runs prompts for the same scope one at a time", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex");
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
+    );
+    let running = 0;
+    let peak = 0;
+    const send = codex.send.bind(codex);
+    codex.send = async (...args) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      try {
+        return await send(...args);
+      } finally {
+        running -= 1;
+      }
+    };
+    const sharedScope = { key: "chat:-100", userId: "u1", chatId: "-100", threadId: null };
+    const otherScope = { key: "u2:-200", userId: "u2", chatId: "-200", threadId: null };
+
+    await Promise.all([
+      manager.sendToActive(sharedScope, "first"),
+      manager.sendToActive({ ...sharedScope, userId: "u2" }, "second"),
+      manager.sendToActive(otherScope, "elsewhere")
     ]);
+
+    expect(codex.sends).toBe(3);
+    expect(peak).toBe(2);
   });
 
   it("rejects switching to disabled provider", async () => {
@@ -211,6 +358,284 @@ describe("AgentManager", () => {
       { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
     );
 
-    await expect(manager.switchAgent("u1", "claude")).rejects.toThrow("disabled");
+    await expect(manager.switchAgent(scope, "claude")).rejects.toThrow("disabled");
+  });
+
+  it("hands a transcript digest to the incoming agent's next prompt only", async () => {
+    const db = new FakeDb();
+    db.messages = transcript(["in", "fix the login bug"], ["out", "patched auth.ts"], ["in", "/claude"]);
+    const codex = new FakeAdapter("codex");
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        handoff: { mode: "digest", messages: 20, maxChars: 6000 }
+      }
+    );
+
+    expect(await manager.switchAgent(scope, "claude")).toBe(true);
+    await manager.sendToActive(scope, "now add a test");
+    await manager.sendToActive(scope, "thanks");
+
+    expect(claude.inputs[0]).toBe(
+      [
+        "[Handoff from codex. Recent conversation in this chat, oldest first:]",
+        "User: fix the login bug",
+        "Assistant: patched auth.ts",
+        "[End of handoff.]",
+        "now add a test"
+      ].join("\n\n")
+    );
+    expect(claude.inputs[1]).toBe("thanks");
+    expect(db.messageFilters).toEqual([{ chatId: "123", userId: "u1" }]);
+    expect(codex.sends).toBe(0);
+  });
+
+  it("asks the outgoing agent for a summary in summary mode", async () => {
+    const db = new FakeDb();
+    db.binding.sessionRefs.codex = "codex-prev";
+    const codex = new FakeAdapter("codex", { sendText: "Goal: fix login. Next: add tests." });
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        handoff: { mode: "summary", messages: 20, maxChars: 6000 }
+      }
+    );
+
+    await manager.switchAgent(scope, "claude");
+    await manager.sendToActive(scope, "continue");
+
+    expect(codex.startOptions[0]).toMatchObject({ sessionRef: "codex-prev", fresh: false });
+    expect(codex.inputs[0]).toContain("Summarize it for them");
+    expect(codex.stops).toBe(1);
+    expect(claude.inputs[0]).toContain("[Handoff from codex. Its summary of the conversation so far:]\n\nGoal: fix login. Next: add tests.");
+    expect(claude.inputs[0].endsWith("\n\ncontinue")).toBe(true);
+  });
+
+  it("runs the summary like a prompt: cancellable, recorded and with the caller's approvals", async () => {
+    const db = new FakeDb();
+    db.binding.sessionRefs.codex = "codex-prev";
+    db.messages = transcript(["in", "fix the login bug"], ["out", "patched auth.ts"]);
+    const codex = new FakeAdapter("codex", { waitForAbort: true });
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        handoff: { mode: "summary", messages: 20, maxChars: 6000 }
+      }
+    );
+    const requestApproval = async () => true;
+
+    const switching = manager.switchAgent(scope, "claude", { requestApproval });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(manager.isRunning(scope.key)).toBe(true);
+    expect(manager.cancelActive(scope.key)).toBe(true);
+    expect(await switching).toBe(true);
+    await manager.sendToActive(scope, "continue");
+
+    expect(codex.sendOptions[0].requestApproval).toBe(requestApproval);
+    expect(db.runs.map((run) => [run.agent, run.outcome])).toEqual([
+      ["codex", "cancelled"],
+      ["claude", "success"]
+    ]);
+    expect(claude.inputs[0]).toContain("User: fix the login bug");
+  });
+
+  it("hands over the digest without a summary run when the user is over their limits", async () => {
+    const db = new FakeDb();
+    db.binding.sessionRefs.codex = "codex-prev";
+    db.messages = transcript(["in", "fix the login bug"]);
+    const codex = new FakeAdapter("codex");
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        handoff: { mode: "summary", messages: 20, maxChars: 6000 }
+      }
+    );
+
+    const checkLimits = async () => ({ limit: "1 run per hour", resetsAt: new Date() });
+    expect(await manager.switchAgent(scope, "claude", { checkLimits })).toBe(true);
+    expect(codex.sends).toBe(0);
+    expect(db.runs).toEqual([]);
+  });
+
+  it("includes the digest on failover without repeating the failed request", async () => {
+    const db = new FakeDb();
+    db.messages = transcript(["in", "earlier question"], ["out", "earlier answer"], ["in", "hello"]);
+    const codex = new FakeAdapter("codex", { failSend: true });
+    const claude = new FakeAdapter("claude");
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      {
+        failoverEnabled: true,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        handoff: { mode: "summary", messages: 20, maxChars: 6000 }
+      }
+    );
+
+    await manager.sendToActive(scope, "hello");
+
+    expect(claude.inputs[0]).toContain("User: earlier question\n\nAssistant: earlier answer\n\n[End of handoff.]");
+    expect(claude.inputs[0].match(/hello/g)).toHaveLength(1);
+  });
+
+  it("restarts the runtime with the chosen model and keeps the session", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex");
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
+    );
+
+    await manager.sendToActive(scope, "hello");
+    await manager.setModelPreference(scope, "codex", { model: "gpt-5", reasoningEffort: "high" });
+    await manager.sendToActive(scope, "again");
+
+    expect(codex.stops).toBe(1);
+    expect(codex.startOptions[1]).toMatchObject({ sessionRef: "codex-session", model: "gpt-5", reasoningEffort: "high" });
+  });
+
+  it("records every run with the answering agent, usage and outcome", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex", { failSend: true, failSendMessage: "boom" });
+    const claude = new FakeAdapter("claude", { usage: { inputTokens: 100, outputTokens: 20, costUsd: 0.01 } });
+    const manager = new AgentManager(
+      db as any,
+      { codex, claude },
+      { failoverEnabled: true, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
+    );
+
+    await manager.sendToActive(scope, "hello", { diagnosticId: "d1" });
+    claude.sendFailuresRemaining = 5;
+    await expect(manager.sendToActive(scope, "again", { diagnosticId: "d2" })).rejects.toThrow();
+
+    expect(db.runs.map(({ agent, outcome, inputTokens, costUsd, diagnosticId }) => ({ agent, outcome, inputTokens, costUsd, diagnosticId }))).toEqual([
+      { agent: "claude", outcome: "failover", inputTokens: 100, costUsd: 0.01, diagnosticId: null },
+      { agent: "codex", outcome: "error", inputTokens: 0, costUsd: null, diagnosticId: "d2" }
+    ]);
+    expect(db.runs[0]).toMatchObject({ userId: "u1", chatId: "123", scopeKey: "u1:123" });
+  });
+
+  it("counts a user's running runs against their limits across chats", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex", { waitForAbort: true });
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "codex" }
+    );
+    const checkLimits = async () => (db.runs.length >= 1 ? { limit: "1 run per hour", resetsAt: new Date() } : null);
+    const topic = { ...scope, key: "u1:123:7", threadId: "7" };
+
+    const first = manager.sendToActive(scope, "one", { checkLimits });
+    const second = manager.sendToActive(topic, "two", { checkLimits });
+    await expect(second).rejects.toBeInstanceOf(RunLimitError);
+    expect(db.runs[0].outcome).toBe("running");
+    manager.cancelActive(scope.key);
+    await expect(first).rejects.toBeInstanceOf(AgentCancelledError);
+
+    expect(codex.inputs).toEqual(["one"]);
+    expect(db.runs.map((run) => run.outcome)).toEqual(["cancelled"]);
+  });
+
+  it("clears a session only after the scope's running prompt has stored its session", async () => {
+    const db = new FakeDb();
+    let release = (): void => undefined;
+    const claude = new FakeAdapter("claude", { gate: new Promise<void>((resolve) => (release = resolve)) });
+    const manager = new AgentManager(
+      db as any,
+      { claude },
+      { failoverEnabled: false, agentResponseSec: 10, agentIdleMs: 10, defaultAgent: "claude" }
+    );
+
+    const running = manager.sendToActive(scope, "work");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const cleared = manager.clearAgentSession(scope, "claude");
+    release();
+    await running;
+    await cleared;
+
+    expect(db.binding.sessionRefs.claude).toBeUndefined();
+  });
+
+  it("records checkpoints taken around each run", async () => {
+    const db = new FakeDb();
+    const snapshots = ["c1", "c2"];
+    const codex = new FakeAdapter("codex", {
+      progress: [
+        { kind: "file_edit", detail: "Edit /srv/project/a.ts", filePath: "/srv/project/a.ts" },
+        { kind: "tool", detail: "Bash: npm test" }
+      ]
+    });
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        checkpoints: { snapshot: async () => snapshots.shift() ?? null }
+      }
+    );
+
+    const progress: AgentProgressEvent[] = [];
+    await manager.sendToActive(scope, "edit", { onProgress: (event) => progress.push(event) });
+    await manager.sendToActive(scope, "again");
+
+    expect(db.runs.map((run) => [run.checkpointBefore, run.checkpointAfter, run.editedFiles])).toEqual([
+      ["c1", "c2", ["/srv/project/a.ts"]],
+      [null, null, []]
+    ]);
+    expect(progress).toHaveLength(2);
+  });
+
+  it("starts runtimes in the sender's worktree", async () => {
+    const db = new FakeDb();
+    const codex = new FakeAdapter("codex");
+    const manager = new AgentManager(
+      db as any,
+      { codex },
+      {
+        failoverEnabled: false,
+        agentResponseSec: 10,
+        agentIdleMs: 10,
+        defaultAgent: "codex",
+        worktrees: { workdirFor: async (target) => `/srv/project/.cognal/worktrees/${target.userId}` }
+      }
+    );
+    const shared = { key: "chat:-100", userId: "u1", chatId: "-100", threadId: null };
+
+    await manager.sendToActive(shared, "one");
+    await manager.sendToActive(shared, "two");
+    await manager.sendToActive({ ...shared, userId: "u2" }, "three");
+
+    expect(codex.startOptions.map((options) => options.cwd)).toEqual(["/srv/project/.cognal/worktrees/u1", "/srv/project/.cognal/worktrees/u2"]);
   });
 });
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApprovalBroker, isRiskyToolCall } from "../src/core/approvals.js";
+
+class FakeChat {
+  messages: Array<{ chatId: string; text: string; options?: unknown }> = [];
+  edits: Array<{ messageId: string; text: string }> = [];
+  answers: Array<{ id: string; text?: string }> = [];
+
+  async sendMessage(chatId: string, text: string, options?: unknown): Promise<string> {
+    this.messages.push({ chatId, text, options });
+    return String(this.messages.length);
+  }
+
+  async editMessageText(_chatId: string, messageId: string, text: string): Promise<void> {
+    this.edits.push({ messageId, text });
+  }
+
+  async answerCallbackQuery(id: string, text?: string): Promise<void> {
+    this.answers.push({ id, text });
+  }
+}
+
+function callbackEvent(fromUserId: string, data: string) {
+  return {
+    chatId: "c1",
+    chatType: "private",
+    fromUserId,
+    fromUsername: null,
+    displayName: "User",
+    transportMessageId: "callback:q1",
+    text: "",
+    isCommand: false,
+    isMentioned: false,
+    isReplyToBot: false,
+    attachments: [],
+    receivedAt: new Date().toISOString(),
+    callbackQuery: { id: "q1", data, messageId: "1" }
+  } as any;
+}
+
+function callbackDataFor(chat: FakeChat, label: "Approve" | "Deny"): string {
+  const options = chat.messages[0].options as { inlineKeyboard: Array<Array<{ text: string; callbackData: string }>> };
+  return options.inlineKeyboard[0].find((button) => button.text === label)!.callbackData;
+}
+
+describe("isRiskyToolCall", () => {
+  it("flags shell and network tools and writes outside the project", () => {
+    expect(isRiskyToolCall("Bash", { command: "ls" }, "/srv/app")).toBe(true);
+    expect(isRiskyToolCall("WebFetch", { url: "https://example.com" }, "/srv/app")).toBe(true);
+    expect(isRiskyToolCall("Edit", { file_path: "/etc/passwd" }, "/srv/app")).toBe(true);
+    expect(isRiskyToolCall("Write", { file_path: "../other/file.ts" }, "/srv/app")).toBe(true);
+    expect(isRiskyToolCall("Edit", { file_path: "/srv/app/src/index.ts" }, "/srv/app")).toBe(false);
+    expect(isRiskyToolCall("Read", { file_path: "/etc/hosts" }, "/srv/app")).toBe(false);
+    expect(isRiskyToolCall("Write", { file_path: "/srv/app/.cognal/outbox/1/report.md" }, "/srv/app/.cognal/worktrees/u1", ["/srv/app/.cognal/outbox/1"])).toBe(false);
+    expect(isRiskyToolCall("Write", { file_path: "/srv/app/src/a.ts" }, "/srv/app/.cognal/worktrees/u1", ["/srv/app/.cognal/outbox/1"])).toBe(true);
+  });
+});
+
+describe("ApprovalBroker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the requester's answer and updates the prompt", async () => {
+    const chat = new FakeChat();
+    const broker = new ApprovalBroker(chat as any);
+    const pending = broker.request({
+      chatId: "c1",
+      requesterTelegramUserId: "u1",
+      request: { toolName: "Bash", input: { command: "npm test" } },
+      timeoutMs: 60_000
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(chat.messages[0].text).toContain("Bash: npm test");
+    expect(await broker.handleCallback(callbackEvent("u1", callbackDataFor(chat, "Approve")))).toBe(true);
+
+    await expect(pending).resolves.toBe(true);
+    expect(chat.answers).toEqual([{ id: "q1", text: "Approved" }]);
+    expect(chat.edits[0]).toEqual({ messageId: "1", text: "Approved\nBash: npm test" });
+    expect(broker.pendingCount()).toBe(0);
+  });
+
+  it("ignores answers from other users", async () => {
+    const chat = new FakeChat();
+    const broker = new ApprovalBroker(chat as any);
+    void broker.request({
+      chatId: "c1",
+      requesterTelegramUserId: "u1",
+      request: { toolName: "Bash", input: { command: "npm test" } },
+      timeoutMs: 60_000
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await broker.handleCallback(callbackEvent("u2", callbackDataFor(chat, "Approve")));
+
+    expect(chat.answers[0].text).toContain("Only the user who started this run");
+    expect(broker.pendingCount()).toBe(1);
+  });
+
+  it("denies automatically when nobody answers in time", async () => {
+    vi.useFakeTimers();
+    const chat = new FakeChat();
+    const broker = new ApprovalBroker(chat as any);
+    const pending = broker.request({
+      chatId: "c1",
+      requesterTelegramUserId: "u1",
+      request: { toolName: "WebFetch", input: { url: "https://example.com" } },
+      timeoutMs: 5_000
+    });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await expect(pending).resolves.toBe(false);
+    expect(chat.edits[0].text).toContain("Denied (no answer within 5s)");
+    expect(await broker.handleCallback(callbackEvent("u1", callbackDataFor(chat, "Approve")))).toBe(true);
+    expect(chat.answers[0].text).toBe("This approval request has expired.");
+  });
+
+  it("leaves unrelated callback data alone", async () => {
+    const broker = new ApprovalBroker(new FakeChat() as any);
+    expect(await broker.handleCallback(callbackEvent("u1", "other:1"))).toBe(false);
+  });
+});
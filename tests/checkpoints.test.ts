@@ -0,0 +1,311 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { GitCheckpoints, handleCheckpointCommand } from "../src/core/checkpoints.js";
+import { Db } from "../src/core/db.js";
+import { runCommand } from "../src/core/utils.js";
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const result = await runCommand("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd });
+  if (result.code !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout;
+}
+
+describe("git checkpoints", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  async function setup() {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-checkpoints-"));
+    const cognalDir = path.join(dir, ".cognal");
+    await git(dir, "init", "-q");
+    await fs.writeFile(path.join(dir, "a.txt"), "one\n");
+    await git(dir, "add", "a.txt");
+    await git(dir, "commit", "-q", "-m", "init");
+    await fs.mkdir(cognalDir, { recursive: true });
+    await fs.writeFile(path.join(cognalDir, "cognal.db"), "state");
+    return { root: dir, checkpoints: new GitCheckpoints({ projectRoot: dir, cognalDir, tempDir: path.join(cognalDir, "tmp") }) };
+  }
+
+  it("snapshots the work tree without touching the index", async () => {
+    const { root, checkpoints } = await setup();
+    await fs.writeFile(path.join(root, "notes.txt"), "mine\n");
+    const before = await checkpoints.snapshot();
+    expect(await checkpoints.snapshot()).toBe(before);
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    await fs.writeFile(path.join(root, "b.txt"), "new\n");
+    const after = await checkpoints.snapshot();
+
+    expect(await checkpoints.changedFiles(before!, after!)).toEqual(["a.txt", "b.txt"]);
+    expect(await git(root, "show", "--name-only", "--format=", before!)).not.toContain(".cognal");
+    expect(await checkpoints.diff(before!, after!)).toContain("-one\n+two");
+    expect(await git(root, "for-each-ref", "--format=%(refname)", "refs/cognal/checkpoints")).toContain(before!);
+    expect(await git(root, "ls-files")).toBe("a.txt\n");
+    expect(await git(root, "diff", "--cached", "--name-only")).toBe("");
+  });
+
+  it("undoes only the run's files and refuses when they changed again", async () => {
+    const { root, checkpoints } = await setup();
+    const before = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    await fs.writeFile(path.join(root, "b.txt"), "new\n");
+    const after = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "unrelated.txt"), "keep\n");
+
+    await fs.writeFile(path.join(root, "a.txt"), "three\n");
+    expect(await checkpoints.undo(before!, after!)).toEqual({ restored: [], conflicts: ["a.txt"], unreported: [] });
+    expect(await fs.readFile(path.join(root, "b.txt"), "utf8")).toBe("new\n");
+
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    expect(await checkpoints.undo(before!, after!)).toEqual({ restored: ["a.txt", "b.txt"], conflicts: [], unreported: [] });
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("one\n");
+    await expect(fs.stat(path.join(root, "b.txt"))).rejects.toThrow();
+    expect(await fs.readFile(path.join(root, "unrelated.txt"), "utf8")).toBe("keep\n");
+  });
+
+  it("prunes checkpoint refs that no undoable run needs", async () => {
+    const { root, checkpoints } = await setup();
+    const db = new Db(path.join(root, ".cognal", "state.sqlite"));
+    await db.migrate();
+    const first = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    const second = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "three\n");
+    const third = await checkpoints.snapshot();
+    const run = {
+      userId: "u1",
+      chatId: "100",
+      scopeKey: "u1:100",
+      agent: "claude",
+      durationMs: 10,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+      outcome: "success" as const,
+      diagnosticId: null,
+      editedFiles: [] as string[]
+    };
+    await db.insertAgentRun({ ...run, startedAt: "2026-03-02T09:15:00.000Z", checkpointBefore: first, checkpointAfter: second });
+    await db.insertAgentRun({ ...run, startedAt: "2026-03-02T09:20:00.000Z", checkpointBefore: second, checkpointAfter: third });
+
+    // Snapshots this process just took are kept until their run is recorded.
+    expect(await checkpoints.prune([])).toBe(0);
+    const afterRestart = new GitCheckpoints({ projectRoot: root, cognalDir: path.join(root, ".cognal"), tempDir: path.join(root, ".cognal", "tmp") });
+    expect(await afterRestart.prune(await db.listUndoableCheckpoints(1))).toBe(1);
+    const refs = await git(root, "for-each-ref", "--format=%(objectname)", "refs/cognal/checkpoints");
+    expect(refs.trim().split("\n").sort()).toEqual([second!, third!].sort());
+    await db.close();
+  });
+
+  it("skips projects outside git", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-checkpoints-"));
+    const checkpoints = new GitCheckpoints({ projectRoot: dir, cognalDir: path.join(dir, ".cognal"), tempDir: path.join(dir, "tmp") });
+    expect(await checkpoints.snapshot()).toBeNull();
+  });
+
+  it("sends the last run's diff and undoes it from chat", async () => {
+    const { root, checkpoints } = await setup();
+    const db = new Db(path.join(root, ".cognal", "state.sqlite"));
+    await db.migrate();
+    const before = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    const after = await checkpoints.snapshot();
+    const run = {
+      userId: "u1",
+      chatId: "100",
+      scopeKey: "u1:100",
+      agent: "claude",
+      durationMs: 10,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+      outcome: "success" as const,
+      diagnosticId: null,
+      editedFiles: [] as string[]
+    };
+    await db.insertAgentRun({
+      ...run,
+      startedAt: "2026-03-02T09:15:00.000Z",
+      checkpointBefore: before,
+      checkpointAfter: after,
+      editedFiles: [path.join(root, "a.txt")]
+    });
+    await db.insertAgentRun({ ...run, startedAt: "2026-03-02T09:20:00.000Z", checkpointBefore: after, checkpointAfter: after });
+
+    const sent: string[] = [];
+    const documents: Array<{ body: string; caption?: string }> = [];
+    const chat = {
+      async sendMessage(_chatId: string, text: string) {
+        sent.push(text);
+        return "1";
+      },
+      async sendDocument(_chatId: string, filePath: string, options?: { caption?: string }) {
+        documents.push({ body: await fs.readFile(filePath, "utf8"), caption: options?.caption });
+        return "2";
+      }
+    };
+    const command = (name: "diff" | "undo", role: "viewer" | "developer" = "developer") =>
+      handleCheckpointCommand({
+        db,
+        chat: chat as any,
+        manager: { isRunning: () => false } as any,
+        checkpoints,
+        scope: { key: "u1:100", userId: "u1", chatId: "100", threadId: null },
+        chatId: "100",
+        threadId: null,
+        role,
+        workdir: null,
+        tempDir: path.join(root, ".cognal", "tmp"),
+        command: name
+      });
+
+    await command("diff");
+    expect(documents[0].caption).toBe("Changes from the claude run at 2026-03-02 09:15 UTC: 1 file.");
+    expect(documents[0].body).toContain("+two");
+
+    await command("undo", "viewer");
+    await command("undo");
+    await command("undo");
+    expect(sent[0]).toBe("Viewers cannot use /undo.");
+    expect(sent[1]).toContain("Undid the claude run at 2026-03-02 09:15 UTC, restoring 1 file:\n- a.txt");
+    expect(sent[2]).toBe("There is no run left to undo here.");
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("one\n");
+    await db.close();
+  });
+
+  it("refuses /undo when files the agent did not report editing changed during the run", async () => {
+    const { root, checkpoints } = await setup();
+    const db = new Db(path.join(root, ".cognal", "state.sqlite"));
+    await db.migrate();
+    const before = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    // Someone else edits the tree while the run is in progress.
+    await fs.writeFile(path.join(root, "notes.txt"), "mine\n");
+    const after = await checkpoints.snapshot();
+    await db.insertAgentRun({
+      userId: "u1",
+      chatId: "100",
+      scopeKey: "u1:100",
+      agent: "claude",
+      startedAt: "2026-03-02T09:15:00.000Z",
+      durationMs: 10,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+      outcome: "success",
+      diagnosticId: null,
+      checkpointBefore: before,
+      checkpointAfter: after,
+      editedFiles: [path.join(root, "a.txt")]
+    });
+
+    const sent: string[] = [];
+    const command = (all: boolean) =>
+      handleCheckpointCommand({
+        db,
+        chat: {
+          async sendMessage(_chatId: string, text: string) {
+            sent.push(text);
+            return "1";
+          }
+        } as any,
+        manager: { isRunning: () => false } as any,
+        checkpoints,
+        scope: { key: "u1:100", userId: "u1", chatId: "100", threadId: null },
+        chatId: "100",
+        threadId: null,
+        role: "developer",
+        workdir: null,
+        tempDir: path.join(root, ".cognal", "tmp"),
+        command: "undo",
+        all
+      });
+
+    await command(false);
+    expect(sent[0]).toContain("the agent did not report editing them");
+    expect(sent[0]).toContain("- notes.txt\nSend /undo all to restore them anyway.");
+    expect(await fs.readFile(path.join(root, "notes.txt"), "utf8")).toBe("mine\n");
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("two\n");
+
+    await command(true);
+    expect(sent[1]).toContain("restoring 2 files");
+    await expect(fs.stat(path.join(root, "notes.txt"))).rejects.toThrow();
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("one\n");
+    await db.close();
+  });
+
+  it("refuses /undo when another session's run overlapped it in the shared work tree", async () => {
+    const { root, checkpoints } = await setup();
+    const db = new Db(path.join(root, ".cognal", "state.sqlite"));
+    await db.migrate();
+    const before = await checkpoints.snapshot();
+    await fs.writeFile(path.join(root, "a.txt"), "two\n");
+    const after = await checkpoints.snapshot();
+    const run = {
+      userId: "u1",
+      chatId: "100",
+      scopeKey: "u1:100",
+      agent: "claude",
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+      outcome: "success" as const,
+      diagnosticId: null,
+      checkpointBefore: null,
+      checkpointAfter: null,
+      editedFiles: [] as string[]
+    };
+    await db.insertAgentRun({
+      ...run,
+      startedAt: "2026-03-02T09:15:00.000Z",
+      durationMs: 60_000,
+      checkpointBefore: before,
+      checkpointAfter: after,
+      editedFiles: [path.join(root, "a.txt")]
+    });
+    // Ended before the run started, and started after it ended: neither overlaps.
+    await db.insertAgentRun({ ...run, scopeKey: "u2:200", startedAt: "2026-03-02T09:14:00.000Z", durationMs: 30_000 });
+    await db.insertAgentRun({ ...run, scopeKey: "u2:200", startedAt: "2026-03-02T09:16:30.000Z", durationMs: 30_000 });
+
+    const sent: string[] = [];
+    const command = (workdir: string | null) =>
+      handleCheckpointCommand({
+        db,
+        chat: {
+          async sendMessage(_chatId: string, text: string) {
+            sent.push(text);
+            return "1";
+          }
+        } as any,
+        manager: { isRunning: () => false } as any,
+        checkpoints,
+        scope: { key: "u1:100", userId: "u1", chatId: "100", threadId: null },
+        chatId: "100",
+        threadId: null,
+        role: "developer",
+        workdir,
+        tempDir: path.join(root, ".cognal", "tmp"),
+        command: "undo"
+      });
+
+    expect(await db.countOverlappingRuns("u1:100", (await db.getLastCheckpointedRun("u1:100"))!)).toBe(0);
+    await db.insertAgentRun({ ...run, scopeKey: "u2:200", startedAt: "2026-03-02T09:14:30.000Z", durationMs: 40_000 });
+    await command(null);
+    expect(sent[0]).toContain("Not undoing the claude run at 2026-03-02 09:15 UTC: another session's run was working in this project");
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("two\n");
+
+    // Each session has its own worktree with isolation, so the other run did not touch these files.
+    await command(root);
+    expect(sent[1]).toContain("Undid the claude run at 2026-03-02 09:15 UTC");
+    await db.close();
+  });
+});
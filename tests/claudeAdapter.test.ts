@@ -1,5 +1,6 @@
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { ClaudeAdapter } from "../src/agents/claudeAdapter.js";
+import { ClaudeAdapter, extractProgressEvents, extractResultUsage, toExtraArgs } from "../src/agents/claudeAdapter.js";
+import { AgentCancelledError } from "../src/core/errors.js";
 
 const queryMock = vi.fn();
 
@@ -70,4 +71,215 @@ describe("ClaudeAdapter", () => {
     expect(output.text).toBe("Compacted Claude session.");
     expect(output.sessionRef).toBe("s2");
   });
+
+  it("closes the SDK runner on abort and keeps the reported session", async () => {
+    let release: () => void = () => {};
+    const closed = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const close = vi.fn(() => release());
+    const iterator = (async function* () {
+      yield {
+        type: "system",
+        subtype: "init",
+        session_id: "s3"
+      };
+      await closed;
+      throw new Error("aborted by close");
+    })();
+    queryMock.mockReturnValue({
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+      close
+    });
+
+    const adapter = new ClaudeAdapter("claude");
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true });
+    const controller = new AbortController();
+    const pending = adapter.send(runtime, "long task", 0, 60_000, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AgentCancelledError);
+    expect(close).toHaveBeenCalled();
+    expect(runtime.sessionRef).toBe("s3");
+    expect(runtime.startMode).toBe("resume");
+  });
+
+  it("routes risky tool calls through requestApproval when approvals are enabled", async () => {
+    const iterator = (async function* () {
+      yield { type: "result", subtype: "success", result: "ok", session_id: "s5" };
+    })();
+    queryMock.mockReturnValue({
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+      close() {}
+    });
+
+    const requestApproval = vi.fn(async () => false);
+    const adapter = new ClaudeAdapter("claude");
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true });
+    await adapter.send(runtime, "run tests", 0, 1_000, { requestApproval });
+
+    const options = queryMock.mock.calls[0][0].options;
+    expect(options.permissionMode).toBe("default");
+    expect(options.allowDangerouslySkipPermissions).toBeUndefined();
+    const signal = new AbortController().signal;
+    await expect(options.canUseTool("Read", { file_path: "src/a.ts" }, { signal })).resolves.toMatchObject({ behavior: "allow" });
+    await expect(options.canUseTool("Bash", { command: "rm -rf /" }, { signal })).resolves.toMatchObject({ behavior: "deny" });
+    expect(requestApproval).toHaveBeenCalledTimes(1);
+    expect(requestApproval).toHaveBeenCalledWith({ toolName: "Bash", input: { command: "rm -rf /" } });
+  });
+
+  it("reports tool calls, file edits, and assistant text as progress", async () => {
+    const iterator = (async function* () {
+      yield {
+        type: "assistant",
+        session_id: "s4",
+        message: {
+          content: [
+            { type: "text", text: "Let me check the tests." },
+            { type: "tool_use", name: "Bash", input: { command: "npm test" } },
+            { type: "tool_use", name: "Edit", input: { file_path: "/srv/app/src/a.ts" } }
+          ]
+        }
+      };
+      yield { type: "result", subtype: "success", result: "done", session_id: "s4" };
+    })();
+    queryMock.mockReturnValue({
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+      close() {}
+    });
+
+    const adapter = new ClaudeAdapter("claude");
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true });
+    const progress: unknown[] = [];
+    await adapter.send(runtime, "fix it", 0, 1_000, { onProgress: (event) => progress.push(event) });
+
+    expect(progress).toEqual([
+      { kind: "text", detail: "Let me check the tests." },
+      { kind: "tool", detail: "Bash: npm test" },
+      { kind: "file_edit", detail: "Edit /srv/app/src/a.ts", filePath: "/srv/app/src/a.ts" }
+    ]);
+    expect(extractProgressEvents({ type: "result" })).toEqual([]);
+  });
+
+  it("passes configured args, the chosen model and effort to the SDK", async () => {
+    queryMock.mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "result", subtype: "success", result: "ok", session_id: "s9" };
+      },
+      close() {}
+    });
+
+    const adapter = new ClaudeAdapter("claude", ["--model", "sonnet", "--add-dir=/srv/shared", "--verbose"]);
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true, model: "opus", reasoningEffort: "high" });
+    await adapter.send(runtime, "hi", 0, 1_000);
+
+    expect(queryMock.mock.calls[0][0].options).toMatchObject({
+      model: "opus",
+      effort: "high",
+      extraArgs: { "add-dir": "/srv/shared", verbose: null }
+    });
+    expect(queryMock.mock.calls[0][0].options.extraArgs).not.toHaveProperty("model");
+    expect(toExtraArgs(["--model", "sonnet", "stray", "-x"])).toEqual({ model: "sonnet" });
+  });
+
+  it("applies the runtime's role to the SDK permission options", async () => {
+    queryMock.mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "result", subtype: "success", result: "ok", session_id: "s11" };
+      },
+      close() {}
+    }));
+
+    const adapter = new ClaudeAdapter("claude");
+    await adapter.send(await adapter.start({ userId: "u1", sessionRef: null, role: "viewer" }), "look", 0, 1_000);
+    await adapter.send(await adapter.start({ userId: "u1", sessionRef: null }), "fix", 0, 1_000);
+
+    const [viewer, owner] = queryMock.mock.calls.map((call) => call[0].options);
+    expect(viewer).toMatchObject({ permissionMode: "default", disallowedTools: expect.arrayContaining(["Bash", "Edit"]) });
+    expect(viewer).not.toHaveProperty("allowDangerouslySkipPermissions");
+    expect(owner).toMatchObject({ permissionMode: "bypassPermissions", allowDangerouslySkipPermissions: true });
+  });
+
+  it("denies tools outside a non-owner's role instead of asking for approval", async () => {
+    queryMock.mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "result", subtype: "success", result: "ok", session_id: "s13" };
+      },
+      close() {}
+    }));
+
+    const requestApproval = vi.fn(async () => true);
+    const adapter = new ClaudeAdapter("claude");
+    await adapter.send(await adapter.start({ userId: "u1", sessionRef: null, role: "viewer" }), "look", 0, 1_000, { requestApproval });
+    await adapter.send(await adapter.start({ userId: "u1", sessionRef: null, role: "developer", cwd: "/srv/app" }), "fix", 0, 1_000, {
+      requestApproval
+    });
+
+    const [viewer, developer] = queryMock.mock.calls.map((call) => call[0].options);
+    // Nothing is pre-approved, so the SDK asks canUseTool about every edit, including ones outside the workspace.
+    for (const options of [viewer, developer]) {
+      expect(options.permissionMode).toBe("default");
+      expect(options).not.toHaveProperty("allowedTools");
+    }
+    const signal = new AbortController().signal;
+    await expect(viewer.canUseTool("mcp__github__create_issue", { title: "x" }, { signal })).resolves.toMatchObject({ behavior: "deny" });
+    await expect(viewer.canUseTool("Read", { file_path: "src/a.ts" }, { signal })).resolves.toMatchObject({ behavior: "allow" });
+    await expect(viewer.canUseTool("WebSearch", { query: "x" }, { signal })).resolves.toMatchObject({ behavior: "deny" });
+    await expect(developer.canUseTool("Bash", { command: "curl example.com" }, { signal })).resolves.toMatchObject({ behavior: "deny" });
+    await expect(developer.canUseTool("Write", { file_path: "/etc/cron.d/job" }, { signal })).resolves.toMatchObject({ behavior: "deny" });
+    await expect(developer.canUseTool("Write", { file_path: "/srv/app/src/a.ts" }, { signal })).resolves.toMatchObject({ behavior: "allow" });
+    expect(requestApproval).not.toHaveBeenCalled();
+  });
+
+  it("grants the run's outbox when it lies outside the working directory", async () => {
+    queryMock.mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "result", subtype: "success", result: "ok", session_id: "s12" };
+      },
+      close() {}
+    }));
+
+    const requestApproval = vi.fn(async () => false);
+    const adapter = new ClaudeAdapter("claude");
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, role: "developer", cwd: "/srv/app/.cognal/worktrees/u1" });
+    await adapter.send(runtime, "make a report", 0, 1_000, { requestApproval, outboxDir: "/srv/app/.cognal/outbox/1" });
+
+    const options = queryMock.mock.calls[0][0].options;
+    expect(options).toMatchObject({ cwd: "/srv/app/.cognal/worktrees/u1", additionalDirectories: ["/srv/app/.cognal/outbox/1"] });
+    const signal = new AbortController().signal;
+    await expect(options.canUseTool("Write", { file_path: "/srv/app/.cognal/outbox/1/report.md" }, { signal })).resolves.toMatchObject({
+      behavior: "allow"
+    });
+    expect(requestApproval).not.toHaveBeenCalled();
+  });
+
+  it("reports token usage and cost from the result message", async () => {
+    queryMock.mockReturnValue({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: "ok",
+          session_id: "s10",
+          total_cost_usd: 0.0421,
+          usage: { input_tokens: 12, cache_read_input_tokens: 3000, cache_creation_input_tokens: 400, output_tokens: 250 }
+        };
+      },
+      close() {}
+    });
+
+    const adapter = new ClaudeAdapter("claude");
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true });
+    const output = await adapter.send(runtime, "hi", 0, 1_000);
+
+    expect(output.usage).toEqual({ inputTokens: 3412, outputTokens: 250, costUsd: 0.0421 });
+    expect(extractResultUsage({ type: "assistant" })).toBeNull();
+  });
 });
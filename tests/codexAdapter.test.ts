@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { buildCodexModelArgs, CodexAdapter, parseCodexEvents } from "../src/agents/codexAdapter.js";
+
+describe("buildCodexModelArgs", () => {
+  it("maps the choice to codex exec flags", () => {
+    expect(buildCodexModelArgs({ model: "gpt-5", reasoningEffort: "high" })).toEqual(["--model", "gpt-5", "-c", 'model_reasoning_effort="high"']);
+    expect(buildCodexModelArgs({ model: null, reasoningEffort: null })).toEqual([]);
+  });
+});
+
+describe("parseCodexEvents", () => {
+  it("sums per-turn usage and keeps the last agent message", () => {
+    const stdout = [
+      '{"type":"thread.started","thread_id":"0199a213-81c0-7800-8aa1-bbab2a035a53"}',
+      '{"type":"item.completed","item":{"id":"item_0","type":"agent_message","text":"first"}}',
+      '{"type":"turn.completed","usage":{"input_tokens":1200,"cached_input_tokens":800,"output_tokens":50}}',
+      "not json",
+      '{"type":"item.completed","item":{"id":"item_1","type":"agent_message","text":" done "}}',
+      '{"type":"turn.completed","usage":{"input_tokens":300,"output_tokens":20}}'
+    ].join("\n");
+
+    expect(parseCodexEvents(stdout)).toEqual({
+      usage: { inputTokens: 1500, outputTokens: 70, costUsd: null },
+      lastMessage: "done"
+    });
+  });
+
+  it("reads the running token count from older CLIs", () => {
+    const stdout = [
+      '{"id":"0","msg":{"type":"token_count","info":{"total_token_usage":{"input_tokens":10,"output_tokens":2}}}}',
+      '{"id":"0","msg":{"type":"agent_message","message":"hi"}}',
+      '{"id":"0","msg":{"type":"token_count","info":{"total_token_usage":{"input_tokens":40,"output_tokens":9}}}}'
+    ].join("\n");
+
+    expect(parseCodexEvents(stdout)).toEqual({ usage: { inputTokens: 40, outputTokens: 9, costUsd: null }, lastMessage: "hi" });
+    expect(parseCodexEvents("plain text output")).toEqual({ usage: null, lastMessage: "" });
+  });
+});
+
+describe("CodexAdapter", () => {
+  it("fails instead of replying with the raw event stream when codex sends no message", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-codex-"));
+    try {
+      const scriptPath = path.join(dir, "fake-codex.sh");
+      await fs.writeFile(
+        scriptPath,
+        ["#!/bin/sh", `echo '{"type":"thread.started","thread_id":"t1"}'`, `echo '{"type":"turn.completed","usage":{"input_tokens":5}}'`].join("\n"),
+        { mode: 0o755 }
+      );
+      const adapter = new CodexAdapter(scriptPath);
+      const runtime = await adapter.start({ userId: "u1", sessionRef: null, fresh: true });
+      await expect(adapter.send(runtime, "hi", 0, 5_000)).rejects.toThrow("No output from codex");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { computeServiceName, defaultConfig, normalizeConfig } from "../src/config.js";
+import { computeServiceName, defaultConfig, getEnabledAgents, isAgentEnabled, normalizeConfig } from "../src/config.js";
 
 describe("config multi-project defaults", () => {
   it("creates stable service name per project root", () => {
@@ -21,10 +21,31 @@ describe("config multi-project defaults", () => {
     expect(cfg.telegram.receiveTimeoutSec).toBe(30);
     expect(cfg.telegram.allowGroups).toBe(true);
     expect(cfg.telegram.groupMode).toBe("all");
+    expect(cfg.telegram.apiBaseUrl).toBe("https://api.telegram.org");
+    expect(cfg.telegram.transport).toBe("polling");
+    expect(cfg.telegram.webhookListenHost).toBe("127.0.0.1");
     expect(cfg.routing.responseChunkSize).toBe(3500);
+    expect(cfg.routing.maxConcurrentRuns).toBe(4);
+    expect(cfg.routing.maxReplyChunks).toBe(3);
+    expect(cfg.routing.handoff).toBe("off");
+    expect(cfg.limits).toEqual({ runsPerHour: 0, runsPerDay: 0, dailyUsd: 0, monthlyUsd: 0 });
+    expect(cfg.git).toEqual({ checkpoints: false, isolation: "off" });
     expect(cfg.retention.maxAudioBytes).toBe(100 * 1024 * 1024);
   });
 
+  it("falls back to unlimited for invalid limits", () => {
+    const cfg = defaultConfig("/srv/project-a") as any;
+    cfg.limits = { runsPerHour: 2.5, runsPerDay: 40, dailyUsd: -1, monthlyUsd: "20" };
+    expect(normalizeConfig(cfg, "/srv/project-a").limits).toEqual({ runsPerHour: 0, runsPerDay: 40, dailyUsd: 0, monthlyUsd: 0 });
+  });
+
+  it("defaults users to the owner role", () => {
+    const cfg = defaultConfig("/srv/project-a") as any;
+    expect(cfg.agents.defaultRole).toBe("owner");
+    cfg.agents.defaultRole = "admin";
+    expect(normalizeConfig(cfg, "/srv/project-a").agents.defaultRole).toBe("owner");
+  });
+
   it("migrates legacy signal receive timeout into telegram timeout", () => {
     const cfg = defaultConfig("/srv/project-a") as any;
     delete cfg.telegram;
@@ -41,4 +62,38 @@ describe("config multi-project defaults", () => {
     const normalized = normalizeConfig(cfg, "/srv/project-a");
     expect(normalized.agents.enabled.codex).toBe(true);
   });
+
+  it("fills model choices and keeps only Claude effort levels the SDK accepts", () => {
+    const cfg = defaultConfig("/srv/project-a");
+    (cfg.agents.codex as any).models = undefined;
+    cfg.agents.claude.reasoningEfforts = ["minimal", "high", "max"];
+    const normalized = normalizeConfig(cfg, "/srv/project-a");
+    expect(normalized.agents.codex.models).toEqual(["gpt-5-codex", "gpt-5"]);
+    expect(normalized.agents.claude.reasoningEfforts).toEqual(["high", "max"]);
+  });
+
+  it("normalizes the Telegram API base URL", () => {
+    const cfg = defaultConfig("/srv/project-a");
+    cfg.telegram.apiBaseUrl = "http://localhost:8081/";
+    expect(normalizeConfig(cfg, "/srv/project-a").telegram.apiBaseUrl).toBe("http://localhost:8081");
+    cfg.telegram.apiBaseUrl = "localhost:8081";
+    expect(normalizeConfig(cfg, "/srv/project-a").telegram.apiBaseUrl).toBe("https://api.telegram.org");
+  });
+
+  it("keeps valid custom agents and drops ones that would shadow commands", () => {
+    const cfg = defaultConfig("/srv/project-a") as any;
+    cfg.agents.custom = {
+      aider: { command: "aider", args: ["--message", "{prompt}"], sessionIdPattern: "(" },
+      cancel: { command: "x" },
+      codex: { command: "x" },
+      broken: { args: [] }
+    };
+    const normalized = normalizeConfig(cfg, "/srv/project-a");
+    expect(normalized.agents.custom).toEqual({
+      aider: { enabled: true, command: "aider", args: ["--message", "{prompt}"], resumeArgs: [], sessionIdPattern: "" }
+    });
+    expect(getEnabledAgents(normalized)).toEqual(["claude", "codex", "aider"]);
+    expect(isAgentEnabled(normalized, "aider")).toBe(true);
+    expect(isAgentEnabled(normalized, "gemini")).toBe(false);
+  });
 });
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { CustomCliAdapter, buildCustomAgentArgs } from "../src/agents/customCliAdapter.js";
+import type { CustomAgentConfig } from "../src/config.js";
+
+function makeSpec(overrides: Partial<CustomAgentConfig> = {}): CustomAgentConfig {
+  return {
+    enabled: true,
+    command: "fake-agent",
+    args: ["--message", "{prompt}"],
+    resumeArgs: ["--resume", "{session}"],
+    sessionIdPattern: "session: ([a-z0-9-]+)",
+    ...overrides
+  };
+}
+
+describe("CustomCliAdapter", () => {
+  let dir: string;
+  let scriptPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-custom-agent-"));
+    scriptPath = path.join(dir, "fake-agent.sh");
+    // Echoes its arguments (or stdin) and reports a session ID the way many CLIs do on stderr.
+    await fs.writeFile(
+      scriptPath,
+      [
+        "#!/bin/sh",
+        'if [ "$1" = "--resume" ]; then echo "resumed $2"; shift 2; fi',
+        'if [ "$1" = "--message" ]; then echo "reply to: $2"; else echo "stdin: $(cat)"; fi',
+        'echo "session: sess-42" >&2'
+      ].join("\n"),
+      { mode: 0o755 }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("fills the prompt and resume templates", () => {
+    expect(buildCustomAgentArgs(makeSpec(), "hi there", null)).toEqual(["--message", "hi there"]);
+    expect(buildCustomAgentArgs(makeSpec(), "hi", "s1")).toEqual(["--resume", "s1", "--message", "hi"]);
+  });
+
+  it("runs the CLI, captures the session ID and resumes with it", async () => {
+    const adapter = new CustomCliAdapter("fake", scriptPath, makeSpec());
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null });
+    expect(runtime.startMode).toBe("fresh");
+
+    const first = await adapter.send(runtime, "hello", 0, 10_000);
+    expect(first).toEqual({ text: "reply to: hello", sessionRef: "sess-42" });
+
+    const second = await adapter.send(runtime, "again", 0, 10_000);
+    expect(second.text).toBe("resumed sess-42\nreply to: again");
+  });
+
+  it("writes the prompt to stdin when the template has no placeholder", async () => {
+    const adapter = new CustomCliAdapter("fake", scriptPath, makeSpec({ args: [], resumeArgs: [], sessionIdPattern: "" }));
+    const runtime = await adapter.start({ userId: "u1", sessionRef: null });
+    const output = await adapter.send(runtime, "piped prompt", 0, 10_000);
+    expect(output).toEqual({ text: "stdin: piped prompt", sessionRef: null });
+  });
+});
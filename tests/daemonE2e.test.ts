@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { defaultConfig, ensureRuntimeDirs, getRuntimePaths, type CognalConfig, type RuntimePaths } from "../src/config.js";
+import { Db } from "../src/core/db.js";
+import { Logger } from "../src/core/logger.js";
+import { startDaemonLoop, type DaemonLoop } from "../src/core/daemonLoop.js";
+import { TelegramBotAdapter } from "../src/adapters/telegramBotAdapter.js";
+import { FakeTelegramApi } from "./support/fakeTelegramApi.js";
+import { FakeAgentAdapter } from "./support/fakeAgentAdapter.js";
+
+const USER_ID = 555001;
+
+describe("daemon loop end to end", () => {
+  let api: FakeTelegramApi;
+  let projectRoot: string;
+  let paths: RuntimePaths;
+  let cfg: CognalConfig;
+  let db: Db;
+  let codex: FakeAgentAdapter;
+  let claude: FakeAgentAdapter;
+  let loop: DaemonLoop | null = null;
+
+  beforeEach(async () => {
+    api = new FakeTelegramApi();
+    await api.start();
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-e2e-"));
+    paths = getRuntimePaths(projectRoot);
+    await ensureRuntimeDirs(paths);
+    cfg = defaultConfig(projectRoot);
+    cfg.telegram.apiBaseUrl = api.url;
+    cfg.telegram.receiveTimeoutSec = 1;
+    db = new Db(paths.dbPath);
+    await db.migrate();
+    codex = new FakeAgentAdapter("codex");
+    claude = new FakeAgentAdapter("claude");
+  });
+
+  async function shutdown(): Promise<void> {
+    if (loop) {
+      await loop.stop();
+      await loop.done;
+      loop = null;
+    }
+  }
+
+  afterEach(async () => {
+    await shutdown();
+    await api.close();
+    await db.close();
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  function boot(): void {
+    const chat = new TelegramBotAdapter(api.token, paths.telegramOffsetPath, undefined, cfg.telegram.apiBaseUrl);
+    loop = startDaemonLoop({
+      cfg,
+      paths,
+      db,
+      chat,
+      stt: null,
+      adapters: { codex, claude },
+      botUsername: api.bot.username,
+      logger: new Logger("e2e")
+    });
+  }
+
+  async function allowUser(): Promise<void> {
+    await db.addOrUpdateTelegramUser(String(USER_ID), { username: null, status: "active", defaultActiveAgent: "codex" });
+  }
+
+  it("answers an allowed user's message and persists the offset", async () => {
+    await allowUser();
+    boot();
+    const updateId = api.injectMessage({ fromId: USER_ID, text: "hello there" });
+
+    const reply = await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.includes("codex echo: hello there")));
+    expect(reply.method).toBe("sendMessage");
+    expect(codex.prompts[0]).toContain("hello there");
+    expect(claude.prompts).toEqual([]);
+
+    await api.waitFor(() => api.lastOffset === updateId + 1);
+    expect((await fs.readFile(paths.telegramOffsetPath, "utf8")).trim()).toBe(String(updateId + 1));
+    expect(api.chatActions.some((action) => action.chatId === String(USER_ID))).toBe(true);
+
+    await shutdown();
+    expect((await db.countInboxByStatus()).done).toBe(1);
+  });
+
+  it("switches agents with a slash command and keeps per-agent sessions", async () => {
+    await allowUser();
+    boot();
+    api.injectMessage({ fromId: USER_ID, text: "/claude" });
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text === "Switched active agent to claude."));
+    api.injectMessage({ fromId: USER_ID, text: "which agent?" });
+
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.includes("claude echo: which agent?")));
+    expect(codex.prompts).toEqual([]);
+    const user = await db.getUserByTelegramUserId(String(USER_ID));
+    const binding = await db.getBinding({ key: `${user!.id}:${USER_ID}`, userId: user!.id, chatId: String(USER_ID), threadId: null });
+    expect(binding.activeAgent).toBe("claude");
+    expect(binding.sessionRefs.claude).toBe("claude-session-1");
+  });
+
+  it("keeps named sessions apart and resumes one from the /sessions buttons", async () => {
+    await allowUser();
+    boot();
+    api.injectMessage({ fromId: USER_ID, text: "/new alpha" });
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text === "Started new codex session 'alpha'."));
+    api.injectMessage({ fromId: USER_ID, text: "first question" });
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.includes("codex echo: first question")));
+    api.injectMessage({ fromId: USER_ID, text: "/new beta" });
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text === "Started new codex session 'beta'."));
+    api.injectMessage({ fromId: USER_ID, text: "/sessions" });
+
+    const list = await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.startsWith("Sessions")));
+    const buttons = (list.params.reply_markup as { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> }).inline_keyboard;
+    expect(buttons.map((row) => row[0].text)).toEqual(["• beta (codex)", "alpha (codex)"]);
+    api.pressButton({ fromId: USER_ID, message: list, data: buttons[1][0].callback_data });
+
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text === "Resumed session 'alpha' (codex)."));
+    expect(api.callbackAnswers.map((answer) => answer.text)).toEqual(["Resuming 'alpha'"]);
+    api.injectMessage({ fromId: USER_ID, text: "follow up" });
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.includes("codex echo: follow up")));
+    expect(codex.starts.map((start) => start.sessionRef)).toEqual([null, "codex-session-1"]);
+  });
+
+  it("downloads attachments through getFile before prompting the agent", async () => {
+    await allowUser();
+    boot();
+    const fileId = api.addFile("line one\nline two\n", "documents/notes.txt");
+    api.injectMessage({
+      fromId: USER_ID,
+      caption: "summarize this",
+      document: { fileId, fileName: "notes.txt", mimeType: "text/plain", size: 18 }
+    });
+
+    await api.waitFor(() => api.sentTo(USER_ID).find((message) => message.text.includes("codex echo: summarize this")));
+    expect(api.calls).toContain("getFile");
+    const stagedPath = codex.prompts[0].match(/- \[document\] (\S+) /)?.[1];
+    expect(stagedPath).toBeTruthy();
+    expect(await fs.readFile(stagedPath!, "utf8")).toBe("line one\nline two\n");
+  });
+
+  it("denies unknown users without reaching an agent", async () => {
+    boot();
+    api.injectMessage({ fromId: 999, text: "let me in" });
+
+    const reply = await api.waitFor(() => api.sentTo(999)[0]);
+    expect(reply.text).toContain("Access denied. Your Telegram user ID is 999.");
+    expect(codex.prompts).toEqual([]);
+    expect((await db.listAccessRequests("pending")).map((request) => request.telegramUserId)).toEqual(["999"]);
+  });
+});
@@ -88,17 +88,273 @@ describe("Db migrations", () => {
     const messageCols = await allRows<{ name: string }>(dbPath, "PRAGMA table_info(messages)");
     const tables = await allRows<{ name: string }>(
       dbPath,
-      `SELECT name FROM sqlite_master WHERE type='table' AND name IN ('allowed_chats', 'access_requests')`
+      `SELECT name FROM sqlite_master WHERE type='table' AND name IN ('allowed_chats', 'access_requests', 'inbox')`
     );
 
     expect(userCols.map((c) => c.name)).toContain("telegram_user_id");
     expect(userCols.map((c) => c.name)).toContain("telegram_username");
     expect(userCols.map((c) => c.name)).toContain("display_name");
     expect(userCols.map((c) => c.name)).toContain("last_seen_at");
+    expect(userCols.map((c) => c.name)).toContain("is_admin");
 
     expect(messageCols.map((c) => c.name)).toContain("transport_message_id");
     expect(messageCols.map((c) => c.name)).toContain("chat_id");
 
-    expect(tables.map((t) => t.name).sort()).toEqual(["access_requests", "allowed_chats"]);
+    expect(tables.map((t) => t.name).sort()).toEqual(["access_requests", "allowed_chats", "inbox"]);
+  });
+
+  it("moves user-keyed bindings to the private-chat scope and keeps topics apart", async () => {
+    await runSql(
+      dbPath,
+      `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        phone_e164 TEXT NOT NULL UNIQUE,
+        email TEXT NOT NULL,
+        signal_account_id TEXT,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        telegram_user_id TEXT
+      );
+      CREATE TABLE bindings (
+        user_id TEXT PRIMARY KEY,
+        active_agent TEXT NOT NULL,
+        claude_session_ref TEXT,
+        codex_session_ref TEXT,
+        updated_at TEXT NOT NULL
+      );
+      INSERT INTO users VALUES ('u1', 'tg:123', 'x@local.invalid', NULL, 'active', '2024-01-01T00:00:00Z', '123');
+      INSERT INTO bindings VALUES ('u1', 'claude', 'claude-ref', NULL, '2024-01-01T00:00:00Z');
+      `
+    );
+
+    const db = new Db(dbPath);
+    await db.migrate();
+    await db.migrate();
+
+    const directScope = { key: "u1:123", userId: "u1", chatId: "123", threadId: null };
+    const direct = await db.getBinding(directScope);
+    expect(direct.activeAgent).toBe("claude");
+    expect(direct.sessionRefs.claude).toBe("claude-ref");
+
+    const topic = { key: "u1:-100:7", userId: "u1", chatId: "-100", threadId: "7" };
+    expect((await db.getBinding(topic, "codex")).sessionRefs).toEqual({});
+    await db.updateSessionRef(topic.key, "codex", "topic-ref");
+    expect((await db.getBinding(topic)).sessionRefs.codex).toBe("topic-ref");
+    expect((await db.getBinding(directScope)).sessionRefs).toEqual({ claude: "claude-ref" });
+    await db.close();
+  });
+
+  it("keeps session refs per agent, including custom agents", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    const scope = { key: "u1:123", userId: "u1", chatId: "123", threadId: null };
+    await db.getBinding(scope, "codex");
+
+    await db.updateSessionRef(scope.key, "aider", "aider-ref");
+    await db.updateSessionRef(scope.key, "codex", "codex-ref");
+    expect((await db.getBinding(scope)).sessionRefs).toEqual({ aider: "aider-ref", codex: "codex-ref" });
+
+    await db.updateSessionRef(scope.key, "aider", null);
+    await db.migrate();
+    expect((await db.getBinding(scope)).sessionRefs).toEqual({ codex: "codex-ref" });
+    await db.close();
+  });
+
+  it("keeps named sessions per scope and syncs the active one's ref", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    const scope = { key: "u1:123", userId: "u1", chatId: "123", threadId: null };
+    await db.getBinding(scope, "codex");
+
+    const first = await db.createNamedSession(scope.key, "first", "codex", null);
+    const second = await db.createNamedSession(scope.key, "second", "claude", "claude-old");
+    await expect(db.createNamedSession(scope.key, "first", "codex", null)).rejects.toThrow();
+    await db.createNamedSession("u2:456", "first", "codex", null);
+
+    await db.setActiveSession(scope.key, first.id);
+    await db.updateSessionRef(scope.key, "codex", "codex-new");
+    await db.updateSessionRef(scope.key, "claude", "claude-unrelated");
+
+    expect((await db.getBinding(scope)).activeSessionId).toBe(first.id);
+    expect((await db.getNamedSession(scope.key, { name: "first" }))?.sessionRef).toBe("codex-new");
+    expect((await db.getNamedSession(scope.key, { id: second.id }))?.sessionRef).toBe("claude-old");
+    expect(await db.getNamedSession("u2:456", { id: first.id })).toBeNull();
+    expect((await db.listNamedSessions(scope.key)).map((session) => session.name)).toEqual(["first", "second"]);
+    await db.close();
+  });
+
+  it("lists recent messages per user or chat-wide, oldest first", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    const ada = await db.addOrUpdateTelegramUser("1", { username: "ada", displayName: "Ada", status: "active" });
+    const bob = await db.addOrUpdateTelegramUser("2", { username: "bob", status: "active" });
+    await db.insertMessage(ada.id, null, "-100", "in", "first");
+    await db.insertMessage(bob.id, null, "-100", "in", "second");
+    await db.insertMessage(ada.id, null, "-100", "out", "third");
+    await db.insertMessage(ada.id, null, "1", "in", "private");
+
+    expect((await db.listRecentMessages({ chatId: "-100" }, 2)).map((message) => [message.senderName, message.body])).toEqual([
+      ["bob", "second"],
+      ["Ada", "third"]
+    ]);
+    expect((await db.listRecentMessages({ chatId: "-100", userId: ada.id }, 10)).map((message) => message.body)).toEqual(["first", "third"]);
+    await db.close();
+  });
+
+  it("stores model preferences per scope and agent", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+
+    await db.setModelPreference("u1:123", "codex", { model: "gpt-5", reasoningEffort: "high" });
+    await db.setModelPreference("u1:123", "codex", { model: null, reasoningEffort: "low" });
+    await db.setModelPreference("chat:-100", "claude", { model: "opus", reasoningEffort: null });
+    await db.migrate();
+
+    expect(await db.getModelPreference("u1:123", "codex")).toEqual({ model: null, reasoningEffort: "low" });
+    expect(await db.getModelPreference("u1:123", "claude")).toEqual({ model: null, reasoningEffort: null });
+    expect(await db.getModelPreference("chat:-100", "claude")).toEqual({ model: "opus", reasoningEffort: null });
+    await db.setModelPreference("chat:-100", "claude", { model: null, reasoningEffort: null });
+    expect(await db.getModelPreference("chat:-100", "claude")).toEqual({ model: null, reasoningEffort: null });
+    await db.close();
+  });
+
+  it("summarizes agent runs by user, chat and agent", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    const ada = await db.addOrUpdateTelegramUser("1", { username: "ada", status: "active" });
+    await db.allowChat("-100", "supergroup", "Team");
+    const run = {
+      userId: ada.id,
+      chatId: "-100",
+      scopeKey: "chat:-100",
+      agent: "claude",
+      startedAt: "2025-03-01T10:00:00.000Z",
+      durationMs: 2000,
+      inputTokens: 100,
+      outputTokens: 10,
+      costUsd: 0.5,
+      outcome: "success" as const,
+      diagnosticId: null
+    };
+    await db.insertAgentRun(run);
+    await db.insertAgentRun({ ...run, startedAt: "2025-03-02T10:00:00.000Z", costUsd: 0.25 });
+    await db.insertAgentRun({ ...run, chatId: "1", agent: "codex", costUsd: null, outcome: "error", diagnosticId: "abcd1234" });
+
+    expect(await db.summarizeAgentRuns({ by: "user" })).toEqual([
+      { key: ada.id, label: "ada", runs: 3, failedRuns: 1, inputTokens: 300, outputTokens: 30, costUsd: 0.75, durationMs: 6000 }
+    ]);
+    expect((await db.summarizeAgentRuns({ by: "chat" })).map((row) => [row.label, row.runs])).toEqual([
+      ["Team", 2],
+      ["1", 1]
+    ]);
+    expect((await db.summarizeAgentRuns({ by: "agent", since: "2025-03-02T00:00:00.000Z" })).map((row) => [row.key, row.costUsd])).toEqual([
+      ["claude", 0.25]
+    ]);
+    expect(await db.summarizeAgentRuns({ by: "user", userId: "nobody" })).toEqual([]);
+    await db.close();
+  });
+
+  it("writes a run's row when it starts and completes it at the end", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    const run = {
+      userId: "u1",
+      chatId: "1",
+      scopeKey: "u1:1",
+      agent: "claude",
+      startedAt: "2025-03-01T10:00:00.000Z",
+      durationMs: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: null,
+      outcome: "running" as const,
+      diagnosticId: null,
+      checkpointBefore: null,
+      checkpointAfter: null,
+      editedFiles: []
+    };
+    const finished = await db.insertAgentRun(run);
+    await db.insertAgentRun({ ...run, startedAt: "2025-03-01T10:05:00.000Z" });
+    expect(await db.listAgentRunStarts("u1", "2025-03-01T00:00:00.000Z")).toHaveLength(2);
+
+    await db.finishAgentRun(finished, { ...run, agent: "codex", durationMs: 1500, costUsd: 0.5, outcome: "success" });
+    expect(await db.failUnfinishedAgentRuns()).toBe(1);
+    expect(await db.summarizeAgentRuns({ by: "agent" })).toMatchObject([
+      { key: "codex", runs: 1, failedRuns: 0, costUsd: 0.5, durationMs: 1500 },
+      { key: "claude", runs: 1, failedRuns: 1 }
+    ]);
+    await db.close();
+  });
+
+  it("promotes admins and reports each new access request once", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    await db.addOrUpdateTelegramUser("100000001", { username: "ada" });
+    expect((await db.getUserByTelegramUserId("100000001"))?.isAdmin).toBe(false);
+    expect(await db.setAdminByTelegramUserId("100000001", true)).toBe(true);
+    expect(await db.setAdminByTelegramUserId("999999999", true)).toBe(false);
+    expect((await db.getUserByTelegramUserId("100000001"))?.role).toBeNull();
+    expect(await db.setRoleByTelegramUserId("100000001", "viewer")).toBe(true);
+    expect((await db.listUsers())[0].role).toBe("viewer");
+    expect(await db.setRoleByTelegramUserId("999999999", "owner")).toBe(false);
+    expect((await db.listAdmins()).map((user) => user.telegramUsername)).toEqual(["ada"]);
+
+    expect(await db.recordAccessRequest("200000002", "200000002", "bob", null)).toBe(true);
+    expect(await db.recordAccessRequest("200000002", "200000002", "bob", null)).toBe(false);
+    expect(await db.recordAccessRequest("200000002", "-100", "bob", null)).toBe(false);
+    expect(await db.rejectAccessRequest("200000002")).toBe(true);
+    expect(await db.listAccessRequests("rejected")).toHaveLength(2);
+    await db.close();
+  });
+
+  it("throttles denial replies and tracks blocked requesters", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    await db.recordAccessRequest("200000002", "200000002", "bob", null);
+    await db.recordAccessRequest("200000002", "-100", "bob", null);
+    expect(await db.claimDenialReply("200000002", "2025-03-09T12:00:00.000Z", "2025-03-10T12:00:00.000Z")).toBe(true);
+    expect(await db.claimDenialReply("200000002", "2025-03-09T13:00:00.000Z", "2025-03-10T13:00:00.000Z")).toBe(false);
+    expect(await db.claimDenialReply("200000002", "2025-03-10T12:30:00.000Z", "2025-03-11T12:30:00.000Z")).toBe(true);
+
+    expect(await db.isRequesterIgnored("200000002")).toBe(false);
+    await db.blockTelegramUser("200000002");
+    expect(await db.isRequesterIgnored("200000002")).toBe(true);
+    expect((await db.listAccessRequests("rejected")).map((request) => request.chatId).sort()).toEqual(["-100", "200000002"]);
+    expect(await db.unblockTelegramUser("200000002")).toBe(true);
+    expect(await db.isTelegramUserBlocked("200000002")).toBe(false);
+    // Still rejected until someone approves them.
+    expect(await db.isRequesterIgnored("200000002")).toBe(true);
+    await db.approveAccessRequest("200000002");
+    expect(await db.isRequesterIgnored("200000002")).toBe(false);
+    await db.close();
+  });
+
+  it("stores per-user limit overrides and clears them", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+    expect(await db.getUserLimits("u1")).toEqual({});
+    await db.setUserLimits("u1", { runsPerHour: 5, monthlyUsd: 12.5 });
+    expect(await db.getUserLimits("u1")).toEqual({ runsPerHour: 5, monthlyUsd: 12.5 });
+    await db.setUserLimits("u1", { runsPerDay: 0 });
+    expect(await db.getUserLimits("u1")).toEqual({ runsPerDay: 0 });
+    await db.setUserLimits("u1", {});
+    expect(await db.getUserLimits("u1")).toEqual({});
+    await db.close();
+  });
+
+  it("stores the session scope of allowed chats", async () => {
+    const db = new Db(dbPath);
+    await db.migrate();
+
+    await db.allowChat("-100", "supergroup", "Team", "chat");
+    await db.allowChat("-100", "supergroup", "Team renamed");
+    await db.allowChat("-200", "group");
+
+    expect(await db.getChatSessionScope("-100")).toBe("chat");
+    expect(await db.getChatSessionScope("-200")).toBe("user");
+    expect(await db.getChatSessionScope("-300")).toBe("user");
+    expect((await db.listAllowedChats()).map((chat) => chat.sessionScope)).toEqual(["chat", "user"]);
+    await db.close();
   });
 });
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { InboundDispatcher, dispatchKeyForEvent } from "../src/core/dispatcher.js";
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe("InboundDispatcher", () => {
+  it("keeps tasks for the same key in order", async () => {
+    const dispatcher = new InboundDispatcher({ maxConcurrency: 4 });
+    const order: string[] = [];
+    const gate = deferred();
+
+    void dispatcher.enqueue("user:1", async () => {
+      await gate.promise;
+      order.push("first");
+    });
+    void dispatcher.enqueue("user:1", async () => {
+      order.push("second");
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(order).toEqual([]);
+    gate.resolve();
+    await dispatcher.onIdle();
+
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("runs different keys in parallel while one key is blocked", async () => {
+    const dispatcher = new InboundDispatcher({ maxConcurrency: 4 });
+    const order: string[] = [];
+    const gate = deferred();
+
+    void dispatcher.enqueue("user:slow", async () => {
+      await gate.promise;
+      order.push("slow");
+    });
+    await dispatcher.enqueue("user:fast", async () => {
+      order.push("fast");
+    });
+
+    expect(order).toEqual(["fast"]);
+    gate.resolve();
+    await dispatcher.onIdle();
+    expect(order).toEqual(["fast", "slow"]);
+  });
+
+  it("caps global concurrency", async () => {
+    const dispatcher = new InboundDispatcher({ maxConcurrency: 2 });
+    const gate = deferred();
+    let running = 0;
+    let peak = 0;
+
+    for (const key of ["a", "b", "c", "d"]) {
+      void dispatcher.enqueue(key, async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await gate.promise;
+        running -= 1;
+      });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(dispatcher.activeCount()).toBe(2);
+    expect(dispatcher.pendingCount()).toBe(4);
+    gate.resolve();
+    await dispatcher.onIdle();
+
+    expect(peak).toBe(2);
+    expect(dispatcher.activeCount()).toBe(0);
+  });
+
+  it("reports task errors without stalling the queue", async () => {
+    const errors: string[] = [];
+    const dispatcher = new InboundDispatcher({
+      maxConcurrency: 1,
+      onError: (key, err) => {
+        errors.push(`${key}:${String(err)}`);
+      }
+    });
+    const order: string[] = [];
+
+    void dispatcher.enqueue("user:1", async () => {
+      throw new Error("boom");
+    });
+    void dispatcher.enqueue("user:1", async () => {
+      order.push("after-error");
+    });
+    await dispatcher.onIdle();
+
+    expect(errors).toEqual(["user:1:Error: boom"]);
+    expect(order).toEqual(["after-error"]);
+  });
+
+  it("runs control tasks immediately even when the key and all slots are busy", async () => {
+    const dispatcher = new InboundDispatcher({ maxConcurrency: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    void dispatcher.enqueue("user:1", async () => {
+      await gate.promise;
+      order.push("run");
+    });
+    await dispatcher.runImmediately("user:1", async () => {
+      order.push("cancel");
+      gate.resolve();
+    });
+    await dispatcher.onIdle();
+
+    expect(order).toEqual(["cancel", "run"]);
+  });
+
+  it("keys events by sender", () => {
+    expect(dispatchKeyForEvent({ fromUserId: "123" })).toBe("user:123");
+  });
+});
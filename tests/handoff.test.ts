@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { buildHandoffDigest } from "../src/core/handoff.js";
+import type { TranscriptMessage } from "../src/types.js";
+
+function message(direction: "in" | "out", body: string, senderName: string | null = "Ada"): TranscriptMessage {
+  return { direction, body, senderName, createdAt: new Date().toISOString() };
+}
+
+describe("buildHandoffDigest", () => {
+  it("skips slash commands and names members in shared chats", () => {
+    const messages = [message("in", "/codex"), message("in", "deploy it"), message("out", "done"), message("in", "  ", "Bob")];
+    expect(buildHandoffDigest(messages, { fromAgent: "claude", maxChars: 1000, shared: true })).toBe(
+      ["[Handoff from claude. Recent conversation in this chat, oldest first:]", "Ada: deploy it", "Assistant: done", "[End of handoff.]"].join("\n\n")
+    );
+    expect(buildHandoffDigest([message("in", "/new")], { fromAgent: "claude", maxChars: 1000, shared: false })).toBeNull();
+  });
+
+  it("keeps the newest messages within the character budget", () => {
+    const messages = ["a", "b", "c", "d"].map((letter, index) => message(index % 2 ? "out" : "in", letter.repeat(300)));
+    const digest = buildHandoffDigest([...messages, message("in", "latest")], { fromAgent: "codex", maxChars: 400, shared: false })!;
+
+    expect(digest).not.toContain("aaa");
+    expect(digest).toContain(`Assistant: ${"b".repeat(99)}…\n\nUser: ${"c".repeat(99)}…`);
+    expect(digest).toContain("User: latest\n\n[End of handoff.]");
+  });
+});
@@ -4,8 +4,9 @@ import path from "node:path";
 import { promises as fs } from "node:fs";
 import { processInboundEvent, runAttachmentCleanup } from "../src/core/inbound.js";
 import { Logger } from "../src/core/logger.js";
-import type { InboundChatEvent } from "../src/adapters/chatAdapter.js";
-import type { AgentType, InboundAttachment, UserRecord } from "../src/types.js";
+import { AgentCancelledError } from "../src/core/errors.js";
+import type { InboundChatEvent, SendMessageOptions } from "../src/adapters/chatAdapter.js";
+import type { AgentType, InboundAttachment, NamedSessionRecord, UserLimits, UserRecord } from "../src/types.js";
 
 class FakeDb {
   user: UserRecord | null = {
@@ -14,6 +15,7 @@ class FakeDb {
     telegramUsername: "tester",
     displayName: "Tester",
     status: "active",
+    isAdmin: false,
     lastSeenAt: null,
     createdAt: new Date().toISOString()
   };
@@ -27,8 +29,8 @@ class FakeDb {
   binding = {
     userId: "u1",
     activeAgent: "codex" as AgentType,
-    claudeSessionRef: "claude-session",
-    codexSessionRef: "codex-session",
+    sessionRefs: { claude: "claude-session", codex: "codex-session" } as Record<string, string>,
+    activeSessionId: null as string | null,
     updatedAt: new Date().toISOString()
   };
 
@@ -36,8 +38,21 @@ class FakeDb {
     return this.user;
   }
 
-  async recordAccessRequest(userId: string, chatId: string): Promise<void> {
+  async recordAccessRequest(userId: string, chatId: string): Promise<boolean> {
     this.accessRequests.push({ userId, chatId });
+    return this.accessRequests.length === 1;
+  }
+
+  async listAdmins(): Promise<UserRecord[]> {
+    return [];
+  }
+
+  async isRequesterIgnored(): Promise<boolean> {
+    return false;
+  }
+
+  async claimDenialReply(): Promise<boolean> {
+    return true;
   }
 
   async touchTelegramUserSeen(): Promise<void> {}
@@ -46,6 +61,12 @@ class FakeDb {
     return this.allowedChats.has(chatId);
   }
 
+  chatScopes = new Map<string, "user" | "chat">();
+
+  async getChatSessionScope(chatId: string): Promise<"user" | "chat"> {
+    return this.chatScopes.get(chatId) ?? "user";
+  }
+
   async insertMessage(_userId: string, _transportMessageId: string | null, chatId: string | null, direction: "in" | "out", body: string): Promise<string> {
     this.messages.push({ direction, body, chatId });
     return `m${this.messages.length}`;
@@ -59,6 +80,38 @@ class FakeDb {
     return this.binding;
   }
 
+  namedSessions: NamedSessionRecord[] = [];
+
+  async createNamedSession(scopeKey: string, name: string, agent: AgentType, sessionRef: string | null): Promise<NamedSessionRecord> {
+    const now = new Date().toISOString();
+    const session = { id: `s${this.namedSessions.length + 1}`, scopeKey, name, agent, sessionRef, createdAt: now, lastUsedAt: now };
+    this.namedSessions.push(session);
+    return session;
+  }
+
+  async getNamedSession(scopeKey: string, lookup: { id?: string; name?: string }): Promise<NamedSessionRecord | null> {
+    return (
+      this.namedSessions.find(
+        (session) => session.scopeKey === scopeKey && (lookup.id ? session.id === lookup.id : session.name === lookup.name)
+      ) ?? null
+    );
+  }
+
+  async listNamedSessions(scopeKey: string): Promise<NamedSessionRecord[]> {
+    return this.namedSessions.filter((session) => session.scopeKey === scopeKey);
+  }
+
+  limits: Partial<UserLimits> = {};
+  runStarts: string[] = [];
+
+  async getUserLimits(): Promise<Partial<UserLimits>> {
+    return this.limits;
+  }
+
+  async listAgentRunStarts(_userId: string, since: string): Promise<string[]> {
+    return this.runStarts.filter((startedAt) => startedAt >= since);
+  }
+
   async listExpiredAttachmentPaths(): Promise<string[]> {
     return [...this.expiredPaths];
   }
@@ -70,37 +123,79 @@ class FakeDb {
 
 class FakeManager {
   switched: AgentType[] = [];
+  switchOptions: Array<{ checkLimits?: () => Promise<unknown> }> = [];
   prompts: string[] = [];
   cleared: AgentType[] = [];
   responseText = "agent-ok";
 
-  async switchAgent(_userId: string, agent: AgentType): Promise<void> {
+  async switchAgent(_userId: string, agent: AgentType, options: { checkLimits?: () => Promise<unknown> } = {}): Promise<void> {
     this.switched.push(agent);
+    this.switchOptions.push(options);
   }
 
-  async sendToActive(_userId: string, input: string): Promise<{ text: string }> {
+  scopes: string[] = [];
+
+  async sendToActive(scope: { key: string }, input: string): Promise<{ text: string }> {
+    this.scopes.push(scope.key);
     this.prompts.push(input);
     return { text: this.responseText };
   }
 
+  sessionSwitches: Array<{ agent: AgentType; sessionRef: string | null; namedSessionId: string | null }> = [];
+
+  async switchSession(_scope: { key: string }, agent: AgentType, sessionRef: string | null, namedSessionId: string | null): Promise<void> {
+    this.sessionSwitches.push({ agent, sessionRef, namedSessionId });
+  }
+
   async clearAgentSession(_userId: string, agent: AgentType): Promise<void> {
     this.cleared.push(agent);
   }
+
+  cancelled: string[] = [];
+  hasActiveRun = false;
+
+  cancelActive(userId: string): boolean {
+    this.cancelled.push(userId);
+    return this.hasActiveRun;
+  }
 }
 
 class FakeChat {
-  sent: Array<{ chatId: string; text: string; options?: { parseMode?: "HTML"; disableWebPagePreview?: boolean } }> = [];
+  sent: Array<{ chatId: string; text: string; options?: SendMessageOptions }> = [];
   typing: string[] = [];
   downloadBodies = new Map<string, string>();
 
-  async sendMessage(chatId: string, text: string, options?: { parseMode?: "HTML"; disableWebPagePreview?: boolean }): Promise<void> {
+  edits: Array<{ messageId: string; text: string }> = [];
+
+  async sendMessage(chatId: string, text: string, options?: SendMessageOptions): Promise<string> {
     this.sent.push({ chatId, text, options });
+    return String(this.sent.length);
+  }
+
+  async editMessageText(_chatId: string, messageId: string, text: string): Promise<void> {
+    this.edits.push({ messageId, text });
   }
 
   async sendTyping(chatId: string): Promise<void> {
     this.typing.push(chatId);
   }
 
+  files: Array<{ kind: "document" | "photo"; name: string }> = [];
+  documentError: Error | null = null;
+
+  async sendDocument(_chatId: string, filePath: string): Promise<string> {
+    if (this.documentError) {
+      throw this.documentError;
+    }
+    this.files.push({ kind: "document", name: path.basename(filePath) });
+    return "doc";
+  }
+
+  async sendPhoto(_chatId: string, filePath: string): Promise<string> {
+    this.files.push({ kind: "photo", name: path.basename(filePath) });
+    return "photo";
+  }
+
   async downloadAttachment(fileId: string, targetPath: string): Promise<void> {
     await fs.mkdir(path.dirname(targetPath), { recursive: true });
     await fs.writeFile(targetPath, this.downloadBodies.get(fileId) ?? "file-data", "utf8");
@@ -125,6 +220,11 @@ function makeEvent(overrides: Partial<InboundChatEvent> = {}): InboundChatEvent
   };
 }
 
+function makePaths() {
+  const base = path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`);
+  return { tempDir: base, outboxDir: path.join(base, "outbox") };
+}
+
 function makeConfig() {
   return {
     projectId: "proj",
@@ -133,12 +233,14 @@ function makeConfig() {
     agents: {
       enabled: { claude: true, codex: true },
       claude: { command: "claude", args: [] },
-      codex: { command: "codex", args: [] }
+      codex: { command: "codex", args: [] },
+      custom: {}
     },
     routing: { failoverEnabled: true, responseChunkSize: 5 },
     stt: { provider: "openai", model: "whisper-1", apiKeyEnv: "OPENAI_API_KEY" },
     retention: { attachmentsHours: 24, maxAudioBytes: 100 * 1024 * 1024, maxImageBytes: 50 * 1024 * 1024, maxDocumentBytes: 100 * 1024 * 1024 },
-    timeouts: { agentResponseSec: 240, failoverRetrySec: 30, agentIdleMs: 1500 }
+    timeouts: { agentResponseSec: 240, failoverRetrySec: 30, agentIdleMs: 1500 },
+    limits: { runsPerHour: 0, runsPerDay: 0, dailyUsd: 0, monthlyUsd: 0 }
   } as const;
 }
 
@@ -155,7 +257,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg: makeConfig() as any,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -180,7 +282,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -201,7 +303,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg: makeConfig() as any,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -223,7 +325,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg: makeConfig() as any,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -234,6 +336,164 @@ describe("processInboundEvent", () => {
     expect(chat.sent[0]?.text).toBe("Cleared active Claude session.");
   });
 
+  it("starts a named session and saves the unnamed conversation first", async () => {
+    const db = new FakeDb();
+    const manager = new FakeManager();
+    const chat = new FakeChat();
+
+    await processInboundEvent({
+      event: makeEvent({ text: "/new bugfix", isCommand: true }),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(db.namedSessions.map((session) => [session.name, session.sessionRef])).toEqual([
+      ["previous", "codex-session"],
+      ["bugfix", null]
+    ]);
+    expect(manager.sessionSwitches).toEqual([{ agent: "codex", sessionRef: null, namedSessionId: "s2" }]);
+    expect(manager.prompts).toEqual([]);
+    expect(chat.sent[0]?.text).toBe("Started new codex session 'bugfix'.\nThe previous conversation is saved as 'previous'.");
+  });
+
+  it("lists named sessions as buttons and resumes one by name or button", async () => {
+    const db = new FakeDb();
+    const manager = new FakeManager();
+    const chat = new FakeChat();
+    const scopeKey = "u1:c1";
+    await db.createNamedSession(scopeKey, "bugfix", "claude", "claude-bugfix");
+    await db.createNamedSession("u1:other", "elsewhere", "codex", null);
+    const run = (text: string) =>
+      processInboundEvent({
+        event: makeEvent({ text, isCommand: true }),
+        db: db as any,
+        manager: manager as any,
+        chat: chat as any,
+        stt: null,
+        cfg: makeConfig() as any,
+        paths: makePaths(),
+        botUsername: "mybot",
+        logger: new Logger("test"),
+        isAgentEnabled: () => true
+      });
+
+    await run("/sessions");
+    expect(chat.sent[0]?.options?.inlineKeyboard).toEqual([[{ text: "bugfix (claude)", callbackData: "rs:s1" }]]);
+
+    await run("/resume elsewhere");
+    expect(chat.sent[1]?.text).toBe("No session named 'elsewhere'. Use /sessions to list them.");
+
+    await run("/resume bugfix");
+    expect(chat.sent[2]?.text).toBe("Resumed session 'bugfix' (claude).");
+    expect(manager.sessionSwitches).toEqual([{ agent: "claude", sessionRef: "claude-bugfix", namedSessionId: "s1" }]);
+    expect(manager.prompts).toEqual([]);
+  });
+
+  it("cancels the active run for /cancel without prompting the agent", async () => {
+    const db = new FakeDb();
+    const manager = new FakeManager();
+    manager.hasActiveRun = true;
+    const chat = new FakeChat();
+
+    await processInboundEvent({
+      event: makeEvent({ text: "/cancel", isCommand: true }),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.cancelled).toEqual(["u1:c1"]);
+    expect(manager.prompts).toEqual([]);
+    expect(chat.sent[0]?.text).toContain("Cancelled the running agent task");
+  });
+
+  it("refuses a run once the user's hourly limit is reached", async () => {
+    const db = new FakeDb();
+    db.limits = { runsPerHour: 2 };
+    db.runStarts = [new Date(Date.now() - 30 * 60_000).toISOString(), new Date(Date.now() - 10 * 60_000).toISOString()];
+    const manager = new FakeManager();
+    const chat = new FakeChat();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.prompts).toEqual([]);
+    expect(chat.sent[0]?.text).toMatch(/^You've reached your limit of 2 runs per hour\. It resets (at|on) .* \(in 30 min\)\.$/);
+  });
+
+  it("holds a summary handoff to the user's limits", async () => {
+    const db = new FakeDb();
+    db.limits = { runsPerHour: 1 };
+    db.runStarts = [new Date(Date.now() - 10 * 60_000).toISOString()];
+    const manager = new FakeManager();
+    const chat = new FakeChat();
+    const cfg = makeConfig();
+
+    await processInboundEvent({
+      event: makeEvent({ text: "/claude", isCommand: true }),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: { ...cfg, routing: { ...cfg.routing, handoff: "summary" } } as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.switched).toEqual(["claude"]);
+    expect(await manager.switchOptions[0].checkLimits?.()).toMatchObject({ limit: "1 run per hour" });
+  });
+
+  it("stays silent when the in-flight run was cancelled", async () => {
+    const db = new FakeDb();
+    const manager = new FakeManager();
+    manager.sendToActive = async () => {
+      throw new AgentCancelledError();
+    };
+    const chat = new FakeChat();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(chat.sent).toEqual([]);
+    expect(db.messages.filter((m) => m.direction === "out")).toEqual([]);
+  });
+
   it("stages audio, appends transcription failures, and chunks the response", async () => {
     const db = new FakeDb();
     const manager = new FakeManager();
@@ -262,7 +522,7 @@ describe("processInboundEvent", () => {
         }
       } as any,
       cfg: makeConfig() as any,
-      paths: { tempDir: tmpDir },
+      paths: { tempDir: tmpDir, outboxDir: path.join(tmpDir, "outbox") },
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -301,7 +561,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -326,7 +586,7 @@ describe("processInboundEvent", () => {
       chat: chat as any,
       stt: null,
       cfg: makeConfig() as any,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -339,11 +599,40 @@ describe("processInboundEvent", () => {
     expect(combined).not.toContain("429 rate limit exceeded");
   });
 
+  it("posts and finalizes a progress message when progress updates are enabled", async () => {
+    const db = new FakeDb();
+    const chat = new FakeChat();
+    const manager = new FakeManager();
+    const cfg = makeConfig() as any;
+    cfg.routing.progressUpdates = true;
+    cfg.routing.progressEditIntervalMs = 3000;
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(chat.sent[0]?.text).toBe("Working...");
+    expect(chat.edits).toHaveLength(1);
+    expect(chat.edits[0]).toMatchObject({ messageId: "1" });
+    expect(chat.edits[0].text).toMatch(/^Finished after/);
+    expect(chat.sent.slice(1).map((item) => item.text).join("")).toBe("agent-ok");
+  });
+
   it("formats agent output as Telegram HTML before sending", async () => {
     const db = new FakeDb();
     const chat = new FakeChat();
     const manager = new FakeManager();
     manager.responseText = ["**Projektziel**", "", "Das steht in [README.md](/tmp/README.md)."].join("\n");
+    const cfg = makeConfig();
 
     await processInboundEvent({
       event: makeEvent(),
@@ -351,8 +640,9 @@ describe("processInboundEvent", () => {
       manager: manager as any,
       chat: chat as any,
       stt: null,
-      cfg: makeConfig() as any,
-      paths: { tempDir: path.join(os.tmpdir(), `cognal-inbound-${Date.now()}`) },
+      // Chunks close and reopen tags, so use a size that can hold a formatted line.
+      cfg: { ...cfg, routing: { ...cfg.routing, responseChunkSize: 40 } } as any,
+      paths: makePaths(),
       botUsername: "mybot",
       logger: new Logger("test"),
       isAgentEnabled: () => true
@@ -361,7 +651,187 @@ describe("processInboundEvent", () => {
     const combined = chat.sent.map((item) => item.text).join("");
     expect(combined).toContain("<b>Projektziel</b>");
     expect(combined).toContain("<code>README.md</code>");
-    expect(chat.sent[0]?.options).toEqual({ parseMode: "HTML", disableWebPagePreview: true });
+    expect(chat.sent[0]?.options).toEqual({ threadId: null, parseMode: "HTML", disableWebPagePreview: true });
+  });
+
+  it("uploads files the agent writes to the run outbox and removes the outbox", async () => {
+    const db = new FakeDb();
+    const chat = new FakeChat();
+    const manager = new FakeManager();
+    let outboxDir = "";
+    manager.sendToActive = async (_userId: string, input: string) => {
+      outboxDir = input.match(/write or copy them into (\S+)\./)?.[1] ?? "";
+      await fs.writeFile(path.join(outboxDir, "chart.png"), "png-data");
+      await fs.writeFile(path.join(outboxDir, "fix.patch"), "diff");
+      return { text: "done" };
+    };
+    const paths = makePaths();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths,
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(outboxDir.startsWith(paths.outboxDir)).toBe(true);
+    expect(chat.files).toEqual([
+      { kind: "photo", name: "chart.png" },
+      { kind: "document", name: "fix.patch" }
+    ]);
+    await expect(fs.stat(outboxDir)).rejects.toThrow();
+    await fs.rm(paths.tempDir, { recursive: true, force: true });
+  });
+
+  it("resends a chunk as plain text when Telegram cannot parse the HTML", async () => {
+    const chat = new FakeChat();
+    const manager = new FakeManager();
+    manager.responseText = "**ok** & done";
+    const sendMessage = chat.sendMessage.bind(chat);
+    chat.sendMessage = async (chatId, text, options) => {
+      if (options?.parseMode === "HTML") {
+        throw new Error("Telegram API sendMessage failed (400): Bad Request: can't parse entities");
+      }
+      return await sendMessage(chatId, text, options);
+    };
+    const cfg = makeConfig();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: new FakeDb() as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: { ...cfg, routing: { ...cfg.routing, responseChunkSize: 3500 } } as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(chat.sent).toEqual([{ chatId: "c1", text: "ok & done", options: { threadId: null, disableWebPagePreview: true } }]);
+  });
+
+  it("scopes the session to the forum topic and replies into it", async () => {
+    const chat = new FakeChat();
+    const manager = new FakeManager();
+    const db = new FakeDb();
+    db.allowedChats.add("-100");
+
+    await processInboundEvent({
+      event: makeEvent({ chatId: "-100", chatType: "supergroup", threadId: "42" }),
+      db: db as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.scopes).toEqual(["u1:-100:42"]);
+    expect(chat.sent.length).toBeGreaterThan(0);
+    expect(chat.sent.every((item) => item.options?.threadId === "42")).toBe(true);
+  });
+
+  it("shares one session per chat and names the sender in chat scope", async () => {
+    const manager = new FakeManager();
+    const db = new FakeDb();
+    db.allowedChats.add("-100");
+    db.chatScopes.set("-100", "chat");
+
+    await processInboundEvent({
+      event: makeEvent({ chatId: "-100", chatType: "supergroup", displayName: "Ada Lovelace", text: "run the tests" }),
+      db: db as any,
+      manager: manager as any,
+      chat: new FakeChat() as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.scopes).toEqual(["chat:-100"]);
+    expect(manager.prompts[0].startsWith("From Ada Lovelace:\nrun the tests")).toBe(true);
+  });
+
+  it("sends long replies as a preview plus a Markdown attachment", async () => {
+    const chat = new FakeChat();
+    const manager = new FakeManager();
+    manager.responseText = ["Short intro.", "", "a".repeat(40), "", "b".repeat(40)].join("\n");
+    const cfg = makeConfig();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: new FakeDb() as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: { ...cfg, routing: { ...cfg.routing, responseChunkSize: 50, maxReplyChunks: 2 } } as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(chat.sent).toHaveLength(1);
+    expect(chat.sent[0].text).toContain("Short intro.");
+    expect(chat.sent[0].text).toContain("Full reply (96 characters) attached above as reply-");
+    expect(chat.files).toHaveLength(1);
+    expect(chat.files[0].name).toMatch(/^reply-\d+\.md$/);
+  });
+
+  it("sends a long reply only as chunks when the attachment fails", async () => {
+    const chat = new FakeChat();
+    chat.documentError = new Error("Telegram sendDocument failed: 413");
+    const manager = new FakeManager();
+    manager.responseText = ["Short intro.", "", "a".repeat(40), "", "b".repeat(40)].join("\n");
+    const cfg = makeConfig();
+
+    await processInboundEvent({
+      event: makeEvent(),
+      db: new FakeDb() as any,
+      manager: manager as any,
+      chat: chat as any,
+      stt: null,
+      cfg: { ...cfg, routing: { ...cfg.routing, responseChunkSize: 50, maxReplyChunks: 2 } } as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(chat.files).toEqual([]);
+    expect(chat.sent.map((message) => message.text)).toEqual(["Short intro.", "a".repeat(40), "b".repeat(40)]);
+  });
+
+  it("does not attach outbox instructions to slash commands", async () => {
+    const manager = new FakeManager();
+
+    await processInboundEvent({
+      event: makeEvent({ text: "/compact", isCommand: true }),
+      db: new FakeDb() as any,
+      manager: manager as any,
+      chat: new FakeChat() as any,
+      stt: null,
+      cfg: makeConfig() as any,
+      paths: makePaths(),
+      botUsername: "mybot",
+      logger: new Logger("test"),
+      isAgentEnabled: () => true
+    });
+
+    expect(manager.prompts).toEqual(["/compact"]);
   });
 });
 
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { Db } from "../src/core/db.js";
+import { Logger } from "../src/core/logger.js";
+import { loadUnfinishedInbox, persistInboundEvents, runInboxItem } from "../src/core/inbox.js";
+import type { InboundChatEvent } from "../src/adapters/chatAdapter.js";
+
+function makeEvent(overrides: Partial<InboundChatEvent> = {}): InboundChatEvent {
+  return {
+    chatId: "c1",
+    chatType: "private",
+    fromUserId: "123",
+    fromUsername: "tester",
+    displayName: "Tester",
+    transportMessageId: "m1",
+    text: "hello",
+    isCommand: false,
+    isMentioned: false,
+    isReplyToBot: false,
+    attachments: [],
+    receivedAt: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe("durable inbox", () => {
+  const dbPath = path.join(os.tmpdir(), `cognal-inbox-${Date.now()}.sqlite`);
+  let db: Db | null = null;
+
+  afterEach(async () => {
+    await db?.close();
+    db = null;
+    try {
+      await fs.unlink(dbPath);
+    } catch {
+      // ignore
+    }
+  });
+
+  it("deduplicates on chat ID and transport message ID", async () => {
+    db = new Db(dbPath);
+    await db.migrate();
+
+    const first = await persistInboundEvents(db, [makeEvent(), makeEvent({ chatId: "c2" })]);
+    const replay = await persistInboundEvents(db, [makeEvent()]);
+
+    expect(first).toHaveLength(2);
+    expect(replay).toEqual([]);
+    expect((await db.countInboxByStatus()).pending).toBe(2);
+  });
+
+  it("acknowledges processed items and resumes unfinished ones", async () => {
+    db = new Db(dbPath);
+    await db.migrate();
+    const [done, interrupted] = await persistInboundEvents(db, [makeEvent(), makeEvent({ transportMessageId: "m2", text: "second" })]);
+
+    await runInboxItem(db, done, async () => {});
+    await db.markInboxProcessing(interrupted.id);
+
+    const resumed = await loadUnfinishedInbox(db, new Logger("test"));
+    expect(resumed.map((item) => item.event.text)).toEqual(["second"]);
+    expect(await db.countInboxByStatus()).toEqual({ pending: 0, processing: 1, done: 1, failed: 0 });
+  });
+
+  it("marks failed handlers and gives up on items that keep crashing", async () => {
+    db = new Db(dbPath);
+    await db.migrate();
+    const [failing, crashing] = await persistInboundEvents(db, [makeEvent(), makeEvent({ transportMessageId: "m2" })]);
+
+    await expect(
+      runInboxItem(db, failing, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    for (let idx = 0; idx < 3; idx += 1) {
+      await db.markInboxProcessing(crashing.id);
+    }
+
+    const resumed = await loadUnfinishedInbox(db, new Logger("test"));
+    expect(resumed).toEqual([]);
+    expect((await db.countInboxByStatus()).failed).toBe(2);
+  });
+});
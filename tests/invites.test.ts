@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { defaultConfig, isAgentEnabled, type CognalConfig } from "../src/config.js";
+import { Db } from "../src/core/db.js";
+import { processInboundEvent } from "../src/core/inbound.js";
+import { buildInviteLink, generateInviteCode, hashInviteCode } from "../src/core/invites.js";
+import { Logger } from "../src/core/logger.js";
+import { privateChatScope } from "../src/core/scope.js";
+import type { InboundChatEvent } from "../src/adapters/chatAdapter.js";
+
+class FakeChat {
+  sent: Array<{ chatId: string; text: string }> = [];
+
+  async sendMessage(chatId: string, text: string): Promise<string> {
+    this.sent.push({ chatId, text });
+    return String(this.sent.length);
+  }
+}
+
+function startEvent(fromUserId: string, text: string): InboundChatEvent {
+  return {
+    chatId: fromUserId,
+    chatType: "private",
+    fromUserId,
+    fromUsername: `u${fromUserId}`,
+    displayName: null,
+    transportMessageId: "m1",
+    text,
+    isCommand: true,
+    isMentioned: false,
+    isReplyToBot: false,
+    attachments: [],
+    receivedAt: new Date().toISOString()
+  };
+}
+
+describe("invites", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  async function setup(configure: (cfg: CognalConfig) => void = () => undefined) {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-invites-"));
+    const db = new Db(path.join(dir, "state.sqlite"));
+    await db.migrate();
+    const chat = new FakeChat();
+    const cfg = defaultConfig(dir);
+    configure(cfg);
+    const send = (event: InboundChatEvent) =>
+      processInboundEvent({
+        event,
+        db,
+        manager: {} as any,
+        chat: chat as any,
+        stt: null,
+        cfg,
+        paths: { tempDir: dir!, outboxDir: path.join(dir!, "outbox") },
+        botUsername: "mybot",
+        logger: new Logger("test"),
+        isAgentEnabled
+      });
+    return { db, chat, send };
+  }
+
+  it("builds deep links and stores only the code hash", async () => {
+    const code = generateInviteCode();
+    expect(code).toMatch(/^[A-Za-z0-9_-]{16}$/);
+    expect(buildInviteLink("mybot", code)).toBe(`https://t.me/mybot?start=${code}`);
+    expect(buildInviteLink(undefined, code)).toBe(`/start ${code}`);
+    expect(hashInviteCode(code)).not.toContain(code);
+  });
+
+  it("approves new users until the invite is used up", async () => {
+    const { db, chat, send } = await setup();
+    const code = generateInviteCode();
+    await db.createInvite(hashInviteCode(code), { agent: "claude", maxUses: 1, expiresAt: null });
+
+    await send(startEvent("200000002", `/start ${code}`));
+    const joined = await db.getUserByTelegramUserId("200000002");
+    expect(joined?.status).toBe("active");
+    expect(joined?.telegramUsername).toBe("u200000002");
+    expect((await db.getBinding(privateChatScope(joined!.id, "200000002"), "codex")).activeAgent).toBe("claude");
+    expect(chat.sent[0].text).toContain("Welcome!");
+
+    await send(startEvent("300000003", `/start ${code}`));
+    expect(await db.getUserByTelegramUserId("300000003")).toBeNull();
+    expect(chat.sent[1].text).toContain("invalid, expired or already used up");
+    expect((await db.listInvites())[0].uses).toBe(1);
+    await db.close();
+  });
+
+  it("gives a returning user the invite's agent, as the reply says", async () => {
+    const { db, chat, send } = await setup();
+    const user = await db.addOrUpdateTelegramUser("200000002", { status: "pending", defaultActiveAgent: "codex" });
+    const code = generateInviteCode();
+    await db.createInvite(hashInviteCode(code), { agent: "claude", maxUses: 1, expiresAt: null });
+
+    await send(startEvent("200000002", `/start ${code}`));
+
+    expect((await db.getBinding(privateChatScope(user.id, "200000002"), "codex")).activeAgent).toBe("claude");
+    expect(chat.sent[0].text).toContain("claude is your active agent");
+    await db.close();
+  });
+
+  it("gives invitees without the owner role the default agent instead of a custom one", async () => {
+    const { db, chat, send } = await setup((cfg) => {
+      cfg.agents.defaultRole = "developer";
+      cfg.agents.custom.aider = { enabled: true, command: "aider", args: [], resumeArgs: [], sessionIdPattern: "" };
+    });
+    const code = generateInviteCode();
+    await db.createInvite(hashInviteCode(code), { agent: "aider", maxUses: 1, expiresAt: null });
+
+    await send(startEvent("200000002", `/start ${code}`));
+
+    expect(await db.listActiveAgentsByTelegramUserId("200000002")).toEqual(["codex"]);
+    expect(chat.sent[0].text).toContain("codex is your active agent");
+    await db.close();
+  });
+
+  it("ignores expired and revoked invites and never reinstates revoked users", async () => {
+    const { db, chat, send } = await setup();
+    const expired = generateInviteCode();
+    await db.createInvite(hashInviteCode(expired), { agent: null, maxUses: 5, expiresAt: "2020-01-01T00:00:00.000Z" });
+    const revoked = generateInviteCode();
+    await db.revokeInvite((await db.createInvite(hashInviteCode(revoked), { agent: null, maxUses: 5, expiresAt: null })).id);
+    const valid = generateInviteCode();
+    await db.createInvite(hashInviteCode(valid), { agent: null, maxUses: 5, expiresAt: null });
+    await db.addOrUpdateTelegramUser("400000004", { status: "revoked" });
+
+    await send(startEvent("200000002", `/start ${expired}`));
+    await send(startEvent("200000002", `/start ${revoked}`));
+    await send(startEvent("400000004", `/start ${valid}`));
+
+    expect(await db.getUserByTelegramUserId("200000002")).toBeNull();
+    expect((await db.getUserByTelegramUserId("400000004"))?.status).toBe("revoked");
+    expect(chat.sent.map((message) => message.text.slice(0, 14))).toEqual(["This invite li", "This invite li", "Access denied."]);
+    await db.close();
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { defaultConfig } from "../src/config.js";
+import { Db } from "../src/core/db.js";
+import { checkUserLimits, formatLimitRefusal } from "../src/core/limits.js";
+
+const now = new Date("2025-03-10T12:00:00.000Z");
+
+describe("checkUserLimits", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  async function openDb(): Promise<Db> {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-limits-"));
+    const db = new Db(path.join(dir, "state.sqlite"));
+    await db.migrate();
+    return db;
+  }
+
+  function run(startedAt: string, costUsd: number | null = null) {
+    return {
+      userId: "ada",
+      chatId: "1",
+      scopeKey: "u:1",
+      agent: "claude",
+      startedAt,
+      durationMs: 1000,
+      inputTokens: 10,
+      outputTokens: 10,
+      costUsd,
+      outcome: "success" as const,
+      diagnosticId: null
+    };
+  }
+
+  it("allows everything when no limits are configured", async () => {
+    const db = await openDb();
+    await db.insertAgentRun(run("2025-03-10T11:59:00.000Z", 50));
+    expect(await checkUserLimits(db, defaultConfig("/tmp/proj"), "ada", now)).toBeNull();
+    await db.close();
+  });
+
+  it("frees a rolling run slot when the oldest counted run ages out", async () => {
+    const db = await openDb();
+    const cfg = defaultConfig("/tmp/proj");
+    cfg.limits.runsPerHour = 2;
+    await db.insertAgentRun(run("2025-03-10T10:30:00.000Z"));
+    await db.insertAgentRun(run("2025-03-10T11:15:00.000Z"));
+    expect(await checkUserLimits(db, cfg, "ada", now)).toBeNull();
+
+    await db.insertAgentRun(run("2025-03-10T11:40:00.000Z"));
+    const refusal = await checkUserLimits(db, cfg, "ada", now);
+    expect(refusal?.resetsAt.toISOString()).toBe("2025-03-10T12:15:00.000Z");
+    expect(formatLimitRefusal(refusal!, now)).toBe("You've reached your limit of 2 runs per hour. It resets at 12:15 UTC (in 15 min).");
+    await db.close();
+  });
+
+  it("applies per-user overrides and reports the longest-lasting limit", async () => {
+    const db = await openDb();
+    const cfg = defaultConfig("/tmp/proj");
+    cfg.limits.dailyUsd = 5;
+    await db.setUserLimits("ada", { dailyUsd: 1, monthlyUsd: 2 });
+    await db.insertAgentRun(run("2025-03-02T09:00:00.000Z", 1.5));
+    await db.insertAgentRun(run("2025-03-10T09:00:00.000Z", 1));
+
+    const refusal = await checkUserLimits(db, cfg, "ada", now);
+    expect(refusal?.limit).toBe("$2.00 per month");
+    expect(formatLimitRefusal(refusal!, now)).toBe("You've reached your limit of $2.00 per month. It resets on 2025-04-01 at 00:00 UTC (in 22 days).");
+
+    await db.setUserLimits("ada", { dailyUsd: 1 });
+    expect(formatLimitRefusal((await checkUserLimits(db, cfg, "ada", now))!, now)).toBe(
+      "You've reached your limit of $1.00 per day. It resets on 2025-03-11 at 00:00 UTC (in 12 hours)."
+    );
+    expect(await checkUserLimits(db, cfg, "bob", now)).toBeNull();
+    await db.close();
+  });
+});
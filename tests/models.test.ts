@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { defaultConfig } from "../src/config.js";
+import { handleModelCommand } from "../src/core/models.js";
+import type { AgentType, ModelPreference } from "../src/types.js";
+
+class FakeDb {
+  activeAgent: AgentType = "codex";
+  preferences = new Map<string, ModelPreference>();
+
+  async getBinding(): Promise<{ activeAgent: AgentType }> {
+    return { activeAgent: this.activeAgent };
+  }
+
+  async getModelPreference(_scopeKey: string, agent: AgentType): Promise<ModelPreference> {
+    return this.preferences.get(agent) ?? { model: null, reasoningEffort: null };
+  }
+}
+
+class FakeManager {
+  constructor(private readonly db: FakeDb) {}
+
+  async setModelPreference(_scope: unknown, agent: AgentType, preference: ModelPreference): Promise<void> {
+    this.db.preferences.set(agent, preference);
+  }
+}
+
+const scope = { key: "u1:123", userId: "u1", chatId: "123", threadId: null };
+
+describe("handleModelCommand", () => {
+  function setup() {
+    const db = new FakeDb();
+    const manager = new FakeManager(db);
+    const cfg = defaultConfig("/srv/project");
+    const run = (args: string | null) =>
+      handleModelCommand({ db: db as any, manager: manager as any, cfg, scope, defaultAgent: "codex", args });
+    return { db, cfg, run };
+  }
+
+  it("lists the configured choices for the active agent", async () => {
+    const { run } = setup();
+    expect(await run(null)).toBe(
+      [
+        "Model for codex: CLI default",
+        "Reasoning effort: CLI default",
+        "Available models: gpt-5-codex, gpt-5",
+        "Available efforts: minimal, low, medium, high",
+        "Use /model <name>, /model effort <level>, or /model default."
+      ].join("\n")
+    );
+  });
+
+  it("only accepts allowed models and efforts and keeps the other setting", async () => {
+    const { db, run } = setup();
+    expect(await run("GPT-5")).toBe("Set codex model to gpt-5.");
+    expect(await run("effort high")).toBe("Set codex reasoning effort to high.");
+    expect(db.preferences.get("codex")).toEqual({ model: "gpt-5", reasoningEffort: "high" });
+
+    expect(await run("o3")).toBe("Unknown model 'o3' for codex. Available: gpt-5-codex, gpt-5.");
+    expect(await run("effort extreme")).toContain("Unknown reasoning effort 'extreme'");
+    expect(await run("default")).toBe("Reset codex to the CLI default model and reasoning effort.");
+    expect(db.preferences.get("codex")).toEqual({ model: null, reasoningEffort: null });
+  });
+
+  it("refuses custom agents", async () => {
+    const { db, run } = setup();
+    db.activeAgent = "aider";
+    expect(await run("gpt-5")).toBe("Model selection is not available for aider.");
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { createRunOutbox, deliverOutbox } from "../src/core/outbox.js";
+import { Logger } from "../src/core/logger.js";
+
+class FakeChat {
+  sent: string[] = [];
+  files: Array<{ kind: "document" | "photo"; name: string }> = [];
+  failUploads = false;
+
+  async sendMessage(_chatId: string, text: string): Promise<string> {
+    this.sent.push(text);
+    return String(this.sent.length);
+  }
+
+  async sendDocument(_chatId: string, filePath: string): Promise<string> {
+    if (this.failUploads) {
+      throw new Error("upload failed");
+    }
+    this.files.push({ kind: "document", name: path.basename(filePath) });
+    return "d";
+  }
+
+  async sendPhoto(_chatId: string, filePath: string): Promise<string> {
+    this.files.push({ kind: "photo", name: path.basename(filePath) });
+    return "p";
+  }
+}
+
+function makeConfig(limits: Partial<{ maxAudioBytes: number; maxImageBytes: number; maxDocumentBytes: number }> = {}) {
+  return {
+    retention: { attachmentsHours: 24, maxAudioBytes: 1024, maxImageBytes: 1024, maxDocumentBytes: 1024, ...limits }
+  } as any;
+}
+
+describe("deliverOutbox", () => {
+  const root = path.join(os.tmpdir(), `cognal-outbox-${Date.now()}`);
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("sends images as photos and everything else as documents", async () => {
+    const dir = await createRunOutbox(root);
+    await fs.writeFile(path.join(dir, "b.png"), "img");
+    await fs.writeFile(path.join(dir, "a.log"), "log");
+    await fs.writeFile(path.join(dir, ".hidden"), "skip");
+    const chat = new FakeChat();
+
+    const delivered = await deliverOutbox({ chat: chat as any, chatId: "c1", dir, cfg: makeConfig(), logger: new Logger("test") });
+
+    expect(delivered).toBe(2);
+    expect(chat.files).toEqual([
+      { kind: "document", name: "a.log" },
+      { kind: "photo", name: "b.png" }
+    ]);
+  });
+
+  it("skips files above the configured size limit for their type", async () => {
+    const dir = await createRunOutbox(root);
+    await fs.writeFile(path.join(dir, "big.pdf"), "x".repeat(2048));
+    const chat = new FakeChat();
+
+    const delivered = await deliverOutbox({ chat: chat as any, chatId: "c1", dir, cfg: makeConfig(), logger: new Logger("test") });
+
+    expect(delivered).toBe(0);
+    expect(chat.files).toEqual([]);
+    expect(chat.sent[0]).toContain("File not sent: 'big.pdf' is too large for type 'document'");
+  });
+
+  it("skips symlinks and files that disappear before upload", async () => {
+    const dir = await createRunOutbox(root);
+    const secret = path.join(root, "secret.txt");
+    await fs.writeFile(secret, "host file");
+    await fs.symlink(secret, path.join(dir, "a-link.txt"));
+    await fs.writeFile(path.join(dir, "b.txt"), "first");
+    await fs.writeFile(path.join(dir, "c.txt"), "removed by the time it is read");
+    await fs.writeFile(path.join(dir, "d.txt"), "last");
+    const chat = new FakeChat();
+    const sendDocument = chat.sendDocument.bind(chat);
+    chat.sendDocument = async (chatId: string, filePath: string) => {
+      await fs.rm(path.join(dir, "c.txt"), { force: true });
+      return await sendDocument(chatId, filePath);
+    };
+
+    const delivered = await deliverOutbox({ chat: chat as any, chatId: "c1", dir, cfg: makeConfig(), logger: new Logger("test") });
+
+    expect(delivered).toBe(2);
+    expect(chat.files.map((file) => file.name)).toEqual(["b.txt", "d.txt"]);
+  });
+
+  it("reports upload failures to the chat", async () => {
+    const dir = await createRunOutbox(root);
+    await fs.writeFile(path.join(dir, "notes.txt"), "hi");
+    const chat = new FakeChat();
+    chat.failUploads = true;
+
+    const delivered = await deliverOutbox({ chat: chat as any, chatId: "c1", dir, cfg: makeConfig(), logger: new Logger("test") });
+
+    expect(delivered).toBe(0);
+    expect(chat.sent).toEqual(["File not sent: 'notes.txt' could not be uploaded."]);
+  });
+});
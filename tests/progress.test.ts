@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProgressReporter } from "../src/core/progress.js";
+import { Logger } from "../src/core/logger.js";
+
+class FakeChat {
+  sent: string[] = [];
+  edits: Array<{ messageId: string; text: string }> = [];
+
+  async sendMessage(_chatId: string, text: string): Promise<string> {
+    this.sent.push(text);
+    return "900";
+  }
+
+  async editMessageText(_chatId: string, messageId: string, text: string): Promise<void> {
+    this.edits.push({ messageId, text });
+  }
+}
+
+describe("ProgressReporter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("posts a placeholder and coalesces bursts of steps into throttled edits", async () => {
+    const chat = new FakeChat();
+    const reporter = new ProgressReporter(chat as any, "c1", null, 3000, new Logger("test"));
+
+    await reporter.start();
+    reporter.push({ kind: "tool", detail: "Bash: npm test" });
+    reporter.push({ kind: "file_edit", detail: "Edit src/a.ts" });
+    reporter.push({ kind: "text", detail: "Running the suite now" });
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(chat.edits).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(chat.sent).toEqual(["Working..."]);
+    expect(chat.edits).toHaveLength(1);
+    expect(chat.edits[0].messageId).toBe("900");
+    expect(chat.edits[0].text).toContain("• Bash: npm test");
+    expect(chat.edits[0].text).toContain("• Edited: Edit src/a.ts");
+    expect(chat.edits[0].text).toContain("> Running the suite now");
+  });
+
+  it("replaces pending edits with a final summary", async () => {
+    const chat = new FakeChat();
+    const reporter = new ProgressReporter(chat as any, "c1", null, 3000, new Logger("test"));
+
+    await reporter.start();
+    reporter.push({ kind: "tool", detail: "Read" });
+    await reporter.finish("cancelled");
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(chat.edits).toHaveLength(1);
+    expect(chat.edits[0].text).toMatch(/^Cancelled after \d+s \(1 step\)\.$/);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { claudeRolePolicy, codexSandboxArgs, isUserRole, resolveUserRole } from "../src/core/roles.js";
+
+describe("roles", () => {
+  it("maps roles to codex sandbox flags", () => {
+    expect(codexSandboxArgs("viewer", false)).toEqual(["--sandbox", "read-only"]);
+    expect(codexSandboxArgs("developer", false)).toEqual(["--sandbox", "workspace-write"]);
+    expect(codexSandboxArgs("owner", true)).toEqual(["--sandbox", "workspace-write"]);
+    expect(codexSandboxArgs("owner", false)).toEqual(["--dangerously-bypass-approvals-and-sandbox"]);
+    expect(codexSandboxArgs("developer", false, ["/srv/app/.cognal/outbox/1"])).toEqual([
+      "--sandbox",
+      "workspace-write",
+      "--add-dir",
+      "/srv/app/.cognal/outbox/1"
+    ]);
+    expect(codexSandboxArgs("viewer", false, ["/srv/app/.cognal/outbox/1"])).toEqual(["--sandbox", "read-only"]);
+  });
+
+  it("keeps viewers away from edits and shell commands in Claude", () => {
+    const viewer = claudeRolePolicy("viewer");
+    expect(viewer.permissionMode).toBe("default");
+    expect(viewer.permittedTools).toContain("Read");
+    expect(viewer.disallowedTools).toEqual(expect.arrayContaining(["Edit", "Write", "Bash", "WebSearch"]));
+    expect(claudeRolePolicy("developer")).toMatchObject({ permissionMode: "default", disallowedTools: [] });
+    expect(claudeRolePolicy("developer").permittedTools).not.toContain("Bash");
+    expect(claudeRolePolicy("owner").permissionMode).toBe("bypassPermissions");
+  });
+
+  it("falls back to the default role", () => {
+    expect(resolveUserRole({ role: null }, "developer")).toBe("developer");
+    expect(resolveUserRole({ role: "viewer" }, "owner")).toBe("viewer");
+    expect(resolveUserRole(null, "owner")).toBe("owner");
+    expect(isUserRole("admin")).toBe(false);
+  });
+});
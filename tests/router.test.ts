@@ -10,6 +10,11 @@ describe("routeTextInput", () => {
     expect(routeTextInput("/codex")).toEqual({ type: "switch_agent", agent: "codex" });
   });
 
+  it("routes /cancel, including bot mentions, to cancellation", () => {
+    expect(routeTextInput("/cancel")).toEqual({ type: "cancel" });
+    expect(routeTextInput("/cancel@mybot", "mybot")).toEqual({ type: "cancel" });
+  });
+
   it("passes through other slash commands unchanged", () => {
     expect(routeTextInput("/clear")).toEqual({ type: "passthrough", payload: "/clear" });
     expect(routeTextInput("/compact now")).toEqual({ type: "passthrough", payload: "/compact now" });
@@ -33,4 +38,42 @@ describe("routeTextInput", () => {
   it("routes normal text as message", () => {
     expect(routeTextInput("hello world")).toEqual({ type: "message", payload: "hello world" });
   });
+
+  it("routes switch commands for custom agents only when they are configured", () => {
+    const agents = ["claude", "codex", "aider"];
+    expect(routeTextInput("/aider", "mybot", agents)).toEqual({ type: "switch_agent", agent: "aider" });
+    expect(routeTextInput("/Aider@mybot", "mybot", agents)).toEqual({ type: "switch_agent", agent: "aider" });
+    expect(routeTextInput("/aider")).toEqual({ type: "passthrough", payload: "/aider" });
+  });
+
+  it("routes named session commands", () => {
+    expect(routeTextInput("/new")).toEqual({ type: "new_session", name: null });
+    expect(routeTextInput("/new@mybot bugfix", "mybot")).toEqual({ type: "new_session", name: "bugfix" });
+    expect(routeTextInput("/sessions")).toEqual({ type: "list_sessions" });
+    expect(routeTextInput("/resume")).toEqual({ type: "resume_session", name: null });
+    expect(routeTextInput("/resume  bugfix ")).toEqual({ type: "resume_session", name: "bugfix" });
+    expect(routeTextInput("/newer")).toEqual({ type: "passthrough", payload: "/newer" });
+  });
+
+  it("routes /model with its arguments", () => {
+    expect(routeTextInput("/model")).toEqual({ type: "model", args: null });
+    expect(routeTextInput("/model@mybot effort high", "mybot")).toEqual({ type: "model", args: "effort high" });
+    expect(routeTextInput("/usage")).toEqual({ type: "usage" });
+    expect(routeTextInput("/undo@mybot", "mybot")).toEqual({ type: "checkpoint", command: "undo" });
+    expect(routeTextInput("/undo all")).toEqual({ type: "checkpoint", command: "undo", all: true });
+    expect(routeTextInput("/diff")).toEqual({ type: "checkpoint", command: "diff" });
+    expect(routeTextInput("/sync")).toEqual({ type: "worktree", command: "sync" });
+  });
+
+  it("routes admin commands instead of passing them through", () => {
+    expect(routeTextInput("/approve 123456789")).toEqual({ type: "admin", command: "approve", args: "123456789" });
+    expect(routeTextInput("/users@mybot", "mybot")).toEqual({ type: "admin", command: "users", args: null });
+    expect(routeTextInput("/allowchat chat")).toEqual({ type: "admin", command: "allowchat", args: "chat" });
+    expect(routeTextInput("/revoked")).toEqual({ type: "passthrough", payload: "/revoked" });
+  });
+
+  it("routes /start with a code to invite redemption only", () => {
+    expect(routeTextInput("/start Ab_3-x")).toEqual({ type: "invite", code: "Ab_3-x" });
+    expect(routeTextInput("/start")).toEqual({ type: "passthrough", payload: "/start" });
+  });
 });
@@ -0,0 +1,43 @@
+import { createLogicalProcess } from "../../src/agents/agentAdapter.js";
+import type { AgentAdapter, AgentSendOptions, AgentStartOptions, RunningAgent } from "../../src/agents/agentAdapter.js";
+import type { AgentOutput, AgentType } from "../../src/types.js";
+
+// Scripted agent for end-to-end tests: records every prompt and answers through `respond`.
+export class FakeAgentAdapter implements AgentAdapter {
+  readonly prompts: string[] = [];
+  readonly starts: AgentStartOptions[] = [];
+  private sessionCounter = 0;
+
+  constructor(
+    readonly type: AgentType,
+    private readonly respond: (input: string, options?: AgentSendOptions) => Promise<string> | string = (input) =>
+      `${type} echo: ${input.split("\n")[0]}`
+  ) {}
+
+  async start(options: AgentStartOptions): Promise<RunningAgent> {
+    this.starts.push(options);
+    return {
+      agent: this.type,
+      userId: options.userId,
+      process: createLogicalProcess(),
+      sessionRef: options.fresh ? null : options.sessionRef,
+      outputBuffer: "",
+      startMode: options.sessionRef && !options.fresh ? "resume" : "fresh"
+    };
+  }
+
+  async send(runtime: RunningAgent, input: string, _idleMs: number, _timeoutMs: number, options?: AgentSendOptions): Promise<AgentOutput> {
+    this.prompts.push(input);
+    const text = await this.respond(input, options);
+    if (!runtime.sessionRef) {
+      this.sessionCounter += 1;
+      runtime.sessionRef = `${this.type}-session-${this.sessionCounter}`;
+    }
+    return { text, sessionRef: runtime.sessionRef };
+  }
+
+  async stop(runtime: RunningAgent): Promise<string | null> {
+    runtime.process.kill();
+    return runtime.sessionRef;
+  }
+}
@@ -0,0 +1,263 @@
+import http from "node:http";
+
+// In-process stand-in for the Telegram Bot API. Point telegram.apiBaseUrl (or the adapter's base URL) at `url`.
+
+export interface FakeSentMessage {
+  method: string;
+  chatId: string;
+  messageId: number;
+  threadId: number | null;
+  text: string;
+  params: Record<string, unknown>;
+}
+
+export interface FakeEdit {
+  chatId: string;
+  messageId: number;
+  text: string;
+}
+
+interface FakeFile {
+  filePath: string;
+  content: Buffer;
+}
+
+interface UpdateWaiter {
+  offset: number;
+  resolve: () => void;
+}
+
+export class FakeTelegramApi {
+  readonly bot = { id: 4242, username: "cognal_test_bot" };
+  readonly sent: FakeSentMessage[] = [];
+  readonly edits: FakeEdit[] = [];
+  readonly chatActions: Array<{ chatId: string; action: string }> = [];
+  readonly calls: string[] = [];
+  readonly callbackAnswers: Array<{ id: string; text: string }> = [];
+  lastOffset = 0;
+  url = "";
+
+  private server: http.Server | null = null;
+  private readonly updates: Array<Record<string, unknown> & { update_id: number }> = [];
+  private readonly files = new Map<string, FakeFile>();
+  private waiters: UpdateWaiter[] = [];
+  private nextUpdateId = 1000;
+  private nextMessageId = 1;
+  private nextFileId = 1;
+
+  constructor(readonly token = "TEST_TOKEN") {}
+
+  async start(): Promise<string> {
+    const server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    const address = server.address();
+    this.url = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+    this.server = server;
+    return this.url;
+  }
+
+  async close(): Promise<void> {
+    this.releaseWaiters(() => true);
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  injectUpdate(update: Record<string, unknown>): number {
+    const updateId = this.nextUpdateId;
+    this.nextUpdateId += 1;
+    this.updates.push({ ...update, update_id: updateId });
+    this.releaseWaiters((waiter) => waiter.offset <= updateId);
+    return updateId;
+  }
+
+  injectMessage(message: {
+    fromId: number;
+    chatId?: number;
+    chatType?: string;
+    text?: string;
+    caption?: string;
+    document?: { fileId: string; fileName: string; mimeType: string; size: number };
+  }): number {
+    const messageId = this.nextMessageId;
+    this.nextMessageId += 1;
+    return this.injectUpdate({
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        from: { id: message.fromId, first_name: `User ${message.fromId}` },
+        chat: { id: message.chatId ?? message.fromId, type: message.chatType ?? "private" },
+        ...(message.text !== undefined ? { text: message.text } : {}),
+        ...(message.caption !== undefined ? { caption: message.caption } : {}),
+        ...(message.text?.startsWith("/") ? { entities: [{ type: "bot_command", offset: 0, length: message.text.split(" ")[0].length }] } : {}),
+        ...(message.document
+          ? {
+              document: {
+                file_id: message.document.fileId,
+                file_name: message.document.fileName,
+                mime_type: message.document.mimeType,
+                file_size: message.document.size
+              }
+            }
+          : {})
+      }
+    });
+  }
+
+  pressButton(press: { fromId: number; message: FakeSentMessage; data: string }): number {
+    return this.injectUpdate({
+      callback_query: {
+        id: `cbq-${this.nextUpdateId}`,
+        from: { id: press.fromId, first_name: `User ${press.fromId}` },
+        message: { message_id: press.message.messageId, chat: { id: Number(press.message.chatId), type: "private" } },
+        data: press.data
+      }
+    });
+  }
+
+  addFile(content: string | Buffer, filePath = `documents/file_${this.nextFileId}`): string {
+    const fileId = `file-${this.nextFileId}`;
+    this.nextFileId += 1;
+    this.files.set(fileId, { filePath, content: Buffer.isBuffer(content) ? content : Buffer.from(content) });
+    return fileId;
+  }
+
+  sentTo(chatId: string | number): FakeSentMessage[] {
+    return this.sent.filter((message) => message.chatId === String(chatId));
+  }
+
+  async waitFor<T>(check: () => T | undefined | null | false, timeoutMs = 5_000): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const result = check();
+      if (result) {
+        return result;
+      }
+      if (Date.now() > deadline) {
+        throw new Error("FakeTelegramApi.waitFor timed out");
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? "/", this.url);
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+
+    const fileMatch = url.pathname.match(/^\/file\/bot([^/]+)\/(.+)$/);
+    if (fileMatch) {
+      const file = [...this.files.values()].find((entry) => entry.filePath === decodeURIComponent(fileMatch[2]));
+      if (fileMatch[1] !== this.token || !file) {
+        response.writeHead(404).end("Not Found");
+        return;
+      }
+      response.writeHead(200, { "content-type": "application/octet-stream" }).end(file.content);
+      return;
+    }
+
+    const methodMatch = url.pathname.match(/^\/bot([^/]+)\/([A-Za-z]+)$/);
+    if (!methodMatch || methodMatch[1] !== this.token) {
+      this.reply(response, 401, { ok: false, error_code: 401, description: "Unauthorized" });
+      return;
+    }
+    const method = methodMatch[2];
+    this.calls.push(method);
+    const params = await this.parseParams(request, body);
+    const result = await this.dispatch(method, params);
+    if (result === undefined) {
+      this.reply(response, 400, { ok: false, error_code: 400, description: `Bad Request: unsupported method ${method}` });
+      return;
+    }
+    this.reply(response, 200, { ok: true, result });
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "getMe":
+        return { id: this.bot.id, is_bot: true, username: this.bot.username };
+      case "getUpdates":
+        return await this.getUpdates(Number(params.offset ?? 0), Number(params.timeout ?? 0));
+      case "sendMessage":
+      case "sendDocument":
+      case "sendPhoto":
+        return this.recordSent(method, params);
+      case "editMessageText":
+        this.edits.push({ chatId: String(params.chat_id), messageId: Number(params.message_id), text: String(params.text ?? "") });
+        return true;
+      case "sendChatAction":
+        this.chatActions.push({ chatId: String(params.chat_id), action: String(params.action) });
+        return true;
+      case "getFile": {
+        const file = this.files.get(String(params.file_id));
+        return file ? { file_id: params.file_id, file_path: file.filePath, file_size: file.content.length } : undefined;
+      }
+      case "answerCallbackQuery":
+        this.callbackAnswers.push({ id: String(params.callback_query_id), text: String(params.text ?? "") });
+        return true;
+      case "setWebhook":
+      case "deleteWebhook":
+        return true;
+      default:
+        return undefined;
+    }
+  }
+
+  private async getUpdates(offset: number, timeoutSec: number): Promise<unknown[]> {
+    this.lastOffset = offset;
+    const pending = (): unknown[] => this.updates.filter((update) => update.update_id >= offset);
+    if (pending().length === 0 && timeoutSec > 0) {
+      await new Promise<void>((resolve) => {
+        const waiter: UpdateWaiter = { offset, resolve };
+        this.waiters.push(waiter);
+        setTimeout(() => this.releaseWaiters((entry) => entry === waiter), timeoutSec * 1000);
+      });
+    }
+    return pending();
+  }
+
+  private recordSent(method: string, params: Record<string, unknown>): Record<string, unknown> {
+    const messageId = this.nextMessageId;
+    this.nextMessageId += 1;
+    const threadId = params.message_thread_id === undefined ? null : Number(params.message_thread_id);
+    const text = String(params.text ?? params.caption ?? "");
+    this.sent.push({ method, chatId: String(params.chat_id), messageId, threadId, text, params });
+    return { message_id: messageId, chat: { id: Number(params.chat_id) }, text };
+  }
+
+  private async parseParams(request: http.IncomingMessage, body: Buffer): Promise<Record<string, unknown>> {
+    const contentType = request.headers["content-type"] ?? "";
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await new Response(new Uint8Array(body), { headers: { "content-type": contentType } }).formData();
+      const out: Record<string, unknown> = {};
+      for (const [key, value] of form.entries()) {
+        out[key] = typeof value === "string" ? value : { fileName: value.name, size: value.size };
+      }
+      return out;
+    }
+    if (body.length === 0) {
+      return {};
+    }
+    return JSON.parse(body.toString("utf8")) as Record<string, unknown>;
+  }
+
+  private reply(response: http.ServerResponse, status: number, payload: unknown): void {
+    response.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify(payload));
+  }
+
+  private releaseWaiters(match: (waiter: UpdateWaiter) => boolean): void {
+    const released = this.waiters.filter(match);
+    this.waiters = this.waiters.filter((waiter) => !match(waiter));
+    for (const waiter of released) {
+      waiter.resolve();
+    }
+  }
+}
@@ -94,6 +94,57 @@ describe("TelegramBotAdapter", () => {
     ]);
   });
 
+  it("persists the update offset only after commitReceived", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }))
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          ok: true,
+          result: [
+            {
+              update_id: 200,
+              message: {
+                message_id: 7,
+                text: "hello",
+                from: { id: 123456789 },
+                chat: { id: 123456789, type: "private" }
+              }
+            }
+          ]
+        })
+      );
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    await adapter.receive(5);
+
+    await expect(fs.readFile(statePath, "utf8")).rejects.toThrow();
+    await adapter.commitReceived();
+    expect(await fs.readFile(statePath, "utf8")).toBe("201");
+  });
+
+  it("polls for the same updates again when the batch was not committed", async () => {
+    const update = {
+      update_id: 300,
+      message: { message_id: 8, text: "hello", from: { id: 123456789 }, chat: { id: 123456789, type: "private" } }
+    };
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }))
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: [update] }))
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: [update] }))
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: [] }));
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    await fs.writeFile(statePath, "300", "utf8");
+    await adapter.receive(5);
+    // Storing the batch failed, so the loop polls again without committing.
+    expect(await adapter.receive(5)).toHaveLength(1);
+    await adapter.commitReceived();
+    await adapter.receive(5);
+
+    const offsets = fetchMock.mock.calls.slice(1).map((call) => JSON.parse(String(call[1].body)).offset);
+    expect(offsets).toEqual([300, 300, 301]);
+  });
+
   it("downloads attachment via getFile and file endpoint", async () => {
     fetchMock
       .mockResolvedValueOnce(
@@ -133,14 +184,183 @@ describe("TelegramBotAdapter", () => {
           { status: 429, headers: { "content-type": "application/json" } }
         )
       )
-      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: true }));
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { message_id: 77 } }));
 
     const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
-    await adapter.sendMessage("123", "hello", { parseMode: "HTML", disableWebPagePreview: true });
+    const messageId = await adapter.sendMessage("123", "hello", { parseMode: "HTML", disableWebPagePreview: true });
 
+    expect(messageId).toBe("77");
     expect(fetchMock).toHaveBeenCalledTimes(2);
     const body = JSON.parse(String(fetchMock.mock.calls[1][1]?.body ?? "{}"));
     expect(body.parse_mode).toBe("HTML");
     expect(body.disable_web_page_preview).toBe(true);
   });
+
+  it("edits messages and treats unchanged edits as success", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { message_id: 77 } }))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ ok: false, description: "Bad Request: message is not modified" }), {
+          status: 400,
+          headers: { "content-type": "application/json" }
+        })
+      );
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    await adapter.editMessageText("123", "77", "step 1");
+    await adapter.editMessageText("123", "77", "step 1");
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body ?? "{}"));
+    expect(String(fetchMock.mock.calls[0][0])).toContain("/botTOKEN/editMessageText");
+    expect(body).toMatchObject({ chat_id: "123", message_id: 77, text: "step 1" });
+  });
+
+  it("parses callback queries and sends inline keyboards", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }))
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          ok: true,
+          result: [
+            {
+              update_id: 300,
+              callback_query: {
+                id: "cb1",
+                data: "ap:abc123:y",
+                from: { id: 123, username: "jeremias", first_name: "Jeremias" },
+                message: { message_id: 9, date: 1_700_000_000, chat: { id: 555, type: "private" } }
+              }
+            }
+          ]
+        })
+      )
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { message_id: 10 } }));
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    const events = await adapter.receive(1);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      chatId: "555",
+      fromUserId: "123",
+      transportMessageId: "callback:cb1",
+      callbackQuery: { id: "cb1", data: "ap:abc123:y", messageId: "9" }
+    });
+
+    await adapter.sendMessage("555", "Approve?", {
+      inlineKeyboard: [[{ text: "Approve", callbackData: "ap:abc123:y" }]]
+    });
+    const body = JSON.parse(String(fetchMock.mock.calls[2][1]?.body ?? "{}"));
+    expect(body.reply_markup).toEqual({ inline_keyboard: [[{ text: "Approve", callback_data: "ap:abc123:y" }]] });
+  });
+
+  it("uploads documents as multipart form data", async () => {
+    const filePath = path.join(os.tmpdir(), `cognal-upload-${Date.now()}.txt`);
+    await fs.writeFile(filePath, "report", "utf8");
+    fetchMock.mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { message_id: 88 } }));
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    const messageId = await adapter.sendDocument("123", filePath, { caption: "Build log" });
+
+    expect(messageId).toBe("88");
+    expect(String(fetchMock.mock.calls[0][0])).toContain("/botTOKEN/sendDocument");
+    const form = fetchMock.mock.calls[0][1]?.body as FormData;
+    expect(form.get("chat_id")).toBe("123");
+    expect(form.get("caption")).toBe("Build log");
+    const file = form.get("document") as File;
+    expect(file.name).toBe(path.basename(filePath));
+    expect(await file.text()).toBe("report");
+    await fs.unlink(filePath);
+  });
+
+  it("captures forum topic IDs and replies into the topic", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }))
+      .mockResolvedValueOnce(
+        mockJsonResponse({
+          ok: true,
+          result: [
+            {
+              update_id: 400,
+              message: {
+                message_id: 5,
+                message_thread_id: 17,
+                is_topic_message: true,
+                text: "hello",
+                from: { id: 123, first_name: "Ada" },
+                chat: { id: -1009, type: "supergroup" }
+              }
+            },
+            {
+              update_id: 401,
+              message: {
+                message_id: 6,
+                message_thread_id: 3,
+                text: "reply in a plain group thread",
+                from: { id: 123, first_name: "Ada" },
+                chat: { id: -1009, type: "supergroup" }
+              }
+            }
+          ]
+        })
+      )
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { message_id: 7 } }));
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    const events = await adapter.receive(1);
+    expect(events.map((event) => event.threadId)).toEqual(["17", null]);
+
+    await adapter.sendMessage("-1009", "hi", { threadId: "17" });
+    const body = JSON.parse(String(fetchMock.mock.calls[2][1]?.body ?? "{}"));
+    expect(body.message_thread_id).toBe(17);
+  });
+
+  it("registers a webhook and reads pushed updates from the receiver", async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: true }))
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }));
+    const acknowledged: number[] = [];
+    const receiver = {
+      take: async () => [
+        {
+          update_id: 500,
+          message: { message_id: 9, text: "hi", from: { id: 123, first_name: "Ada" }, chat: { id: 123, type: "private" } }
+        }
+      ],
+      acknowledge: () => acknowledged.push(1)
+    };
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot");
+    adapter.attachWebhook(receiver as any);
+    await adapter.setWebhook("https://bot.example.com/tg/hook", "secret");
+    const setBody = JSON.parse(String(fetchMock.mock.calls[0][1]?.body ?? "{}"));
+    expect(String(fetchMock.mock.calls[0][0])).toContain("/setWebhook");
+    expect(setBody.url).toBe("https://bot.example.com/tg/hook");
+    expect(setBody.secret_token).toBe("secret");
+
+    const events = await adapter.receive(1);
+    expect(events.map((event) => event.text)).toEqual(["hi"]);
+    expect(fetchMock.mock.calls.some((call) => String(call[0]).includes("getUpdates"))).toBe(false);
+    await adapter.commitReceived();
+    expect(acknowledged).toEqual([1]);
+    await expect(fs.access(statePath)).rejects.toThrow();
+  });
+
+  it("uses a configured API base URL and copies local server file paths from disk", async () => {
+    const sourcePath = path.join(os.tmpdir(), `cognal-test-local-file-${Date.now()}.bin`);
+    const targetPath = path.join(os.tmpdir(), `cognal-test-local-copy-${Date.now()}.bin`);
+    await fs.writeFile(sourcePath, "local-bytes");
+    fetchMock
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { id: 42, username: "mybot" } }))
+      .mockResolvedValueOnce(mockJsonResponse({ ok: true, result: { file_path: sourcePath } }));
+
+    const adapter = new TelegramBotAdapter("TOKEN", statePath, "mybot", "http://127.0.0.1:8081");
+    await adapter.getIdentity();
+    await adapter.downloadAttachment("file-1", targetPath);
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe("http://127.0.0.1:8081/botTOKEN/getMe");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await fs.readFile(targetPath, "utf8")).toBe("local-bytes");
+    await fs.rm(sourcePath, { force: true });
+    await fs.rm(targetPath, { force: true });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { chunkTelegramHtml, formatTelegramHtml } from "../src/core/telegramFormat.js";
+import { buildReplyPreview, chunkTelegramHtml, formatTelegramHtml, htmlToPlainText } from "../src/core/telegramFormat.js";
 
 describe("formatTelegramHtml", () => {
   it("formats headings, bullets, and local markdown links for Telegram HTML", () => {
@@ -51,4 +51,56 @@ describe("chunkTelegramHtml", () => {
     expect(chunks[0]).toContain("<b>One</b>");
     expect(chunks[1]).toContain("<b>Two</b>");
   });
+
+  it("closes open tags at the end of a chunk and reopens them in the next", () => {
+    const html = `<pre>${"line\n".repeat(10)}</pre>`;
+    const chunks = chunkTelegramHtml(html, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(30);
+      expect(chunk.startsWith("<pre>")).toBe(true);
+      expect(chunk.endsWith("</pre>")).toBe(true);
+    }
+    expect(chunks.map((chunk) => chunk.slice(5, -6).trim()).join("\n")).toBe("line\n".repeat(10).trim());
+  });
+
+  it("keeps code indentation at chunk boundaries inside <pre>", () => {
+    const lines = ["def run():", "    if ready:", "        go()", "    return 1"];
+    const chunks = chunkTelegramHtml(`<pre>${lines.join("\n")}</pre>`, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((chunk) => chunk.slice(5, -6)).join("\n")).toBe(lines.join("\n"));
+    expect(chunks[1].startsWith("<pre>    ")).toBe(true);
+  });
+
+  it("never splits entities or tags when cutting long lines", () => {
+    const html = `<b>${"a&amp;b ".repeat(20)}</b>`;
+    const chunks = chunkTelegramHtml(html, 25);
+
+    for (const chunk of chunks) {
+      expect(chunk).toMatch(/^<b>.*<\/b>$/);
+      expect(chunk.replace(/&amp;/g, "")).not.toMatch(/&|amp;/);
+    }
+    expect(htmlToPlainText(chunks.join("")).replace(/\s/g, "")).toBe("a&b".repeat(20));
+  });
+});
+
+describe("buildReplyPreview", () => {
+  it("keeps whole leading paragraphs within the limit", () => {
+    const preview = buildReplyPreview(["**Summary**", "", "First part.", "", "x".repeat(500)].join("\n"), 100);
+    expect(preview).toBe("<b>Summary</b>\n\nFirst part.");
+  });
+
+  it("cuts an oversized first paragraph without leaving open tags", () => {
+    const preview = buildReplyPreview(["```", "a".repeat(50), "```"].join("\n"), 20);
+    expect(preview.startsWith("<pre>")).toBe(true);
+    expect(preview.endsWith("</pre>")).toBe(true);
+  });
+});
+
+describe("htmlToPlainText", () => {
+  it("strips tags and decodes entities", () => {
+    expect(htmlToPlainText("<b>1 &lt; 2</b> &amp; <code>x</code>")).toBe("1 < 2 & x");
+  });
 });
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { TelegramWebhookReceiver } from "../src/adapters/telegramWebhook.js";
+
+const SECRET = "s3cret-token";
+
+describe("TelegramWebhookReceiver", () => {
+  let receiver: TelegramWebhookReceiver | null = null;
+
+  afterEach(async () => {
+    await receiver?.close();
+    receiver = null;
+  });
+
+  async function startReceiver(): Promise<string> {
+    receiver = new TelegramWebhookReceiver({ host: "127.0.0.1", port: 0, path: "/tg/hook", secretToken: SECRET });
+    const port = await receiver.start();
+    return `http://127.0.0.1:${port}`;
+  }
+
+  function post(url: string, body: string, secret?: string): Promise<Response> {
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(secret ? { "X-Telegram-Bot-Api-Secret-Token": secret } : {})
+      },
+      body
+    });
+  }
+
+  it("rejects requests without the secret token or on another path", async () => {
+    const base = await startReceiver();
+    expect((await post(`${base}/tg/hook`, "{}")).status).toBe(401);
+    expect((await post(`${base}/tg/hook`, "{}", "wrong")).status).toBe(401);
+    expect((await post(`${base}/other`, "{}", SECRET)).status).toBe(404);
+    expect((await post(`${base}/tg/hook`, "not json", SECRET)).status).toBe(400);
+    expect(await receiver!.take(0)).toEqual([]);
+  });
+
+  it("holds the HTTP response until updates are acknowledged", async () => {
+    const base = await startReceiver();
+    let answered = false;
+    const pending = post(`${base}/tg/hook`, JSON.stringify({ update_id: 7 }), SECRET).then((response) => {
+      answered = true;
+      return response;
+    });
+
+    const updates = await receiver!.take(5);
+    expect(updates).toEqual([{ update_id: 7 }]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(answered).toBe(false);
+
+    receiver!.acknowledge();
+    expect((await pending).status).toBe(200);
+  });
+
+  it("hands out a batch again when it was not stored, instead of acknowledging it later", async () => {
+    const base = await startReceiver();
+    const first = post(`${base}/tg/hook`, JSON.stringify({ update_id: 9 }), SECRET);
+    expect(await receiver!.take(5)).toEqual([{ update_id: 9 }]);
+    // Persisting that batch failed, so the loop takes again without acknowledging.
+    const second = post(`${base}/tg/hook`, JSON.stringify({ update_id: 10 }), SECRET);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await receiver!.take(0)).toEqual([{ update_id: 9 }, { update_id: 10 }]);
+
+    receiver!.acknowledge();
+    expect((await first).status).toBe(200);
+    expect((await second).status).toBe(200);
+    expect(await receiver!.take(0)).toEqual([]);
+  });
+
+  it("answers unacknowledged updates with 503 on close so Telegram redelivers them", async () => {
+    const base = await startReceiver();
+    const pending = post(`${base}/tg/hook`, JSON.stringify({ update_id: 8 }), SECRET);
+    await receiver!.take(5);
+    await receiver!.close();
+    receiver = null;
+    expect((await pending).status).toBe(503);
+  });
+});
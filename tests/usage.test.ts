@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { Db } from "../src/core/db.js";
+import { buildUsageReply, parseSince } from "../src/core/usage.js";
+
+const now = new Date("2025-03-10T12:00:00.000Z");
+
+describe("parseSince", () => {
+  it("accepts relative windows and dates", () => {
+    expect(parseSince("24h", now)).toBe("2025-03-09T12:00:00.000Z");
+    expect(parseSince("2w", now)).toBe("2025-02-24T12:00:00.000Z");
+    expect(parseSince("2025-03-01T00:00:00Z", now)).toBe("2025-03-01T00:00:00.000Z");
+    expect(() => parseSince("last week", now)).toThrow("Invalid --since value");
+  });
+});
+
+describe("buildUsageReply", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  it("reports only the caller's own runs", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-usage-"));
+    const db = new Db(path.join(dir, "state.sqlite"));
+    await db.migrate();
+    const base = {
+      chatId: "1",
+      scopeKey: "u:1",
+      durationMs: 1000,
+      outputTokens: 100,
+      outcome: "success" as const,
+      diagnosticId: null
+    };
+    await db.insertAgentRun({ ...base, userId: "ada", agent: "claude", startedAt: "2025-03-10T11:00:00.000Z", inputTokens: 1200, costUsd: 0.3 });
+    await db.insertAgentRun({ ...base, userId: "ada", agent: "codex", startedAt: "2025-03-01T11:00:00.000Z", inputTokens: 800, costUsd: null });
+    await db.insertAgentRun({ ...base, userId: "bob", agent: "claude", startedAt: "2025-03-10T11:00:00.000Z", inputTokens: 5, costUsd: 9 });
+
+    expect(await buildUsageReply(db, "ada", now)).toBe(
+      [
+        "Your usage:",
+        "Last 24 hours: 1 run, 1,200 input / 100 output tokens, $0.30",
+        "Last 30 days: 2 runs, 2,000 input / 200 output tokens, $0.30",
+        "- claude: 1 run, 1,200 input / 100 output tokens, $0.30",
+        "- codex: 1 run, 800 input / 100 output tokens"
+      ].join("\n")
+    );
+    await db.close();
+  });
+});
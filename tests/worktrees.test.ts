@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { GitWorktrees, handleWorktreeCommand } from "../src/core/worktrees.js";
+import { runCommand } from "../src/core/utils.js";
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const result = await runCommand("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd });
+  if (result.code !== 0) {
+    throw new Error(result.stderr);
+  }
+  return result.stdout;
+}
+
+const alice = { key: "u-alice:100", userId: "u-alice", chatId: "100", threadId: null };
+
+describe("git worktrees", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+      dir = null;
+    }
+  });
+
+  async function setup(mode: "user" | "session" = "user") {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cognal-worktrees-"));
+    await git(dir, "init", "-q", "-b", "main");
+    await fs.writeFile(path.join(dir, "a.txt"), "one\n");
+    await git(dir, "add", "a.txt");
+    await git(dir, "commit", "-q", "-m", "init");
+    return { root: dir, worktrees: new GitWorktrees({ projectRoot: dir, cognalDir: path.join(dir, ".cognal") }, mode) };
+  }
+
+  it("creates one worktree per user on its own branch", async () => {
+    const { root, worktrees } = await setup();
+    const [first, second] = await Promise.all([worktrees.workdirFor(alice), worktrees.workdirFor({ ...alice, key: "u-alice:-200" })]);
+
+    expect(first).toBe(path.join(root, ".cognal", "worktrees", "u-alice"));
+    expect(second).toBe(first);
+    expect((await git(first, "branch", "--show-current")).trim()).toBe("cognal/u-alice");
+    expect(await fs.readFile(path.join(first, "a.txt"), "utf8")).toBe("one\n");
+    expect(new GitWorktrees({ projectRoot: root, cognalDir: path.join(root, ".cognal") }, "session").keyFor(alice)).toBe("u-alice-100");
+  });
+
+  it("keeps a shared chat session in one worktree whoever sends the message", async () => {
+    const { root, worktrees } = await setup();
+    const shared = { key: "chat:-200", userId: "u-alice", chatId: "-200", threadId: null };
+    const [fromAlice, fromBob] = await Promise.all([worktrees.workdirFor(shared), worktrees.workdirFor({ ...shared, userId: "u-bob" })]);
+
+    expect(fromAlice).toBe(path.join(root, ".cognal", "worktrees", "chat--200"));
+    expect(fromBob).toBe(fromAlice);
+    expect(worktrees.branchFor({ ...shared, userId: "u-bob" })).toBe("cognal/chat--200");
+    expect(await worktrees.workdirFor(alice)).toBe(path.join(root, ".cognal", "worktrees", "u-alice"));
+  });
+
+  it("merges the user's edits into the project branch and syncs back", async () => {
+    const { root, worktrees } = await setup();
+    const workdir = await worktrees.workdirFor(alice);
+    await fs.writeFile(path.join(workdir, "b.txt"), "from agent\n");
+    expect(await worktrees.status(alice)).toMatchObject({ branch: "cognal/u-alice", base: "main", ahead: 0, behind: 0, changedFiles: 1 });
+
+    expect(await worktrees.merge(alice)).toEqual({ kind: "merged", commits: 1 });
+    expect(await fs.readFile(path.join(root, "b.txt"), "utf8")).toBe("from agent\n");
+    expect(await worktrees.merge(alice)).toEqual({ kind: "up_to_date" });
+
+    await fs.writeFile(path.join(root, "c.txt"), "from main\n");
+    await git(root, "add", "c.txt");
+    await git(root, "commit", "-q", "-m", "main work");
+    expect(await worktrees.sync(alice)).toEqual({ kind: "merged", commits: 1 });
+    expect(await fs.readFile(path.join(workdir, "c.txt"), "utf8")).toBe("from main\n");
+  });
+
+  it("aborts conflicting merges and refuses a dirty project branch", async () => {
+    const { root, worktrees } = await setup();
+    const workdir = await worktrees.workdirFor(alice);
+    await fs.writeFile(path.join(workdir, "a.txt"), "agent\n");
+    await fs.writeFile(path.join(root, "a.txt"), "human\n");
+    expect(await worktrees.merge(alice)).toEqual({ kind: "dirty", files: ["a.txt"] });
+
+    await git(root, "commit", "-q", "-am", "human edit");
+    expect(await worktrees.merge(alice)).toEqual({ kind: "conflict", files: ["a.txt"] });
+    expect(await fs.readFile(path.join(root, "a.txt"), "utf8")).toBe("human\n");
+    expect(await git(root, "status", "--porcelain", "--untracked-files=no")).toBe("");
+  });
+
+  it("explains how to turn isolation on and keeps viewers read-only", async () => {
+    const { worktrees } = await setup();
+    const manager = { isAnyRunning: () => false } as any;
+    expect(await handleWorktreeCommand({ worktrees: null, manager, scope: alice, role: "owner", command: "branch" })).toContain("git.isolation");
+    expect(await handleWorktreeCommand({ worktrees, manager, scope: alice, role: "viewer", command: "merge" })).toBe("Viewers cannot use /merge.");
+    expect(await handleWorktreeCommand({ worktrees, manager, scope: alice, role: "developer", command: "branch" })).toContain(
+      "0 commits ahead of main and 0 behind, 0 uncommitted files."
+    );
+  });
+
+  it("refuses /merge while any of the user's chats runs on the shared worktree", async () => {
+    const { worktrees } = await setup();
+    const topic = { key: "u-alice:-200:7", userId: "u-alice", chatId: "-200", threadId: "7" };
+    const bob = { key: "u-bob:100", userId: "u-bob", chatId: "100", threadId: null };
+    const managerRunning = (running: Array<typeof alice>) =>
+      ({ isAnyRunning: (matches: (scope: typeof alice) => boolean) => running.some(matches) }) as any;
+
+    expect(await handleWorktreeCommand({ worktrees, manager: managerRunning([topic]), scope: alice, role: "owner", command: "merge" })).toBe(
+      "An agent task is still running on this worktree. Wait for it or /cancel it before using /merge."
+    );
+    expect(await handleWorktreeCommand({ worktrees, manager: managerRunning([bob]), scope: alice, role: "owner", command: "merge" })).toBe(
+      "Nothing to merge: cognal/u-alice has no new commits."
+    );
+  });
+});